@@ -0,0 +1,149 @@
+import {
+  IsNotEmpty,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  Min,
+  Max,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { CoordinateDto, ManeuverType, RouteDto } from './route.dto';
+
+// 내비게이션 상태
+export enum NavigationStatus {
+  ON_ROUTE = 'on_route', // 경로 위 주행 중
+  OFF_ROUTE = 'off_route', // 경로 이탈 감지 (재탐색 전)
+  REROUTED = 'rerouted', // 현재 위치 기준으로 경로 재탐색 완료
+  ARRIVED = 'arrived', // 목적지 도착
+}
+
+// 내비게이션 시작 요청 DTO
+export class NavigationStartRequestDto {
+  @ApiProperty({
+    description: '안내할 경로 (full-journey / circular 응답의 RouteDto)',
+    type: RouteDto,
+  })
+  @IsNotEmpty()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => RouteDto)
+  route: RouteDto;
+}
+
+// GPS 위치 DTO
+export class GpsFixDto {
+  @ApiProperty({ description: '위도', example: 37.6312 })
+  @IsNotEmpty()
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  @Type(() => Number)
+  lat: number;
+
+  @ApiProperty({ description: '경도', example: 127.0735 })
+  @IsNotEmpty()
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  @Type(() => Number)
+  lng: number;
+
+  @ApiProperty({
+    description: 'GPS 정확도 (미터, 경로 이탈 판단 시 오차로 반영)',
+    required: false,
+    example: 8,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Type(() => Number)
+  accuracy?: number;
+}
+
+// 다음 안내 지점 DTO
+export class NextManeuverDto {
+  @ApiProperty({ description: '안내 타입', enum: ManeuverType })
+  type: ManeuverType;
+
+  @ApiProperty({
+    description: '안내 문구',
+    example: '중랑천로 방면으로 좌회전',
+  })
+  text: string;
+
+  @ApiProperty({ description: '안내 지점까지 남은 거리 (미터)', example: 85 })
+  distance: number;
+
+  @ApiProperty({ description: '안내 지점 좌표', type: CoordinateDto })
+  location: CoordinateDto;
+}
+
+// 내비게이션 진행 상황 DTO (위치 갱신 응답 및 SSE 이벤트 데이터)
+export class NavigationProgressDto {
+  @ApiProperty({ description: '세션 ID' })
+  sessionId: string;
+
+  @ApiProperty({ description: '내비게이션 상태', enum: NavigationStatus })
+  status: NavigationStatus;
+
+  @ApiProperty({
+    description: '경로 위에 매칭된 위치',
+    type: CoordinateDto,
+  })
+  matchedPosition: CoordinateDto;
+
+  @ApiProperty({ description: 'GPS 위치와 경로 사이 거리 (미터)' })
+  distanceFromRoute: number;
+
+  @ApiProperty({ description: '현재 세그먼트 인덱스' })
+  segmentIndex: number;
+
+  @ApiProperty({
+    description: '현재 세그먼트 타입',
+    enum: ['walking', 'biking', 'docking', 'transit'],
+  })
+  segmentType: 'walking' | 'biking' | 'docking' | 'transit';
+
+  @ApiProperty({ description: '진행한 거리 (미터)' })
+  traveledDistance: number;
+
+  @ApiProperty({ description: '남은 거리 (미터)' })
+  remainingDistance: number;
+
+  @ApiProperty({ description: '남은 예상 시간 (초)' })
+  remainingTime: number;
+
+  @ApiProperty({ description: '진행률 (0 ~ 1)', example: 0.42 })
+  progress: number;
+
+  @ApiProperty({
+    description: '다음 안내 지점 (도착 시 없음)',
+    type: NextManeuverDto,
+    required: false,
+  })
+  nextManeuver?: NextManeuverDto;
+
+  @ApiProperty({
+    description: '재탐색된 경로 (status가 rerouted일 때만 포함)',
+    type: RouteDto,
+    required: false,
+  })
+  route?: RouteDto;
+}
+
+// 내비게이션 세션 DTO
+export class NavigationSessionDto {
+  @ApiProperty({ description: '세션 ID (SSE 구독 및 위치 갱신에 사용)' })
+  sessionId: string;
+
+  @ApiProperty({
+    description: '세션 유효 시간 (초, 마지막 위치 갱신 기준)',
+    example: 1800,
+  })
+  idleTimeoutSeconds: number;
+
+  @ApiProperty({ description: '안내 중인 경로', type: RouteDto })
+  route: RouteDto;
+}
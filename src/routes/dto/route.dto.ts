@@ -5,11 +5,23 @@ import {
   IsOptional,
   IsArray,
   ArrayMaxSize,
+  ArrayMinSize,
+  IsEnum,
+  IsInt,
+  IsObject,
+  IsBoolean,
+  IsString,
+  IsDateString,
+  IsIn,
   Min,
   Max,
 } from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
+import type { IsochroneGeometry } from '../interfaces/routing-engine.interface';
+import { TransitLegDto, TransitMode } from '../../transit/dto/transit.dto';
+import type { ForecastConfidence } from '../../stations/types/station.types';
+import { ErrorResponseDto } from '../../common/api-response.dto';
 
 export class CoordinateDto {
   @ApiProperty({
@@ -44,24 +56,95 @@ export enum BikeProfile {
   FAST_BIKE = 'fast_bike',
 }
 
+// 경로 카테고리 (요청 시 원하는 카테고리 선택)
+export enum RouteCategory {
+  BIKE_ROAD = 'bike_road', // 자전거 도로 비율이 가장 높은 경로
+  SHORTEST = 'shortest', // 최단 거리
+  FASTEST = 'fastest', // 최소 시간
+  LEAST_CLIMBING = 'least_climbing', // 누적 상승 고도가 가장 낮은 경로
+  GENTLEST = 'gentlest', // 최대 경사도가 가장 완만한 경로
+  QUIETEST = 'quietest', // 간선도로(primary/trunk) 비율이 가장 낮은 경로
+}
+
+// 원형 경로 테마 (테마 영역/POI 카탈로그: services/theme/route-theme.catalog.ts)
+export enum RouteTheme {
+  HAN_RIVER = 'han_river', // 한강공원 자전거길
+  OLYMPIC_PARK = 'olympic_park', // 올림픽공원
+  SEOUL_FOREST = 'seoul_forest', // 서울숲
+  JUNGNANGCHEON = 'jungnangcheon', // 중랑천 자전거길
+  NAMSAN = 'namsan', // 남산
+}
+
+// 따릉이 이용권 종류 (1시간권 / 2시간권)
+export enum PassType {
+  ONE_HOUR = '1h',
+  TWO_HOUR = '2h',
+}
+
+// 자전거 기반 시설 분류 (road_class + bike_network 상세 정보 기반)
+export enum BikeInfrastructureType {
+  DEDICATED_CYCLEWAY = 'dedicated_cycleway', // 자전거 전용도로 (cycleway)
+  SHARED_PATH = 'shared_path', // 보행자 겸용 / 공원 길 / 자전거 노선 지정 생활도로
+  RESIDENTIAL = 'residential', // 자전거 노선이 아닌 이면도로 (residential, service 등)
+  ARTERIAL = 'arterial', // 차량과 함께 달리는 간선도로 (tertiary 이상)
+  OTHER = 'other', // 분류할 수 없는 도로
+}
+
+// 클라이언트가 다시 보내는 경로(RouteDto) 크기 제한 (내보내기/저장 요청)
+export const MAX_ROUTE_SEGMENTS = 50;
+export const MAX_GEOMETRY_POINTS = 20_000;
+
+// 자전거 기반 시설별 주행 거리 DTO (미터)
+export class BikeInfrastructureBreakdownDto {
+  @ApiProperty({ description: '자전거 전용도로 (미터)', example: 2140 })
+  @IsNumber()
+  dedicatedCycleway: number;
+
+  @ApiProperty({
+    description: '보행자 겸용 도로 / 자전거 노선 지정 도로 (미터)',
+    example: 620,
+  })
+  @IsNumber()
+  sharedPath: number;
+
+  @ApiProperty({ description: '이면도로 (미터)', example: 860 })
+  @IsNumber()
+  residential: number;
+
+  @ApiProperty({ description: '간선도로 (미터)', example: 310 })
+  @IsNumber()
+  arterial: number;
+
+  @ApiProperty({ description: '분류할 수 없는 도로 (미터)', example: 0 })
+  @IsNumber()
+  other: number;
+}
+
 export class SummaryDto {
   @ApiProperty({ description: '거리 (미터)' })
+  @IsNumber()
   distance: number;
 
   @ApiProperty({ description: '시간 (초)' })
+  @IsNumber()
   time: number;
 
   @ApiProperty({ description: '상승 고도 (미터)' })
+  @IsNumber()
   ascent: number;
 
   @ApiProperty({ description: '하강 고도 (미터)' })
+  @IsNumber()
   descent: number;
 
   @ApiProperty({
-    description: '자전거 도로 비율 (0.00 ~ 1.00)',
+    description:
+      '자전거 도로 비율 (0.00 ~ 1.00) - 전용도로와 겸용 도로만 포함 (이면도로 제외)',
     required: false,
     example: 0.78,
   })
+  @IsOptional()
+  @IsNumber()
   bikeRoadRatio?: number;
 
   @ApiProperty({
@@ -69,43 +152,258 @@ export class SummaryDto {
     required: false,
     example: 8.5,
   })
+  @IsOptional()
+  @IsNumber()
   maxGradient?: number;
+
+  @ApiProperty({
+    description:
+      '도로 등급(road_class)별 주행 거리 (미터) - 자전거 구간 세그먼트만 포함',
+    required: false,
+    example: { cycleway: 2140, residential: 860, secondary: 310 },
+  })
+  @IsOptional()
+  @IsObject()
+  roadClassDistances?: Record<string, number>;
+
+  @ApiProperty({
+    description: '자전거 기반 시설별 주행 거리 - 자전거 구간만 포함',
+    type: BikeInfrastructureBreakdownDto,
+    required: false,
+  })
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => BikeInfrastructureBreakdownDto)
+  infrastructure?: BikeInfrastructureBreakdownDto;
+}
+
+// 안내 지점(maneuver) 타입 - GraphHopper sign 값 기반 + 대여/반납 합성 안내
+export enum ManeuverType {
+  DEPART = 'depart',
+  CONTINUE = 'continue',
+  SLIGHT_LEFT = 'slight_left',
+  LEFT = 'left',
+  SHARP_LEFT = 'sharp_left',
+  SLIGHT_RIGHT = 'slight_right',
+  RIGHT = 'right',
+  SHARP_RIGHT = 'sharp_right',
+  KEEP_LEFT = 'keep_left',
+  KEEP_RIGHT = 'keep_right',
+  U_TURN = 'u_turn',
+  ROUNDABOUT = 'roundabout',
+  LEAVE_ROUNDABOUT = 'leave_roundabout',
+  WAYPOINT = 'waypoint',
+  ARRIVE = 'arrive',
+  RENT_BIKE = 'rent_bike',
+  RETURN_BIKE = 'return_bike',
+}
+
+export class InstructionDto {
+  @ApiProperty({
+    description: '안내 타입',
+    enum: ManeuverType,
+    example: ManeuverType.LEFT,
+  })
+  @IsEnum(ManeuverType)
+  type: ManeuverType;
+
+  @ApiProperty({
+    description: '안내 문구 (한국어)',
+    example: '중랑천로 방면으로 좌회전',
+  })
+  @IsString()
+  text: string;
+
+  @ApiProperty({ description: '다음 안내까지의 거리 (미터)', example: 120 })
+  @IsNumber()
+  distance: number;
+
+  @ApiProperty({ description: '다음 안내까지의 소요 시간 (초)', example: 30 })
+  @IsNumber()
+  time: number;
+
+  @ApiProperty({
+    description: '해당 안내가 적용되는 geometry.points 인덱스 범위 [시작, 끝]',
+    type: [Number],
+    example: [0, 12],
+  })
+  @IsArray()
+  @ArrayMinSize(2)
+  @ArrayMaxSize(2)
+  @IsInt({ each: true })
+  interval: [number, number];
 }
 
 export class BoundingBoxDto {
   @ApiProperty({ description: '최소 위도' })
+  @IsNumber()
   minLat: number;
 
   @ApiProperty({ description: '최소 경도' })
+  @IsNumber()
   minLng: number;
 
   @ApiProperty({ description: '최대 위도' })
+  @IsNumber()
   maxLat: number;
 
   @ApiProperty({ description: '최대 경도' })
+  @IsNumber()
   maxLng: number;
 }
 
+// 경로 좌표 인코딩 방식
+export enum GeometryEncoding {
+  RAW = 'raw', // [lng, lat, ele] 좌표 배열 (기본값)
+  POLYLINE5 = 'polyline5', // Encoded Polyline (정밀도 1e5, 고도 제외)
+  POLYLINE6 = 'polyline6', // Encoded Polyline (정밀도 1e6, 고도 제외)
+  POLYLINE_WITH_ELEVATION = 'polyline-with-elevation', // 정밀도 1e5 + 고도(1e2)
+}
+
 export class GeometryDto {
-  @ApiProperty({ description: '경로 좌표 배열' })
+  @ApiProperty({
+    description:
+      '경로 좌표 배열 [lng, lat, ele] (encoding이 raw가 아니면 빈 배열)',
+  })
+  @IsArray()
+  @ArrayMaxSize(MAX_GEOMETRY_POINTS)
+  @IsArray({ each: true })
   points: number[][];
+
+  @ApiProperty({
+    description: '좌표 인코딩 방식 (인코딩된 경우에만 포함)',
+    enum: GeometryEncoding,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(GeometryEncoding)
+  encoding?: GeometryEncoding;
+
+  @ApiProperty({
+    description:
+      '인코딩된 좌표 문자열 ([lat, lng(, ele)] 순서의 Encoded Polyline, 인코딩된 경우에만 포함)',
+    required: false,
+    example: '_p~iF~ps|U_ulLnnqC_mqNvxq`@',
+  })
+  @IsOptional()
+  @IsString()
+  encoded?: string;
+}
+
+// 출발 시각 기준 대여소 재고 예측 정보
+export class StationForecastDto {
+  @ApiProperty({
+    description: '예측 시각 (해당 대여소 도착 예상 시각, ISO 8601)',
+    example: '2026-10-20T08:15:00.000Z',
+  })
+  @IsDateString()
+  forecastAt: string;
+
+  @ApiProperty({
+    description:
+      '예측 신뢰도 (high: 실시간 재고에 가깝거나 이력이 충분하고 변동이 작음, medium: 이력 일부 보유, low: 이력 부족)',
+    enum: ['high', 'medium', 'low'],
+    example: 'medium',
+  })
+  @IsIn(['high', 'medium', 'low'])
+  confidence: ForecastConfidence;
+
+  @ApiProperty({
+    description: '예측에 사용한 같은 요일 유형·시간대의 이력 스냅샷 수',
+    example: 12,
+  })
+  @IsInt()
+  sampleCount: number;
 }
 
 export class RouteStationDto {
   @ApiProperty({ description: '대여소 번호' })
+  @IsString()
   number: string;
 
   @ApiProperty({ description: '대여소 이름' })
+  @IsString()
   name: string;
 
   @ApiProperty({ description: '대여소 위도' })
+  @IsNumber()
   lat: number;
 
   @ApiProperty({ description: '대여소 경도' })
+  @IsNumber()
   lng: number;
 
-  @ApiProperty({ description: '현재 이용 가능한 자전거 수' })
+  @ApiProperty({
+    description:
+      '이용 가능한 자전거 수 (departAt 지정 시 도착 예상 시각 기준 예측값, 아니면 실시간 값)',
+  })
+  @IsNumber()
   current_bikes: number;
+
+  @ApiProperty({ description: '총 거치대 수', required: false })
+  @IsOptional()
+  @IsNumber()
+  total_racks?: number;
+
+  @ApiProperty({
+    description:
+      '빈 거치대 수 (반납 가능 수, total_racks - current_bikes, departAt 지정 시 예측값)',
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  free_docks?: number;
+
+  @ApiProperty({
+    description: '재고 예측 정보 (departAt 지정 시에만 포함)',
+    type: StationForecastDto,
+    required: false,
+  })
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => StationForecastDto)
+  forecast?: StationForecastDto;
+}
+
+// 대여소 쌍(시작/도착) 선택 점수 상세
+export class StationPairScoreDto {
+  @ApiProperty({
+    description: '종합 점수 (분 단위 환산 비용, 낮을수록 좋음)',
+    example: 12.4,
+  })
+  @IsNumber()
+  totalScore: number;
+
+  @ApiProperty({
+    description: '도보 시간 합계 (초, 출발지→대여소 + 대여소→도착지)',
+    example: 480,
+  })
+  @IsNumber()
+  walkingTime: number;
+
+  @ApiProperty({
+    description: '재고 부족 패널티 (분, 대여 자전거/반납 거치대가 적을수록 큼)',
+    example: 1.2,
+  })
+  @IsNumber()
+  stockPenalty: number;
+
+  @ApiProperty({
+    description:
+      '도착 전 재고 소진 위험도 (0.00 ~ 1.00, 자전거 소진 또는 거치대 만차)',
+    example: 0.08,
+  })
+  @IsNumber()
+  depletionRisk: number;
+
+  @ApiProperty({
+    description: '직선 경로 대비 추가 자전거 주행 거리 추정치 (미터)',
+    example: 150,
+  })
+  @IsNumber()
+  extraBikeDistance: number;
 }
 
 // ============================================
@@ -113,6 +411,13 @@ export class RouteStationDto {
 // ============================================
 
 // A-B 경로 검색 요청 DTO (통합 경로, 왕복 경로에서 공통 사용)
+// 경유지 개수 제한 (순서 최적화 미사용 / 사용)
+export const MAX_ORDERED_WAYPOINTS = 3;
+export const MAX_OPTIMIZED_WAYPOINTS = 10;
+// 출발 시각 지정 허용 범위 (과거 허용 오차 / 최대 예약 일수)
+export const DEPART_AT_PAST_TOLERANCE_MS = 5 * 60 * 1000;
+export const MAX_DEPART_AHEAD_DAYS = 7;
+
 export class PointToPointRouteRequestDto {
   @ApiProperty({
     description: '출발지 좌표',
@@ -135,10 +440,10 @@ export class PointToPointRouteRequestDto {
   end: CoordinateDto;
 
   @ApiProperty({
-    description: '경유지 좌표 배열 (최대 3개)',
+    description: '경유지 좌표 배열 (최대 3개, optimizeOrder 사용 시 최대 10개)',
     type: [CoordinateDto],
     required: false,
-    maxItems: 3,
+    maxItems: MAX_OPTIMIZED_WAYPOINTS,
     example: [
       { lat: 37.642417, lng: 127.067248 },
       { lat: 37.658922, lng: 127.071167 },
@@ -146,13 +451,102 @@ export class PointToPointRouteRequestDto {
   })
   @IsOptional()
   @IsArray()
-  @ArrayMaxSize(3)
+  @ArrayMaxSize(MAX_OPTIMIZED_WAYPOINTS)
   @ValidateNested({ each: true })
   @Type(() => CoordinateDto)
   waypoints?: CoordinateDto[];
+
+  @ApiProperty({
+    description:
+      '경유지 방문 순서 최적화 여부 (출발지/도착지 고정, 자전거 소요 시간 기준). 결과 경로의 waypointOrder에 방문 순서 반환',
+    required: false,
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  optimizeOrder?: boolean;
+
+  @ApiProperty({
+    description: `출발 예정 시각 (ISO 8601, 현재 ~ ${MAX_DEPART_AHEAD_DAYS}일 이내). 지정 시 대여소 선택에 도착 예상 시각 기준 예측 재고 사용`,
+    required: false,
+    example: '2026-10-20T08:00:00+09:00',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'departAt은 ISO 8601 형식이어야 합니다.' })
+  departAt?: string;
+  @ApiProperty({
+    description:
+      '대체 대여소 쌍 경로 개수 (경유지 없는 경로에만 적용, 0 ~ 5, 기본값 0)',
+    required: false,
+    minimum: 0,
+    maximum: 5,
+    example: 2,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(5)
+  @Type(() => Number)
+  stationAlternatives?: number;
+  @ApiProperty({
+    description:
+      '이용권 종류 (1h: 1시간권, 2h: 2시간권). 지정 시 자전거 이용 시간이 초과되면 중간 대여소 반납/재대여 구간을 추가',
+    enum: PassType,
+    required: false,
+    example: PassType.ONE_HOUR,
+  })
+  @IsOptional()
+  @IsEnum(PassType, { message: 'passType은 1h 또는 2h여야 합니다.' })
+  passType?: PassType;
+
+  @ApiProperty({
+    description:
+      '원하는 경로 카테고리 목록 (미지정 시 자전거 도로 우선/최단 거리/최소 시간). least_climbing: 최소 오르막, gentlest: 완만한 경사, quietest: 한적한 도로',
+    enum: RouteCategory,
+    isArray: true,
+    required: false,
+    example: [RouteCategory.LEAST_CLIMBING, RouteCategory.GENTLEST],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(6)
+  @IsEnum(RouteCategory, {
+    each: true,
+    message:
+      'categories는 bike_road, shortest, fastest, least_climbing, gentlest, quietest 중에서 선택해야 합니다.',
+  })
+  categories?: RouteCategory[];
+
+  @ApiProperty({
+    description:
+      '자전거 구간별 고도 프로필([거리, 고도, 경사도]) 및 오르막 구간 포함 여부 (기본값 false)',
+    required: false,
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  includeElevationProfile?: boolean;
+
+  @ApiProperty({
+    description:
+      '경로 좌표 인코딩 방식 (기본값 raw). polyline5/polyline6: Encoded Polyline, polyline-with-elevation: 고도 포함',
+    enum: GeometryEncoding,
+    required: false,
+    example: GeometryEncoding.POLYLINE5,
+  })
+  @IsOptional()
+  @IsEnum(GeometryEncoding, {
+    message:
+      'encoding은 raw, polyline5, polyline6, polyline-with-elevation 중에서 선택해야 합니다.',
+  })
+  encoding?: GeometryEncoding;
 }
 
 // 원형 경로 추천 요청 DTO (출발지 = 도착지인 원형 경로)
+export const MAX_ROUTE_SEED = 1_000_000_000;
+export const MIN_CIRCULAR_DISTANCE = 100;
+export const MAX_CIRCULAR_DISTANCE = 50000;
+
 export class CircularRouteRequestDto {
   @ApiProperty({
     description: '출발지 좌표 (도착지와 동일)',
@@ -167,90 +561,1046 @@ export class CircularRouteRequestDto {
   @ApiProperty({
     description: '목표 거리 (미터, 100m ~ 50km)',
     example: 5000,
-    minimum: 1000,
-    maximum: 50000,
+    minimum: MIN_CIRCULAR_DISTANCE,
+    maximum: MAX_CIRCULAR_DISTANCE,
   })
   @IsNotEmpty({ message: '목표 거리는 필수값입니다.' })
   @IsNumber({}, { message: '목표 거리는 숫자여야 합니다.' })
-  @Min(100, { message: '목표 거리는 최소 100m 이상이어야 합니다.' })
-  @Max(50000, { message: '목표 거리는 최대 50km(50000m) 이하여야 합니다.' })
+  @Min(MIN_CIRCULAR_DISTANCE, {
+    message: '목표 거리는 최소 100m 이상이어야 합니다.',
+  })
+  @Max(MAX_CIRCULAR_DISTANCE, {
+    message: '목표 거리는 최대 50km(50000m) 이하여야 합니다.',
+  })
   @Type(() => Number)
   targetDistance: number;
-}
+  @ApiProperty({
+    description:
+      '이용권 종류 (1h: 1시간권, 2h: 2시간권). 지정 시 자전거 이용 시간이 초과되면 중간 대여소 반납/재대여 구간을 추가',
+    enum: PassType,
+    required: false,
+    example: PassType.ONE_HOUR,
+  })
+  @IsOptional()
+  @IsEnum(PassType, { message: 'passType은 1h 또는 2h여야 합니다.' })
+  passType?: PassType;
 
-// 하위 호환성을 위한 별칭들
-export class RouteSearchRequestDto extends PointToPointRouteRequestDto {}
-export class FullJourneyRequestDto extends PointToPointRouteRequestDto {}
+  @ApiProperty({
+    description:
+      '원하는 경로 카테고리 목록 (미지정 시 자전거 도로 우선/최단 거리/최소 시간). least_climbing: 최소 오르막, gentlest: 완만한 경사, quietest: 한적한 도로',
+    enum: RouteCategory,
+    isArray: true,
+    required: false,
+    example: [RouteCategory.LEAST_CLIMBING, RouteCategory.GENTLEST],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(6)
+  @IsEnum(RouteCategory, {
+    each: true,
+    message:
+      'categories는 bike_road, shortest, fastest, least_climbing, gentlest, quietest 중에서 선택해야 합니다.',
+  })
+  categories?: RouteCategory[];
 
-// ============================================
-// 응답 DTO들
-// ============================================
+  @ApiProperty({
+    description:
+      '자전거 구간별 고도 프로필([거리, 고도, 경사도]) 및 오르막 구간 포함 여부 (기본값 false)',
+    required: false,
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  includeElevationProfile?: boolean;
 
-// 경로 세그먼트 DTO (도보 또는 자전거 구간)
-export class RouteSegmentDto {
   @ApiProperty({
-    description: '세그먼트 타입',
-    enum: ['walking', 'biking'],
+    description:
+      '경로 좌표 인코딩 방식 (기본값 raw). polyline5/polyline6: Encoded Polyline, polyline-with-elevation: 고도 포함',
+    enum: GeometryEncoding,
+    required: false,
+    example: GeometryEncoding.POLYLINE5,
   })
-  type: 'walking' | 'biking';
+  @IsOptional()
+  @IsEnum(GeometryEncoding, {
+    message:
+      'encoding은 raw, polyline5, polyline6, polyline-with-elevation 중에서 선택해야 합니다.',
+  })
+  encoding?: GeometryEncoding;
 
-  @ApiProperty({ description: '경로 요약', type: SummaryDto })
-  summary: SummaryDto;
+  @ApiProperty({
+    description:
+      '경로 테마. 지정 시 테마 영역을 지나는 비율이 높은 원형 경로를 우선 추천하고 themeCoverage를 함께 반환',
+    enum: RouteTheme,
+    required: false,
+    example: RouteTheme.JUNGNANGCHEON,
+  })
+  @IsOptional()
+  @IsEnum(RouteTheme, {
+    message:
+      'theme은 han_river, olympic_park, seoul_forest, jungnangcheon, namsan 중에서 선택해야 합니다.',
+  })
+  theme?: RouteTheme;
 
-  @ApiProperty({ description: '경로 경계 상자', type: BoundingBoxDto })
-  bbox: BoundingBoxDto;
+  @ApiProperty({
+    description:
+      '반드시 경유할 테마 POI ID (theme 필수). 지정 시 대여소 → POI → 대여소 왕복 경로로 추천하며 targetDistance는 적용되지 않음',
+    required: false,
+    example: 'jungnangcheon-nowon-bridge',
+  })
+  @IsOptional()
+  @IsString()
+  themePoiId?: string;
 
-  @ApiProperty({ description: '경로 지오메트리', type: GeometryDto })
-  geometry: GeometryDto;
+  @ApiProperty({
+    description:
+      '원형 경로 생성 시드 (같은 요청과 시드면 같은 경로를 추천, 미지정 시 임의 생성)',
+    required: false,
+    example: 4821,
+  })
+  @IsOptional()
+  @IsInt({ message: 'seed는 정수여야 합니다.' })
+  @Min(0)
+  @Max(MAX_ROUTE_SEED)
+  @Type(() => Number)
+  seed?: number;
 
   @ApiProperty({
-    description: '자전거 프로필 (자전거 구간에만 적용)',
-    enum: BikeProfile,
+    description:
+      '이전 응답의 routeToken. 지정 시 해당 원형 경로를 그대로 재생성 (targetDistance, seed, theme은 무시)',
     required: false,
   })
-  profile?: BikeProfile;
+  @IsOptional()
+  @IsString()
+  routeToken?: string;
 }
 
-// 완전한 경로 DTO (여러 세그먼트로 구성)
-export class RouteDto {
+// 대중교통 연계 경로 요청 DTO (도보/따릉이 → 대중교통 → 도보/따릉이)
+export const MAX_MULTIMODAL_ROUTES = 5;
+
+export class MultimodalRouteRequestDto {
   @ApiProperty({
-    description: '경로 카테고리',
-    example: '자전거 도로 우선',
+    description: '출발지 좌표',
+    type: CoordinateDto,
+    example: { lat: 37.626666, lng: 127.076764 },
   })
-  routeCategory: string;
+  @IsNotEmpty()
+  @ValidateNested()
+  @Type(() => CoordinateDto)
+  start: CoordinateDto;
 
-  @ApiProperty({ description: '전체 경로 요약', type: SummaryDto })
-  summary: SummaryDto;
+  @ApiProperty({
+    description: '목적지 좌표',
+    type: CoordinateDto,
+    example: { lat: 37.5547, lng: 126.9707 },
+  })
+  @IsNotEmpty()
+  @ValidateNested()
+  @Type(() => CoordinateDto)
+  end: CoordinateDto;
 
-  @ApiProperty({ description: '전체 경로 경계 상자', type: BoundingBoxDto })
-  bbox: BoundingBoxDto;
+  @ApiProperty({
+    description: '이용할 대중교통 수단 (미지정 시 전체)',
+    enum: TransitMode,
+    isArray: true,
+    required: false,
+    example: [TransitMode.SUBWAY],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(TransitMode, {
+    each: true,
+    message: 'transitModes는 subway, rail, tram, bus 중에서 선택해야 합니다.',
+  })
+  transitModes?: TransitMode[];
 
   @ApiProperty({
-    description: '시작 대여소 정보',
-    type: RouteStationDto,
+    description: `추천 경로 개수 (노선별 1개, 1 ~ ${MAX_MULTIMODAL_ROUTES}, 기본값 3)`,
     required: false,
+    minimum: 1,
+    maximum: MAX_MULTIMODAL_ROUTES,
+    example: 3,
   })
-  startStation?: RouteStationDto;
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_MULTIMODAL_ROUTES)
+  @Type(() => Number)
+  maxRoutes?: number;
 
   @ApiProperty({
-    description: '도착 대여소 정보',
-    type: RouteStationDto,
+    description:
+      '자전거 구간별 고도 프로필([거리, 고도, 경사도]) 및 오르막 구간 포함 여부 (기본값 false)',
     required: false,
+    example: false,
   })
-  endStation?: RouteStationDto;
+  @IsOptional()
+  @IsBoolean()
+  includeElevationProfile?: boolean;
 
-  @ApiProperty({ description: '경로 세그먼트들', type: [RouteSegmentDto] })
-  segments: RouteSegmentDto[];
+  @ApiProperty({
+    description:
+      '경로 좌표 인코딩 방식 (기본값 raw). polyline5/polyline6: Encoded Polyline, polyline-with-elevation: 고도 포함',
+    enum: GeometryEncoding,
+    required: false,
+    example: GeometryEncoding.POLYLINE5,
+  })
+  @IsOptional()
+  @IsEnum(GeometryEncoding, {
+    message:
+      'encoding은 raw, polyline5, polyline6, polyline-with-elevation 중에서 선택해야 합니다.',
+  })
+  encoding?: GeometryEncoding;
 }
 
-// 최종 API 응답 DTO
-export class RouteResponseDto {
-  @ApiProperty({ description: '추천 경로들', type: [RouteDto] })
-  routes: RouteDto[];
+// 하위 호환성을 위한 별칭들
+export class RouteSearchRequestDto extends PointToPointRouteRequestDto {}
+export class FullJourneyRequestDto extends PointToPointRouteRequestDto {}
 
-  @ApiProperty({ description: '처리 시간 (밀리초)' })
-  processingTime: number;
-}
+// ============================================
+// 응답 DTO들
+// ============================================
 
-// 하위 호환성을 위한 별칭
-export class FullJourneyResponseDto extends RouteResponseDto {}
+// 오르막 구간 DTO (평균 경사도가 기준 이상인 연속 구간)
+export class ClimbSectionDto {
+  @ApiProperty({ description: '구간 시작 거리 (미터, 세그먼트 시작 기준)' })
+  @IsNumber()
+  startDistance: number;
+
+  @ApiProperty({ description: '구간 종료 거리 (미터, 세그먼트 시작 기준)' })
+  @IsNumber()
+  endDistance: number;
+
+  @ApiProperty({ description: '구간 길이 (미터)', example: 420 })
+  @IsNumber()
+  length: number;
+
+  @ApiProperty({ description: '상승 고도 (미터)', example: 31 })
+  @IsNumber()
+  elevationGain: number;
+
+  @ApiProperty({ description: '평균 경사도 (%)', example: 7.4 })
+  @IsNumber()
+  averageGrade: number;
+
+  @ApiProperty({ description: '최대 경사도 (%)', example: 10.2 })
+  @IsNumber()
+  maxGrade: number;
+
+  @ApiProperty({
+    description: 'geometry.points 기준 구간 인덱스 [시작, 끝]',
+    example: [12, 48],
+  })
+  @IsArray()
+  @ArrayMinSize(2)
+  @ArrayMaxSize(2)
+  @IsInt({ each: true })
+  interval: [number, number];
+}
+
+// 고도 프로필 DTO (차트 표시용으로 다운샘플링)
+export class ElevationProfileDto {
+  @ApiProperty({
+    description: '샘플 배열 [누적 거리(m), 고도(m), 경사도(%)]',
+    example: [
+      [0, 38.2, 0],
+      [50, 40.1, 3.8],
+    ],
+  })
+  @IsArray()
+  @ArrayMaxSize(MAX_GEOMETRY_POINTS)
+  @IsArray({ each: true })
+  profile: number[][];
+
+  @ApiProperty({ description: '샘플 간격 (미터)', example: 50 })
+  @IsNumber()
+  sampleInterval: number;
+
+  @ApiProperty({
+    description: '오르막 구간 목록 (거리 순)',
+    type: [ClimbSectionDto],
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ClimbSectionDto)
+  climbs: ClimbSectionDto[];
+}
+
+// 자전거 기반 시설 구간 DTO (지도에서 구간별 색상 표시용)
+export class InfrastructureStretchDto {
+  @ApiProperty({
+    description: '자전거 기반 시설 분류',
+    enum: BikeInfrastructureType,
+  })
+  @IsEnum(BikeInfrastructureType)
+  type: BikeInfrastructureType;
+
+  @ApiProperty({
+    description: '해당 구간의 geometry.points 인덱스 범위 [시작, 끝]',
+    type: [Number],
+    example: [0, 42],
+  })
+  @IsArray()
+  @ArrayMinSize(2)
+  @ArrayMaxSize(2)
+  @IsInt({ each: true })
+  interval: [number, number];
+
+  @ApiProperty({ description: '구간 거리 (미터)', example: 1250 })
+  @IsNumber()
+  distance: number;
+}
+
+// 경로 세그먼트 DTO (도보 또는 자전거 구간)
+export class RouteSegmentDto {
+  @ApiProperty({
+    description:
+      '세그먼트 타입 (docking: 중간 대여소 반납 후 재대여, transit: 대중교통 탑승)',
+    enum: ['walking', 'biking', 'docking', 'transit'],
+  })
+  @IsIn(['walking', 'biking', 'docking', 'transit'])
+  type: 'walking' | 'biking' | 'docking' | 'transit';
+
+  @ApiProperty({ description: '경로 요약', type: SummaryDto })
+  @IsObject()
+  @ValidateNested()
+  @Type(() => SummaryDto)
+  summary: SummaryDto;
+
+  @ApiProperty({ description: '경로 경계 상자', type: BoundingBoxDto })
+  @IsObject()
+  @ValidateNested()
+  @Type(() => BoundingBoxDto)
+  bbox: BoundingBoxDto;
+
+  @ApiProperty({ description: '경로 지오메트리', type: GeometryDto })
+  @IsObject()
+  @ValidateNested()
+  @Type(() => GeometryDto)
+  geometry: GeometryDto;
+
+  @ApiProperty({
+    description: '자전거 프로필 (자전거 구간에만 적용)',
+    enum: BikeProfile,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(BikeProfile)
+  profile?: BikeProfile;
+
+  @ApiProperty({
+    description: '턴바이턴 안내 목록 (대여/반납 안내 포함)',
+    type: [InstructionDto],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => InstructionDto)
+  instructions?: InstructionDto[];
+
+  @ApiProperty({
+    description: '반납 후 재대여하는 중간 대여소 (docking 구간에만 적용)',
+    type: RouteStationDto,
+    required: false,
+  })
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => RouteStationDto)
+  dockingStation?: RouteStationDto;
+
+  @ApiProperty({
+    description: '대중교통 노선/정류장 정보 (transit 구간에만 적용)',
+    type: TransitLegDto,
+    required: false,
+  })
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => TransitLegDto)
+  transit?: TransitLegDto;
+
+  @ApiProperty({
+    description:
+      '고도 프로필 및 오르막 구간 (자전거 구간, includeElevationProfile 요청 시)',
+    type: ElevationProfileDto,
+    required: false,
+  })
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => ElevationProfileDto)
+  elevationProfile?: ElevationProfileDto;
+
+  @ApiProperty({
+    description:
+      '자전거 기반 시설 구간 목록 (자전거 구간에만 적용, 같은 분류의 연속 구간은 병합)',
+    type: [InfrastructureStretchDto],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => InfrastructureStretchDto)
+  infrastructure?: InfrastructureStretchDto[];
+}
+
+// 이용권 시간 초과 경고 DTO
+export class RentalLimitWarningDto {
+  @ApiProperty({ description: '이용권 종류', enum: PassType })
+  @IsEnum(PassType)
+  passType: PassType;
+
+  @ApiProperty({ description: '이용권 1회 이용 제한 시간 (분)', example: 60 })
+  @IsNumber()
+  limitMinutes: number;
+
+  @ApiProperty({
+    description: '연속 자전거 이용 시간 중 가장 긴 시간 (분)',
+    example: 74,
+  })
+  @IsNumber()
+  bikingMinutes: number;
+
+  @ApiProperty({ description: '초과 시간 (분)', example: 14 })
+  @IsNumber()
+  overtimeMinutes: number;
+
+  @ApiProperty({ description: '예상 초과 요금 (원)', example: 600 })
+  @IsNumber()
+  estimatedOvertimeFee: number;
+
+  @ApiProperty({
+    description: '경고 메시지',
+    example: '경로상에 반납 가능한 대여소가 없어 이용 시간이 초과됩니다.',
+  })
+  @IsString()
+  message: string;
+}
+
+// 도로 스냅 결과 DTO (경로 검색 전 출발지/도착지/경유지를 가장 가까운 도로로 보정)
+export class SnappedPointDto {
+  @ApiProperty({
+    description: '지점 종류',
+    enum: ['start', 'end', 'waypoint'],
+    example: 'waypoint',
+  })
+  @IsIn(['start', 'end', 'waypoint'])
+  role: 'start' | 'end' | 'waypoint';
+
+  @ApiProperty({
+    description: '경유지 순서 (요청 기준 0부터, waypoint인 경우에만 포함)',
+    required: false,
+    example: 0,
+  })
+  @IsOptional()
+  @IsInt()
+  index?: number;
+
+  @ApiProperty({ description: '요청 좌표', type: CoordinateDto })
+  @IsObject()
+  @ValidateNested()
+  @Type(() => CoordinateDto)
+  original: CoordinateDto;
+
+  @ApiProperty({ description: '보정된 도로 위 좌표', type: CoordinateDto })
+  @IsObject()
+  @ValidateNested()
+  @Type(() => CoordinateDto)
+  snapped: CoordinateDto;
+
+  @ApiProperty({
+    description: '요청 좌표와 보정 좌표 사이 거리 (미터)',
+    example: 18.4,
+  })
+  @IsNumber()
+  distance: number;
+}
+
+// 경로 품질 점수 DTO (각 항목 0 ~ 100, 높을수록 좋음)
+export class RouteScoreDto {
+  @ApiProperty({ description: '종합 점수 (항목별 가중 평균)', example: 78 })
+  @IsNumber()
+  overall: number;
+
+  @ApiProperty({
+    description: '안전성 - 자전거 구간의 도로 등급(road_class) 구성 기반',
+    example: 82,
+  })
+  @IsNumber()
+  safety: number;
+
+  @ApiProperty({
+    description: '쾌적성 - 최대 경사도와 km당 상승 고도 기반',
+    example: 71,
+  })
+  @IsNumber()
+  comfort: number;
+
+  @ApiProperty({
+    description:
+      '직진성 - 출발지/도착지 직선 거리 대비 경로 거리 (원형 경로는 제외)',
+    required: false,
+    example: 76,
+  })
+  @IsOptional()
+  @IsNumber()
+  directness?: number;
+
+  @ApiProperty({
+    description: '자전거 인프라 - 자전거 구간 중 자전거 도로 비율',
+    example: 64,
+  })
+  @IsNumber()
+  bikeInfrastructure: number;
+}
+
+// 완전한 경로 DTO (여러 세그먼트로 구성)
+export class RouteDto {
+  @ApiProperty({
+    description: '경로 카테고리',
+    example: '자전거 도로 우선',
+  })
+  @IsString()
+  routeCategory: string;
+
+  @ApiProperty({
+    description: '해당 카테고리로 선택된 이유',
+    required: false,
+    example: '후보 경로 6개 중 누적 상승 고도가 가장 낮음 (12m)',
+  })
+  @IsOptional()
+  @IsString()
+  categoryReason?: string;
+
+  @ApiProperty({
+    description:
+      '최적화된 경유지 방문 순서 (요청 waypoints 배열 기준 인덱스, optimizeOrder 요청 시)',
+    required: false,
+    example: [2, 0, 1],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsInt({ each: true })
+  waypointOrder?: number[];
+
+  @ApiProperty({ description: '전체 경로 요약', type: SummaryDto })
+  @IsObject()
+  @ValidateNested()
+  @Type(() => SummaryDto)
+  summary: SummaryDto;
+
+  @ApiProperty({ description: '전체 경로 경계 상자', type: BoundingBoxDto })
+  @IsObject()
+  @ValidateNested()
+  @Type(() => BoundingBoxDto)
+  bbox: BoundingBoxDto;
+
+  @ApiProperty({
+    description: '시작 대여소 정보',
+    type: RouteStationDto,
+    required: false,
+  })
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => RouteStationDto)
+  startStation?: RouteStationDto;
+
+  @ApiProperty({
+    description: '도착 대여소 정보',
+    type: RouteStationDto,
+    required: false,
+  })
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => RouteStationDto)
+  endStation?: RouteStationDto;
+
+  @ApiProperty({
+    description: '대여소 쌍 선택 점수 상세',
+    type: StationPairScoreDto,
+    required: false,
+  })
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => StationPairScoreDto)
+  stationScore?: StationPairScoreDto;
+
+  @ApiProperty({
+    description: '이용권 시간 초과 경고 (중간 반납으로 해결할 수 없는 경우)',
+    type: RentalLimitWarningDto,
+    required: false,
+  })
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => RentalLimitWarningDto)
+  rentalWarning?: RentalLimitWarningDto;
+
+  @ApiProperty({
+    description:
+      '자전거 구간 중 테마 영역 안을 지나는 거리 비율 (0 ~ 1, 테마 요청 시)',
+    required: false,
+    example: 0.64,
+  })
+  @IsOptional()
+  @IsNumber()
+  themeCoverage?: number;
+
+  @ApiProperty({
+    description:
+      '원형 경로 재생성 토큰 (시드, 프로필, 대여소, 거리). circular 요청의 routeToken으로 전달하면 같은 경로를 반환',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  routeToken?: string;
+
+  @ApiProperty({
+    description: '경로 품질 점수',
+    type: RouteScoreDto,
+    required: false,
+  })
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => RouteScoreDto)
+  score?: RouteScoreDto;
+
+  @ApiProperty({
+    description: '가장 빠른 경로와의 비교 설명',
+    required: false,
+    example: '4분 더 걸리지만 자전거 도로 35%p 더 많음',
+  })
+  @IsOptional()
+  @IsString()
+  comparison?: string;
+
+  @ApiProperty({
+    description:
+      '경로 검색 전 도로로 보정한 출발지/경유지/도착지 (요청 좌표 대신 보정 좌표로 경로 검색)',
+    type: [SnappedPointDto],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => SnappedPointDto)
+  snappedPoints?: SnappedPointDto[];
+
+  @ApiProperty({ description: '경로 세그먼트들', type: [RouteSegmentDto] })
+  @IsArray()
+  @ArrayMaxSize(MAX_ROUTE_SEGMENTS)
+  @ValidateNested({ each: true })
+  @Type(() => RouteSegmentDto)
+  segments: RouteSegmentDto[];
+}
+
+// 최종 API 응답 DTO
+export class RouteResponseDto {
+  @ApiProperty({ description: '추천 경로들', type: [RouteDto] })
+  routes: RouteDto[];
+
+  @ApiProperty({ description: '처리 시간 (밀리초)' })
+  processingTime: number;
+}
+
+// 하위 호환성을 위한 별칭
+export class FullJourneyResponseDto extends RouteResponseDto {}
+
+// 경로 내보내기 파일 형식
+export enum RouteExportFormat {
+  GPX = 'gpx',
+  KML = 'kml',
+  GEOJSON = 'geojson',
+}
+
+// 경로 내보내기 쿼리 DTO
+export class RouteExportQueryDto {
+  @ApiProperty({
+    description: '내보내기 파일 형식',
+    enum: RouteExportFormat,
+    example: RouteExportFormat.GPX,
+  })
+  @IsEnum(RouteExportFormat, {
+    message: 'format은 gpx, kml, geojson 중 하나여야 합니다.',
+  })
+  format: RouteExportFormat;
+}
+
+// 경로 내보내기 요청 DTO (계산된 경로 또는 경로 재검색 요청 중 하나)
+export class RouteExportRequestDto {
+  @ApiProperty({
+    description: '내보낼 경로 (full-journey / circular 응답의 RouteDto)',
+    type: RouteDto,
+    required: false,
+  })
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => RouteDto)
+  route?: RouteDto;
+
+  @ApiProperty({
+    description: '경로를 다시 검색할 통합 경로 요청 (route가 없을 때 사용)',
+    type: FullJourneyRequestDto,
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => FullJourneyRequestDto)
+  journey?: FullJourneyRequestDto;
+
+  @ApiProperty({
+    description: '재검색 결과 중 내보낼 경로 인덱스 (기본값 0)',
+    required: false,
+    example: 0,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Type(() => Number)
+  routeIndex?: number;
+}
+
+// 경로 캐시 통계 응답 DTO
+export class RouteCacheStatsDto {
+  @ApiProperty({ description: '캐시 적중 횟수', example: 120 })
+  hits: number;
+
+  @ApiProperty({
+    description: '캐시 미스 횟수 (진행 중 요청 공유 포함)',
+    example: 45,
+  })
+  misses: number;
+
+  @ApiProperty({
+    description: '진행 중인 동일 요청을 공유한 횟수',
+    example: 12,
+  })
+  inFlightHits: number;
+
+  @ApiProperty({ description: '용량 초과로 제거된 항목 수', example: 0 })
+  evictions: number;
+
+  @ApiProperty({ description: '현재 저장된 항목 수', example: 33 })
+  size: number;
+
+  @ApiProperty({ description: '최대 저장 항목 수', example: 1000 })
+  maxEntries: number;
+
+  @ApiProperty({ description: '항목 유효 시간 (초)', example: 600 })
+  ttlSeconds: number;
+
+  @ApiProperty({
+    description: '캐시 적중률 (0~1, 진행 중 요청 공유 포함)',
+    example: 0.79,
+  })
+  hitRate: number;
+}
+
+// 고도 분석 요청 DTO
+export class ElevationAnalysisRequestDto {
+  @ApiProperty({
+    description: '분석할 경로 (full-journey / circular 응답의 RouteDto)',
+    type: RouteDto,
+  })
+  @IsNotEmpty()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => RouteDto)
+  route: RouteDto;
+}
+
+// 세그먼트별 고도 분석 결과 DTO
+export class SegmentElevationProfileDto extends ElevationProfileDto {
+  @ApiProperty({ description: '경로 내 세그먼트 인덱스', example: 1 })
+  segmentIndex: number;
+}
+
+// 등시선 프로필 (자전거 / 도보)
+export enum IsochroneProfile {
+  SAFE_BIKE = 'safe_bike',
+  FAST_BIKE = 'fast_bike',
+  FOOT = 'foot',
+}
+
+// 등시선(도달 가능 영역) 요청 DTO - 대여소 번호 또는 좌표 중 하나 필요
+export class IsochroneRequestDto {
+  @ApiProperty({
+    description: '기준 대여소 번호 (coordinate보다 우선)',
+    required: false,
+    example: '1001',
+  })
+  @IsOptional()
+  @IsString()
+  stationNumber?: string;
+
+  @ApiProperty({
+    description: '기준 좌표 (stationNumber가 없을 때 사용)',
+    type: CoordinateDto,
+    required: false,
+    example: { lat: 37.626666, lng: 127.076764 },
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CoordinateDto)
+  coordinate?: CoordinateDto;
+
+  @ApiProperty({
+    description: '이동 프로필 (기본값 safe_bike)',
+    enum: IsochroneProfile,
+    required: false,
+    example: IsochroneProfile.SAFE_BIKE,
+  })
+  @IsOptional()
+  @IsEnum(IsochroneProfile, {
+    message: 'profile은 safe_bike, fast_bike, foot 중 하나여야 합니다.',
+  })
+  profile?: IsochroneProfile;
+
+  @ApiProperty({
+    description: '시간 예산 목록 (분, 1 ~ 120, 최대 5개, 기본값 [10, 20, 30])',
+    type: [Number],
+    required: false,
+    example: [10, 20, 30],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(5)
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  @Max(120, { each: true })
+  timeBudgets?: number[];
+}
+
+// 시간 예산별 도달 가능 영역 DTO
+export class IsochroneBandDto {
+  @ApiProperty({ description: '시간 예산 (분)', example: 20 })
+  minutes: number;
+
+  @ApiProperty({
+    description: '도달 가능 영역 (GeoJSON Feature - Polygon / MultiPolygon)',
+  })
+  polygon: {
+    type: 'Feature';
+    geometry: IsochroneGeometry;
+    properties: { minutes: number };
+  };
+
+  @ApiProperty({
+    description: '해당 시간 내 도달 가능한 대여소 목록 (기준점에서 가까운 순)',
+    type: [RouteStationDto],
+  })
+  stations: RouteStationDto[];
+}
+
+// 등시선 응답 DTO
+export class IsochroneResponseDto {
+  @ApiProperty({ description: '기준 좌표', type: CoordinateDto })
+  center: CoordinateDto;
+
+  @ApiProperty({
+    description: '기준 대여소 (stationNumber 요청 시)',
+    type: RouteStationDto,
+    required: false,
+  })
+  station?: RouteStationDto;
+
+  @ApiProperty({ description: '이동 프로필', enum: IsochroneProfile })
+  profile: IsochroneProfile;
+
+  @ApiProperty({
+    description: '시간 예산별 도달 가능 영역 (오름차순)',
+    type: [IsochroneBandDto],
+  })
+  bands: IsochroneBandDto[];
+}
+
+// 대여소 간 이동 시간 행렬 최대 대여소 수 (출발/도착 각각)
+export const MAX_MATRIX_STATIONS = 25;
+
+// 대여소 간 이동 시간 행렬 요청 DTO
+export class StationMatrixRequestDto {
+  @ApiProperty({
+    description: `출발 대여소 번호 목록 (최대 ${MAX_MATRIX_STATIONS}개)`,
+    type: [String],
+    example: ['1001', '1002', '1003'],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_MATRIX_STATIONS)
+  @IsString({ each: true })
+  origins: string[];
+
+  @ApiProperty({
+    description: `도착 대여소 번호 목록 (최대 ${MAX_MATRIX_STATIONS}개, 미지정 시 origins와 동일)`,
+    type: [String],
+    required: false,
+    example: ['1004', '1005'],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_MATRIX_STATIONS)
+  @IsString({ each: true })
+  destinations?: string[];
+
+  @ApiProperty({
+    description: '자전거 프로필 목록 (기본값 [safe_bike])',
+    enum: BikeProfile,
+    isArray: true,
+    required: false,
+    example: [BikeProfile.SAFE_BIKE, BikeProfile.FAST_BIKE],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(BikeProfile, {
+    each: true,
+    message: 'profiles는 safe_bike 또는 fast_bike여야 합니다.',
+  })
+  profiles?: BikeProfile[];
+}
+
+// 프로필별 거리/시간 행렬 DTO
+export class StationMatrixDto {
+  @ApiProperty({ description: '자전거 프로필', enum: BikeProfile })
+  profile: BikeProfile;
+
+  @ApiProperty({
+    description:
+      '거리 행렬 (미터, [출발 인덱스][도착 인덱스], 경로가 없으면 null)',
+    example: [
+      [0, 1520],
+      [1498, 0],
+    ],
+  })
+  distances: (number | null)[][];
+
+  @ApiProperty({
+    description:
+      '시간 행렬 (초, [출발 인덱스][도착 인덱스], 경로가 없으면 null)',
+    example: [
+      [0, 372],
+      [365, 0],
+    ],
+  })
+  times: (number | null)[][];
+}
+
+// 대여소 간 이동 시간 행렬 응답 DTO
+export class StationMatrixResponseDto {
+  @ApiProperty({
+    description: '출발 대여소 (행 순서)',
+    type: [RouteStationDto],
+  })
+  origins: RouteStationDto[];
+
+  @ApiProperty({
+    description: '도착 대여소 (열 순서)',
+    type: [RouteStationDto],
+  })
+  destinations: RouteStationDto[];
+
+  @ApiProperty({ description: '프로필별 행렬', type: [StationMatrixDto] })
+  matrices: StationMatrixDto[];
+
+  @ApiProperty({ description: '저장된 결과를 재사용한 쌍 수', example: 12 })
+  reusedPairs: number;
+
+  @ApiProperty({ description: '새로 계산한 쌍 수', example: 4 })
+  computedPairs: number;
+}
+
+// 배치 경로 검색 최대 요청 수
+export const MAX_BATCH_JOURNEYS = 50;
+
+// 배치 경로 검색 요청 DTO
+export class BatchRouteRequestDto {
+  @ApiProperty({
+    description: `통합 경로 검색 요청 목록 (최대 ${MAX_BATCH_JOURNEYS}개, 앞선 요청부터 대여소 재고를 배정)`,
+    type: [FullJourneyRequestDto],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_BATCH_JOURNEYS)
+  @ValidateNested({ each: true })
+  @Type(() => FullJourneyRequestDto)
+  journeys: FullJourneyRequestDto[];
+}
+
+// 배치 경로 검색 항목별 결과 DTO
+export class BatchRouteItemDto {
+  @ApiProperty({ description: '요청 목록에서의 순서', example: 0 })
+  index: number;
+
+  @ApiProperty({ description: '경로 검색 성공 여부', example: true })
+  success: boolean;
+
+  @ApiProperty({
+    description: '추천 경로들 (성공 시)',
+    type: [RouteDto],
+    required: false,
+  })
+  routes?: RouteDto[];
+
+  @ApiProperty({
+    description: '실패 사유 (실패 시, 단건 검색과 같은 상태 코드)',
+    type: ErrorResponseDto,
+    required: false,
+  })
+  error?: ErrorResponseDto;
+}
+
+// 배치 경로 검색 대여소 배정 현황 DTO
+export class BatchStationUsageDto {
+  @ApiProperty({ description: '대여소 번호', example: '1001' })
+  number: string;
+
+  @ApiProperty({ description: '대여소 이름', example: '중랑구청' })
+  name: string;
+
+  @ApiProperty({ description: '배정된 대여 수', example: 4 })
+  reservedRentals: number;
+
+  @ApiProperty({ description: '배정된 반납 수', example: 0 })
+  reservedReturns: number;
+
+  @ApiProperty({
+    description: '조회 시점 자전거 수 (출발 시각 지정 시 예측값)',
+    example: 5,
+    nullable: true,
+  })
+  availableBikes: number | null;
+
+  @ApiProperty({
+    description: '조회 시점 빈 거치대 수 (출발 시각 지정 시 예측값)',
+    example: 12,
+    nullable: true,
+  })
+  availableDocks: number | null;
+}
+
+// 배치 경로 검색 응답 DTO
+export class BatchRouteResponseDto {
+  @ApiProperty({
+    description: '요청 순서대로의 항목별 결과',
+    type: [BatchRouteItemDto],
+  })
+  results: BatchRouteItemDto[];
+
+  @ApiProperty({ description: '성공한 요청 수', example: 29 })
+  succeeded: number;
+
+  @ApiProperty({ description: '실패한 요청 수', example: 1 })
+  failed: number;
+
+  @ApiProperty({
+    description: '요청들에 배정된 대여소별 대여/반납 수',
+    type: [BatchStationUsageDto],
+  })
+  stationUsage: BatchStationUsageDto[];
+}
@@ -0,0 +1,52 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * 대여소 간 이동 거리/시간 저장 (행렬 API 재사용용)
+ * - 대여소 좌표가 바뀌면 다시 계산하도록 계산 당시 좌표를 함께 저장
+ */
+@Entity('station_travel_times')
+@Index(
+  'idx_station_travel_times_pair',
+  ['origin_number', 'destination_number', 'profile'],
+  { unique: true },
+)
+export class StationTravelTime {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'varchar', length: 20 })
+  origin_number: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  destination_number: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  profile: string;
+
+  @Column({ type: 'int', comment: '이동 거리 (미터)' })
+  distance: number;
+
+  @Column({ type: 'int', comment: '이동 시간 (초)' })
+  time: number;
+
+  @Column({ type: 'double precision' })
+  origin_lat: number;
+
+  @Column({ type: 'double precision' })
+  origin_lng: number;
+
+  @Column({ type: 'double precision' })
+  destination_lat: number;
+
+  @Column({ type: 'double precision' })
+  destination_lng: number;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updated_at: Date;
+}
@@ -21,6 +21,7 @@ export interface GraphHopperPath {
     bike_network?: [number, number, string][];
   };
   profile?: string; // 경로 계산에 사용된 프로필 정보
+  seed?: number; // 원형 경로 생성에 사용된 시드 (round trip 응답만)
 }
 
 export interface GraphHopperInstruction {
@@ -29,4 +30,6 @@ export interface GraphHopperInstruction {
   text: string;
   sign: number;
   interval: [number, number];
+  street_name?: string;
+  exit_number?: number; // 회전교차로 출구 번호 (sign 6)
 }
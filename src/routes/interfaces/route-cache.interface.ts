@@ -0,0 +1,32 @@
+import { GraphHopperPath } from './graphhopper.interface';
+
+/**
+ * 경로 캐시 DI 토큰
+ */
+export const ROUTE_CACHE = Symbol('ROUTE_CACHE');
+
+/**
+ * 경로 캐시 통계
+ */
+export interface RouteCacheStats {
+  hits: number; // 캐시에서 바로 반환한 횟수
+  misses: number; // 라우팅 엔진을 호출한 횟수
+  inFlightHits: number; // 진행 중인 동일 요청을 공유한 횟수
+  evictions: number; // 용량 초과로 제거된 항목 수
+  size: number; // 현재 저장된 항목 수
+  maxEntries: number;
+  ttlSeconds: number;
+}
+
+/**
+ * 라우팅 엔진 응답 캐시 공통 인터페이스
+ * - 키 생성과 진행 중 요청 공유는 GraphHopperService에서 담당
+ * - 구현체는 저장/만료/용량 관리만 담당 (기본: 메모리 LRU)
+ */
+export interface RouteCache {
+  get(key: string): GraphHopperPath[] | undefined;
+  set(key: string, paths: GraphHopperPath[]): void;
+  clear(): void;
+  recordInFlightHit(): void;
+  getStats(): RouteCacheStats;
+}
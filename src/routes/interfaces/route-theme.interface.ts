@@ -0,0 +1,20 @@
+/**
+ * 테마 경유 가능 지점 (POI)
+ */
+export interface RouteThemePoi {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+}
+
+/**
+ * 원형 경로 테마 정의
+ * - areas: 테마 영역 폴리곤 목록 (외곽 링, [lng, lat] 좌표)
+ */
+export interface RouteThemeDefinition {
+  name: string;
+  description: string;
+  areas: number[][][];
+  pois: RouteThemePoi[];
+}
@@ -0,0 +1,84 @@
+import { GraphHopperPath } from './graphhopper.interface';
+
+/**
+ * 라우팅 엔진 DI 토큰
+ */
+export const ROUTING_ENGINE = Symbol('ROUTING_ENGINE');
+
+/**
+ * 지원하는 라우팅 엔진 종류 (환경변수 ROUTING_ENGINE)
+ */
+export type RoutingEngineType = 'graphhopper' | 'osrm';
+
+export interface RoutingPoint {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * 가장 가까운 도로 위 지점 (distance: 요청 지점과의 거리, 미터)
+ */
+export interface SnappedRoutingPoint {
+  point: RoutingPoint;
+  distance: number;
+}
+
+/**
+ * 일반 경로 요청 옵션
+ */
+export interface RouteRequestOptions {
+  maxPaths?: number; // 대안 경로 최대 개수 (미지정 시 엔진 기본값)
+  disableSpeedUp?: boolean; // CH 등 사전 계산 비활성화 (정확한 대안 경로용)
+}
+
+/**
+ * 원형 경로 요청 옵션
+ */
+export interface RoundTripRequestOptions {
+  distance: number; // 목표 거리 (미터)
+  seed: number; // 경로 생성 시드
+  points: number; // 원형 경로를 구성하는 중간 포인트 수
+}
+
+/**
+ * 등시선(도달 가능 영역) 폴리곤 - GeoJSON geometry
+ */
+export interface IsochroneGeometry {
+  type: 'Polygon' | 'MultiPolygon';
+  coordinates: number[][][] | number[][][][];
+}
+
+/**
+ * 라우팅 엔진 공통 인터페이스
+ * - 모든 어댑터는 응답을 GraphHopperPath 형태로 정규화하여 반환
+ * - 반환하는 경로에는 요청한 profile이 설정되어 있어야 함
+ */
+export interface RoutingEngine {
+  readonly type: RoutingEngineType;
+
+  route(
+    points: RoutingPoint[],
+    profile: string,
+    options?: RouteRequestOptions,
+  ): Promise<GraphHopperPath[]>;
+
+  roundTrip(
+    start: RoutingPoint,
+    profile: string,
+    options: RoundTripRequestOptions,
+  ): Promise<GraphHopperPath[]>;
+
+  /**
+   * 출발 지점에서 제한 시간(초) 내에 도달 가능한 영역
+   */
+  isochrone(
+    center: RoutingPoint,
+    profile: string,
+    timeLimitSeconds: number,
+  ): Promise<IsochroneGeometry>;
+
+  /**
+   * 요청 지점에서 가장 가까운 경로 탐색 가능 도로 위 지점
+   */
+  nearest(point: RoutingPoint, profile: string): Promise<SnappedRoutingPoint>;
+}
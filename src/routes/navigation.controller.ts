@@ -0,0 +1,166 @@
+import {
+  Controller,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Sse,
+  HttpException,
+  HttpStatus,
+  MessageEvent,
+  Logger,
+  Ip,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBody } from '@nestjs/swagger';
+import { Observable } from 'rxjs';
+import { NavigationSessionService } from './services/navigation-session.service';
+import {
+  GpsFixDto,
+  NavigationProgressDto,
+  NavigationSessionDto,
+  NavigationStartRequestDto,
+} from './dto/navigation.dto';
+import {
+  SuccessResponseDto,
+  ErrorResponseDto,
+} from '../common/api-response.dto';
+
+@ApiTags('길찾기 (routes)')
+@Controller('routes/navigation')
+export class NavigationController {
+  private readonly logger = new Logger(NavigationController.name);
+
+  constructor(
+    private readonly navigationSessionService: NavigationSessionService,
+  ) {}
+
+  @Post()
+  @ApiOperation({
+    summary: '내비게이션 세션 시작',
+    description:
+      '검색한 경로(RouteDto)로 실시간 안내 세션을 시작합니다. 발급된 sessionId로 이벤트 스트림(SSE)을 구독하고 GPS 위치를 전송합니다. 30분 동안 위치 갱신이 없으면 세션이 종료됩니다.',
+  })
+  @ApiBody({ type: NavigationStartRequestDto })
+  @ApiResponse({
+    status: 201,
+    description: '내비게이션 세션이 시작되었습니다.',
+    type: NavigationSessionDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: '경로 세그먼트의 타입/요약/geometry가 올바르지 않은 경우',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 429,
+    description: '클라이언트별 동시 세션 수 초과',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 503,
+    description: '서버 전체 동시 세션 수 초과',
+    type: ErrorResponseDto,
+  })
+  startSession(
+    @Body() request: NavigationStartRequestDto,
+    @Ip() clientIp: string,
+  ): SuccessResponseDto<NavigationSessionDto> {
+    try {
+      const result = this.navigationSessionService.startSession(
+        request.route,
+        clientIp,
+      );
+      return SuccessResponseDto.create(
+        '내비게이션 세션이 시작되었습니다.',
+        result,
+      );
+    } catch (error) {
+      throw this.toHttpException(error, '내비게이션 세션 시작 중');
+    }
+  }
+
+  @Sse(':sessionId/events')
+  @ApiOperation({
+    summary: '내비게이션 이벤트 스트림 (SSE)',
+    description:
+      '위치 갱신마다 진행 상황 이벤트를 전송합니다. 이벤트 타입: on_route(진행 상황), off_route(경로 이탈), rerouted(재탐색된 경로 포함), arrived(도착, 이후 스트림 종료).',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'text/event-stream (data: NavigationProgressDto)',
+  })
+  @ApiResponse({
+    status: 404,
+    description: '세션을 찾을 수 없음',
+    type: ErrorResponseDto,
+  })
+  streamEvents(
+    @Param('sessionId') sessionId: string,
+  ): Observable<MessageEvent> {
+    try {
+      return this.navigationSessionService.getEvents(sessionId);
+    } catch (error) {
+      throw this.toHttpException(error, '이벤트 스트림 연결 중');
+    }
+  }
+
+  @Post(':sessionId/position')
+  @ApiOperation({
+    summary: 'GPS 위치 갱신',
+    description:
+      '현재 GPS 위치를 경로에 매칭하여 진행률, 다음 안내, 남은 거리/시간을 반환합니다. 경로에서 연속으로 벗어나면 현재 위치에서 남은 경유지/반납 대여소까지 경로를 재탐색합니다.',
+  })
+  @ApiBody({ type: GpsFixDto })
+  @ApiResponse({
+    status: 201,
+    description: '위치가 반영되었습니다.',
+    type: NavigationProgressDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: '세션을 찾을 수 없음',
+    type: ErrorResponseDto,
+  })
+  async updatePosition(
+    @Param('sessionId') sessionId: string,
+    @Body() fix: GpsFixDto,
+  ): Promise<SuccessResponseDto<NavigationProgressDto>> {
+    try {
+      const result = await this.navigationSessionService.updatePosition(
+        sessionId,
+        fix,
+      );
+      return SuccessResponseDto.create('위치가 반영되었습니다.', result);
+    } catch (error) {
+      throw this.toHttpException(error, '위치 갱신 중');
+    }
+  }
+
+  @Delete(':sessionId')
+  @ApiOperation({ summary: '내비게이션 세션 종료' })
+  @ApiResponse({
+    status: 200,
+    description: '내비게이션 세션이 종료되었습니다.',
+  })
+  endSession(@Param('sessionId') sessionId: string): SuccessResponseDto<null> {
+    this.navigationSessionService.endSession(sessionId);
+    return SuccessResponseDto.create('내비게이션 세션이 종료되었습니다.', null);
+  }
+
+  private toHttpException(error: unknown, context: string): HttpException {
+    if (error instanceof HttpException) {
+      return new HttpException(
+        ErrorResponseDto.create(error.getStatus(), error.message),
+        error.getStatus(),
+      );
+    }
+    this.logger.error(`${context} 오류 발생:`, error);
+    return new HttpException(
+      ErrorResponseDto.create(
+        HttpStatus.INTERNAL_SERVER_ERROR,
+        `${context} 오류가 발생했습니다.`,
+      ),
+      HttpStatus.INTERNAL_SERVER_ERROR,
+    );
+  }
+}
@@ -1,18 +1,52 @@
 import {
   Controller,
+  Get,
   Post,
   Body,
+  Res,
+  Query,
   HttpException,
   HttpStatus,
+  NotFoundException,
+  NotImplementedException,
+  StreamableFile,
+  ServiceUnavailableException,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBody } from '@nestjs/swagger';
-import { RoutesService } from './routes.service';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiProduces,
+} from '@nestjs/swagger';
+import type { Response } from 'express';
+import { JourneySearchOptions, RoutesService } from './routes.service';
 import {
   RouteDto,
   CircularRouteRequestDto,
   FullJourneyRequestDto,
+  RouteExportQueryDto,
+  RouteExportRequestDto,
+  RouteCacheStatsDto,
+  ElevationAnalysisRequestDto,
+  SegmentElevationProfileDto,
+  MAX_ORDERED_WAYPOINTS,
+  DEPART_AT_PAST_TOLERANCE_MS,
+  MAX_DEPART_AHEAD_DAYS,
+  IsochroneRequestDto,
+  IsochroneResponseDto,
+  StationMatrixRequestDto,
+  StationMatrixResponseDto,
+  MultimodalRouteRequestDto,
+  BatchRouteRequestDto,
+  BatchRouteResponseDto,
+  MAX_BATCH_JOURNEYS,
 } from './dto/route.dto';
 import { Logger } from '@nestjs/common';
+import {
+  RoutingEngineError,
+  RoutingEngineUnavailable,
+} from './services/engines/routing-engine.errors';
 import {
   SuccessResponseDto,
   ErrorResponseDto,
@@ -29,7 +63,7 @@ export class RoutesController {
   @ApiOperation({
     summary: '통합 경로 검색 (일반 & 왕복)',
     description:
-      '출발지에서 목적지까지의 최적 경로를 검색합니다. 경유지(최대 3개)를 포함할 수 있습니다. 출발지와 도착지가 같은 경우 왕복 경로로 처리되며, 이때 경유지가 반드시 필요합니다.',
+      '출발지에서 목적지까지의 최적 경로를 검색합니다. 경유지(최대 3개, optimizeOrder 사용 시 최대 10개)를 포함할 수 있습니다. optimizeOrder를 지정하면 출발지/도착지를 고정한 채 경유지 방문 순서를 최적화합니다. 출발지와 도착지가 같은 경우 왕복 경로로 처리되며, 이때 경유지가 반드시 필요합니다. 검색 전 출발지/경유지/도착지를 가장 가까운 도로로 보정하며(응답의 snappedPoints), 도로에서 250m 이상 떨어진 지점이 있으면 422를 반환합니다.',
   })
   @ApiBody({
     type: FullJourneyRequestDto,
@@ -58,6 +92,28 @@ export class RoutesController {
           waypoints: [{ lat: 37.664819, lng: 127.057126 }],
         },
       },
+      '경유지 순서 최적화': {
+        summary: '출발지 → 경유지들(최적 순서) → 목적지',
+        value: {
+          start: { lat: 37.626666, lng: 127.076764 },
+          end: { lat: 37.664819, lng: 127.057126 },
+          waypoints: [
+            { lat: 37.658922, lng: 127.071167 },
+            { lat: 37.642417, lng: 127.067248 },
+            { lat: 37.651234, lng: 127.061532 },
+            { lat: 37.635101, lng: 127.072944 },
+          ],
+          optimizeOrder: true,
+        },
+      },
+      '출발 시각 지정': {
+        summary: '출발 예정 시각 기준 예측 재고로 대여소 선택',
+        value: {
+          start: { lat: 37.626666, lng: 127.076764 },
+          end: { lat: 37.664819, lng: 127.057126 },
+          departAt: '2026-10-20T08:00:00+09:00',
+        },
+      },
     },
   })
   @ApiResponse({
@@ -67,17 +123,27 @@ export class RoutesController {
   })
   @ApiResponse({
     status: 400,
-    description: '요청 데이터 오류 (위도/경도 범위 초과, 필수 필드 누락)',
+    description:
+      '요청 데이터 오류 (위도/경도 범위 초과, 필수 필드 누락, 순서 최적화 없이 경유지 3개 초과, 출발 시각이 과거이거나 7일 이후)',
     type: ErrorResponseDto,
   })
   @ApiResponse({
     status: 503,
-    description: 'GraphHopper 서버 응답 없음',
+    description:
+      '라우팅 엔진 응답 없음 (타임아웃, 서버 오류, 장애로 인한 요청 차단)',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 422,
+    description:
+      '경로 탐색 불가 (지점 간 경로 없음, 도로에서 너무 먼 지점, 근처에 자전거/빈 거치대가 남은 대여소 없음)',
     type: ErrorResponseDto,
   })
   async getFullJourney(
     @Body() fullJourneyRequestDto: FullJourneyRequestDto,
   ): Promise<SuccessResponseDto<RouteDto[]>> {
+    this.validateJourneyRequest(fullJourneyRequestDto);
+
     try {
       const result = await this.routesService.findFullJourney(
         fullJourneyRequestDto,
@@ -87,6 +153,16 @@ export class RoutesController {
         result,
       );
     } catch (error) {
+      if (error instanceof RoutingEngineError) {
+        throw this.toRoutingEngineHttpException(error);
+      }
+      // 요청 오류(400), 대여소 없음(422), 배정 가능한 재고 없음(404)
+      if (error instanceof HttpException) {
+        throw new HttpException(
+          ErrorResponseDto.create(error.getStatus(), error.message),
+          error.getStatus(),
+        );
+      }
       this.logger.error('통합 경로 검색 중 오류 발생:', error);
       throw new HttpException(
         ErrorResponseDto.create(
@@ -102,7 +178,7 @@ export class RoutesController {
   @ApiOperation({
     summary: '원형 경로 추천',
     description:
-      '지정된 거리만큼의 원형 경로를 추천합니다. 출발지와 도착지가 동일한 순환 코스입니다.',
+      '지정된 거리만큼의 원형 경로를 추천합니다. 출발지와 도착지가 동일한 순환 코스입니다. theme을 지정하면 한강, 공원 등 테마 영역을 많이 지나는 코스를 우선 추천하고, themePoiId를 함께 지정하면 해당 POI를 경유하는 코스를 추천합니다. 같은 seed로 요청하면 같은 코스를 추천하며, 응답의 routeToken을 전달하면 해당 코스를 그대로 재생성합니다.',
   })
   @ApiBody({
     type: CircularRouteRequestDto,
@@ -122,6 +198,31 @@ export class RoutesController {
           targetDistance: 10000,
         },
       },
+      '테마 코스': {
+        summary: '중랑천을 따라가는 8km 원형 코스',
+        value: {
+          start: { lat: 37.626666, lng: 127.076764 },
+          targetDistance: 8000,
+          theme: 'jungnangcheon',
+        },
+      },
+      '테마 POI 경유': {
+        summary: '노원교를 경유하는 원형 코스',
+        value: {
+          start: { lat: 37.626666, lng: 127.076764 },
+          targetDistance: 5000,
+          theme: 'jungnangcheon',
+          themePoiId: 'jungnangcheon-nowon-bridge',
+        },
+      },
+      '시드 지정': {
+        summary: '같은 시드로 같은 5km 코스 추천',
+        value: {
+          start: { lat: 37.626666, lng: 127.076764 },
+          targetDistance: 5000,
+          seed: 4821,
+        },
+      },
     },
   })
   @ApiResponse({
@@ -131,17 +232,32 @@ export class RoutesController {
   })
   @ApiResponse({
     status: 400,
-    description: '요청 데이터 오류 (위도/경도 범위 초과, 거리 범위 초과)',
+    description:
+      '요청 데이터 오류 (위도/경도 범위 초과, 거리 범위 초과, theme 없이 themePoiId 지정, 유효하지 않은 routeToken)',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: '테마 POI 또는 경로 토큰의 대여소를 찾을 수 없음',
     type: ErrorResponseDto,
   })
   @ApiResponse({
     status: 503,
-    description: 'GraphHopper 서버 응답 없음',
+    description:
+      '라우팅 엔진 응답 없음 (타임아웃, 서버 오류, 장애로 인한 요청 차단)',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 422,
+    description:
+      '경로 탐색 불가 (지점 간 경로 없음, 도로에서 너무 먼 지점, 근처에 이용 가능한 대여소 없음)',
     type: ErrorResponseDto,
   })
   async getCircularRoute(
     @Body() circularRouteRequestDto: CircularRouteRequestDto,
   ): Promise<SuccessResponseDto<RouteDto[]>> {
+    this.validateCircularRequest(circularRouteRequestDto);
+
     try {
       const result = await this.routesService.findRoundTripRecommendations(
         circularRouteRequestDto,
@@ -151,6 +267,16 @@ export class RoutesController {
         result,
       );
     } catch (error) {
+      if (error instanceof RoutingEngineError) {
+        throw this.toRoutingEngineHttpException(error);
+      }
+      // 요청 오류(400), 테마 POI 없음(404), 대여소 없음(422)
+      if (error instanceof HttpException) {
+        throw new HttpException(
+          ErrorResponseDto.create(error.getStatus(), error.message),
+          error.getStatus(),
+        );
+      }
       this.logger.error('원형 경로 추천 중 오류 발생:', error);
       throw new HttpException(
         ErrorResponseDto.create(
@@ -161,4 +287,735 @@ export class RoutesController {
       );
     }
   }
+
+  @Post('full-journey/stream')
+  @ApiOperation({
+    summary: '통합 경로 검색 (스트리밍)',
+    description:
+      'full-journey와 같은 요청을 받아 Server-Sent Events로 응답합니다. 후보 경로가 만들어질 때마다 candidate 이벤트(RouteDto, 점수/이용권/고도 등 후처리 전)를 보내고, 마지막에 complete 이벤트(full-journey 응답과 같은 형식)를 보냅니다. 검색에 실패하면 error 이벤트(ErrorResponseDto, full-journey와 같은 상태 코드)를 보내고 연결을 종료합니다.',
+  })
+  @ApiBody({
+    type: FullJourneyRequestDto,
+    description: '경로 검색 요청 데이터',
+  })
+  @ApiProduces('text/event-stream')
+  @ApiResponse({
+    status: 200,
+    description:
+      'candidate → ... → complete 또는 error 순서의 이벤트 스트림 (각 data는 JSON)',
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      '요청 데이터 오류 (full-journey와 같으며, 스트림 시작 전에 일반 응답으로 반환)',
+    type: ErrorResponseDto,
+  })
+  async streamFullJourney(
+    @Body() fullJourneyRequestDto: FullJourneyRequestDto,
+    @Res() res: Response,
+  ): Promise<void> {
+    this.validateJourneyRequest(fullJourneyRequestDto);
+
+    await this.streamRoutes(
+      res,
+      (options) =>
+        this.routesService.findFullJourney(fullJourneyRequestDto, options),
+      '통합 경로를 성공적으로 검색했습니다.',
+      '통합 경로 검색 중 오류가 발생했습니다.',
+    );
+  }
+
+  @Post('circular/stream')
+  @ApiOperation({
+    summary: '원형 경로 추천 (스트리밍)',
+    description:
+      'circular와 같은 요청을 받아 Server-Sent Events로 응답합니다. 목표 거리 조건을 만족하는 후보 원형 경로를 찾을 때마다 candidate 이벤트(RouteDto, routeToken 포함)를 보내고, 마지막에 카테고리별로 선택된 경로를 complete 이벤트(circular 응답과 같은 형식)로 보냅니다. 검색에 실패하면 error 이벤트(ErrorResponseDto)를 보내고 연결을 종료합니다.',
+  })
+  @ApiBody({
+    type: CircularRouteRequestDto,
+    description: '원형 경로 추천 요청 데이터',
+  })
+  @ApiProduces('text/event-stream')
+  @ApiResponse({
+    status: 200,
+    description:
+      'candidate → ... → complete 또는 error 순서의 이벤트 스트림 (각 data는 JSON)',
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      '요청 데이터 오류 (circular와 같으며, 스트림 시작 전에 일반 응답으로 반환)',
+    type: ErrorResponseDto,
+  })
+  async streamCircularRoute(
+    @Body() circularRouteRequestDto: CircularRouteRequestDto,
+    @Res() res: Response,
+  ): Promise<void> {
+    this.validateCircularRequest(circularRouteRequestDto);
+
+    await this.streamRoutes(
+      res,
+      (options) =>
+        this.routesService.findRoundTripRecommendations(
+          circularRouteRequestDto,
+          options,
+        ),
+      '원형 경로를 성공적으로 추천했습니다.',
+      '원형 경로 추천 중 오류가 발생했습니다.',
+    );
+  }
+
+  @Post('multimodal')
+  @ApiOperation({
+    summary: '대중교통 연계 경로 검색',
+    description:
+      '출발지 → 승차 정류장 → 대중교통 → 하차 정류장 → 목적지 경로를 검색합니다. 정류장이 가까우면(500m 이내) 도보로, 멀면 따릉이로 이동하며 따릉이 구간은 대중교통 탑승 전에 반납합니다. 대중교통 노선은 서버에 적재된 GTFS 데이터 기준이며 환승 없이 한 노선만 이용합니다. 대중교통 구간(type: transit)에는 노선 이름과 승차~하차 정류장 목록이 포함됩니다.',
+  })
+  @ApiBody({
+    type: MultimodalRouteRequestDto,
+    description: '대중교통 연계 경로 검색 요청 데이터',
+    examples: {
+      '기본 요청': {
+        summary: '모든 대중교통 수단, 경로 3개',
+        value: {
+          start: { lat: 37.626666, lng: 127.076764 },
+          end: { lat: 37.5547, lng: 126.9707 },
+        },
+      },
+      '지하철만 이용': {
+        summary: '지하철/광역철도만 이용',
+        value: {
+          start: { lat: 37.626666, lng: 127.076764 },
+          end: { lat: 37.5547, lng: 126.9707 },
+          transitModes: ['subway', 'rail'],
+          maxRoutes: 2,
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: '성공적으로 대중교통 연계 경로를 검색했습니다.',
+    type: SuccessResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: '요청 데이터 오류 (위도/경도 범위 초과, 지원하지 않는 수단)',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: '출발지/목적지 근처를 잇는 대중교통 노선 없음',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 503,
+    description: '대중교통 데이터(GTFS) 미적재 또는 라우팅 엔진 응답 없음',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 422,
+    description: '정류장 접근 구간 경로 탐색 불가 (도로에서 너무 먼 지점 등)',
+    type: ErrorResponseDto,
+  })
+  async getMultimodalRoute(
+    @Body() multimodalRouteRequestDto: MultimodalRouteRequestDto,
+  ): Promise<SuccessResponseDto<RouteDto[]>> {
+    try {
+      const result = await this.routesService.findMultimodalJourney(
+        multimodalRouteRequestDto,
+      );
+      return SuccessResponseDto.create(
+        '대중교통 연계 경로를 성공적으로 검색했습니다.',
+        result,
+      );
+    } catch (error) {
+      if (error instanceof RoutingEngineError) {
+        throw this.toRoutingEngineHttpException(error);
+      }
+      if (error instanceof NotFoundException) {
+        throw new HttpException(
+          ErrorResponseDto.create(HttpStatus.NOT_FOUND, error.message),
+          HttpStatus.NOT_FOUND,
+        );
+      }
+      if (error instanceof ServiceUnavailableException) {
+        throw new HttpException(
+          ErrorResponseDto.create(
+            HttpStatus.SERVICE_UNAVAILABLE,
+            error.message,
+          ),
+          HttpStatus.SERVICE_UNAVAILABLE,
+        );
+      }
+      this.logger.error('대중교통 연계 경로 검색 중 오류 발생:', error);
+      throw new HttpException(
+        ErrorResponseDto.create(
+          HttpStatus.INTERNAL_SERVER_ERROR,
+          '대중교통 연계 경로 검색 중 오류가 발생했습니다.',
+        ),
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Post('batch')
+  @ApiOperation({
+    summary: '배치 통합 경로 검색 (단체 이동/운영)',
+    description: `통합 경로 검색 요청 여러 개(최대 ${MAX_BATCH_JOURNEYS}개)를 한 번에 처리합니다. 요청 간 대여소 재고를 나눠 배정하므로 자전거 5대인 대여소를 30명에게 안내하지 않으며, 앞선 요청부터 재고를 배정받습니다. 요청별로 경로 또는 실패 사유(단건 검색과 같은 상태 코드)를 반환하며, 대여소별 배정 현황(stationUsage)을 함께 반환합니다.`,
+  })
+  @ApiBody({
+    type: BatchRouteRequestDto,
+    description: '배치 경로 검색 요청 데이터',
+    examples: {
+      '단체 이동': {
+        summary: '서로 다른 출발지 → 같은 행사장',
+        value: {
+          journeys: [
+            {
+              start: { lat: 37.626666, lng: 127.076764 },
+              end: { lat: 37.664819, lng: 127.057126 },
+            },
+            {
+              start: { lat: 37.642417, lng: 127.067248 },
+              end: { lat: 37.664819, lng: 127.057126 },
+            },
+          ],
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: '배치 경로 검색을 완료했습니다. (일부 요청 실패 포함)',
+    type: BatchRouteResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: `요청 데이터 오류 (요청 ${MAX_BATCH_JOURNEYS}개 초과, 항목별 단건 검색과 같은 검증 오류)`,
+    type: ErrorResponseDto,
+  })
+  async getBatchRoutes(
+    @Body() batchRouteRequestDto: BatchRouteRequestDto,
+  ): Promise<SuccessResponseDto<BatchRouteResponseDto>> {
+    batchRouteRequestDto.journeys.forEach((journey, index) =>
+      this.validateJourneyRequest(journey, `journeys[${index}]: `),
+    );
+
+    try {
+      const result =
+        await this.routesService.findBatchJourneys(batchRouteRequestDto);
+      return SuccessResponseDto.create(
+        `배치 경로 검색을 완료했습니다. (성공 ${result.succeeded}개, 실패 ${result.failed}개)`,
+        result,
+      );
+    } catch (error) {
+      this.logger.error('배치 경로 검색 중 오류 발생:', error);
+      throw new HttpException(
+        ErrorResponseDto.create(
+          HttpStatus.INTERNAL_SERVER_ERROR,
+          '배치 경로 검색 중 오류가 발생했습니다.',
+        ),
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Post('export')
+  @ApiOperation({
+    summary: '경로 내보내기 (GPX / KML / GeoJSON)',
+    description:
+      '계산된 경로(RouteDto) 또는 통합 경로 검색 요청을 받아 GPX, KML, GeoJSON 파일로 내보냅니다. 도보/자전거 구간은 별도 트랙으로, 시작/도착 대여소는 웨이포인트로 포함됩니다.',
+  })
+  @ApiBody({
+    type: RouteExportRequestDto,
+    description: '내보낼 경로 또는 재검색 요청',
+    examples: {
+      '경로 재검색 후 내보내기': {
+        summary: '통합 경로 검색 결과의 첫 번째 경로',
+        value: {
+          journey: {
+            start: { lat: 37.626666, lng: 127.076764 },
+            end: { lat: 37.664819, lng: 127.057126 },
+          },
+          routeIndex: 0,
+        },
+      },
+    },
+  })
+  @ApiProduces(
+    'application/gpx+xml',
+    'application/vnd.google-earth.kml+xml',
+    'application/geo+json',
+  )
+  @ApiResponse({
+    status: 200,
+    description: '경로 파일을 성공적으로 생성했습니다.',
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      '요청 데이터 오류 (지원하지 않는 형식, 경로/요청 누락, 경로 형식 오류)',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: '재검색 결과에 routeIndex에 해당하는 경로 없음',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 503,
+    description:
+      '라우팅 엔진 응답 없음 (타임아웃, 서버 오류, 장애로 인한 요청 차단)',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 422,
+    description: '경로 탐색 불가 (지점 간 경로 없음, 도로에서 너무 먼 지점)',
+    type: ErrorResponseDto,
+  })
+  async exportRoute(
+    @Query() query: RouteExportQueryDto,
+    @Body() routeExportRequestDto: RouteExportRequestDto,
+  ): Promise<StreamableFile> {
+    if (!routeExportRequestDto.route && !routeExportRequestDto.journey) {
+      throw new HttpException(
+        ErrorResponseDto.create(
+          HttpStatus.BAD_REQUEST,
+          '내보낼 경로(route) 또는 경로 검색 요청(journey)이 필요합니다.',
+        ),
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    try {
+      const file = await this.routesService.exportRoute(
+        routeExportRequestDto,
+        query.format,
+      );
+      return new StreamableFile(Buffer.from(file.content, 'utf-8'), {
+        type: `${file.mimeType}; charset=utf-8`,
+        disposition: `attachment; filename="${file.fileName}"`,
+      });
+    } catch (error) {
+      if (error instanceof RoutingEngineError) {
+        throw this.toRoutingEngineHttpException(error);
+      }
+      if (error instanceof HttpException) {
+        throw new HttpException(
+          ErrorResponseDto.create(error.getStatus(), error.message),
+          error.getStatus(),
+        );
+      }
+      this.logger.error('경로 내보내기 중 오류 발생:', error);
+      throw new HttpException(
+        ErrorResponseDto.create(
+          HttpStatus.INTERNAL_SERVER_ERROR,
+          '경로 내보내기 중 오류가 발생했습니다.',
+        ),
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Post('elevation-profile')
+  @ApiOperation({
+    summary: '고도 프로필 및 경사도 분석',
+    description:
+      '계산된 경로(RouteDto)의 자전거 구간별로 거리-고도-경사도 프로필과 오르막 구간(길이, 평균/최대 경사도)을 반환합니다. 고도 정보가 없는 구간은 제외됩니다.',
+  })
+  @ApiBody({
+    type: ElevationAnalysisRequestDto,
+    description: '분석할 경로',
+  })
+  @ApiResponse({
+    status: 200,
+    description: '고도 분석을 성공적으로 완료했습니다.',
+    type: [SegmentElevationProfileDto],
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      '요청 데이터 오류 (경로 누락, 세그먼트 형식 오류, 세그먼트/좌표 수 초과, 지원하지 않는 좌표 인코딩)',
+    type: ErrorResponseDto,
+  })
+  analyzeElevation(
+    @Body() elevationAnalysisRequestDto: ElevationAnalysisRequestDto,
+  ): SuccessResponseDto<SegmentElevationProfileDto[]> {
+    try {
+      const profiles = this.routesService.analyzeElevation(
+        elevationAnalysisRequestDto.route,
+      );
+      return SuccessResponseDto.create(
+        '고도 분석을 성공적으로 완료했습니다.',
+        profiles,
+      );
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw new HttpException(
+          ErrorResponseDto.create(error.getStatus(), error.message),
+          error.getStatus(),
+        );
+      }
+      this.logger.error('고도 분석 중 오류 발생:', error);
+      throw new HttpException(
+        ErrorResponseDto.create(
+          HttpStatus.INTERNAL_SERVER_ERROR,
+          '고도 분석 중 오류가 발생했습니다.',
+        ),
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Post('isochrone')
+  @ApiOperation({
+    summary: '도달 가능 영역 (등시선)',
+    description:
+      '대여소 번호 또는 좌표를 기준으로 시간 예산(예: 10/20/30분)별 도달 가능 영역을 GeoJSON 폴리곤으로 반환합니다. 각 영역에 포함되는 대여소 목록을 함께 반환하여 이용권 시간 내 반납 가능한 대여소를 확인할 수 있습니다. OSRM 엔진에서는 지원하지 않습니다.',
+  })
+  @ApiBody({
+    type: IsochroneRequestDto,
+    description: '등시선 요청 데이터',
+    examples: {
+      '대여소 기준': {
+        summary: '대여소에서 자전거로 10/20/30분',
+        value: {
+          stationNumber: '1001',
+          profile: 'safe_bike',
+          timeBudgets: [10, 20, 30],
+        },
+      },
+      '좌표 기준': {
+        summary: '현재 위치에서 도보 5/10분',
+        value: {
+          coordinate: { lat: 37.626666, lng: 127.076764 },
+          profile: 'foot',
+          timeBudgets: [5, 10],
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 200,
+    description: '도달 가능 영역을 성공적으로 계산했습니다.',
+    type: IsochroneResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: '요청 데이터 오류 (기준 대여소/좌표 누락, 시간 범위 초과)',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: '대여소를 찾을 수 없음',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 501,
+    description: '현재 라우팅 엔진이 등시선 계산을 지원하지 않음 (OSRM)',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 503,
+    description:
+      '라우팅 엔진 응답 없음 (타임아웃, 서버 오류, 장애로 인한 요청 차단)',
+    type: ErrorResponseDto,
+  })
+  async getIsochrone(
+    @Body() isochroneRequestDto: IsochroneRequestDto,
+  ): Promise<SuccessResponseDto<IsochroneResponseDto>> {
+    if (!isochroneRequestDto.stationNumber && !isochroneRequestDto.coordinate) {
+      throw new HttpException(
+        ErrorResponseDto.create(
+          HttpStatus.BAD_REQUEST,
+          '기준 대여소 번호(stationNumber) 또는 좌표(coordinate)가 필요합니다.',
+        ),
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    try {
+      const result =
+        await this.routesService.findReachableAreas(isochroneRequestDto);
+      return SuccessResponseDto.create(
+        '도달 가능 영역을 성공적으로 계산했습니다.',
+        result,
+      );
+    } catch (error) {
+      if (error instanceof RoutingEngineError) {
+        throw this.toRoutingEngineHttpException(error);
+      }
+      if (error instanceof NotFoundException) {
+        throw new HttpException(
+          ErrorResponseDto.create(HttpStatus.NOT_FOUND, error.message),
+          HttpStatus.NOT_FOUND,
+        );
+      }
+      if (error instanceof NotImplementedException) {
+        throw new HttpException(
+          ErrorResponseDto.create(HttpStatus.NOT_IMPLEMENTED, error.message),
+          HttpStatus.NOT_IMPLEMENTED,
+        );
+      }
+      this.logger.error('등시선 계산 중 오류 발생:', error);
+      throw new HttpException(
+        ErrorResponseDto.create(
+          HttpStatus.INTERNAL_SERVER_ERROR,
+          '도달 가능 영역 계산 중 오류가 발생했습니다.',
+        ),
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Post('matrix')
+  @ApiOperation({
+    summary: '대여소 간 이동 거리/시간 행렬',
+    description:
+      '출발/도착 대여소 번호 목록(각 최대 25개)으로 프로필별 자전거 이동 거리(미터)와 시간(초) 행렬을 반환합니다. 계산 결과는 저장되어 대여소 좌표가 바뀌지 않는 한 재사용됩니다.',
+  })
+  @ApiBody({
+    type: StationMatrixRequestDto,
+    description: '행렬 요청 데이터',
+    examples: {
+      '대여소 간 행렬': {
+        summary: '3개 대여소 상호 간 (safe_bike)',
+        value: { origins: ['1001', '1002', '1003'] },
+      },
+      '출발/도착 지정': {
+        summary: '출발 2개 → 도착 2개 (두 프로필)',
+        value: {
+          origins: ['1001', '1002'],
+          destinations: ['1004', '1005'],
+          profiles: ['safe_bike', 'fast_bike'],
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 200,
+    description: '행렬을 성공적으로 계산했습니다.',
+    type: StationMatrixResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: '요청 데이터 오류 (대여소 수 초과, 잘못된 프로필)',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: '대여소를 찾을 수 없음',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 503,
+    description:
+      '라우팅 엔진 응답 없음 (타임아웃, 서버 오류, 장애로 인한 요청 차단)',
+    type: ErrorResponseDto,
+  })
+  async getStationMatrix(
+    @Body() stationMatrixRequestDto: StationMatrixRequestDto,
+  ): Promise<SuccessResponseDto<StationMatrixResponseDto>> {
+    try {
+      const result = await this.routesService.findStationMatrix(
+        stationMatrixRequestDto,
+      );
+      return SuccessResponseDto.create(
+        '대여소 간 행렬을 성공적으로 계산했습니다.',
+        result,
+      );
+    } catch (error) {
+      if (error instanceof RoutingEngineError) {
+        throw this.toRoutingEngineHttpException(error);
+      }
+      if (error instanceof NotFoundException) {
+        throw new HttpException(
+          ErrorResponseDto.create(HttpStatus.NOT_FOUND, error.message),
+          HttpStatus.NOT_FOUND,
+        );
+      }
+      this.logger.error('대여소 행렬 계산 중 오류 발생:', error);
+      throw new HttpException(
+        ErrorResponseDto.create(
+          HttpStatus.INTERNAL_SERVER_ERROR,
+          '대여소 행렬 계산 중 오류가 발생했습니다.',
+        ),
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Get('cache/stats')
+  @ApiOperation({
+    summary: '경로 캐시 통계',
+    description:
+      '라우팅 엔진 응답 캐시의 적중/미스 횟수, 진행 중 요청 공유 횟수, 저장 항목 수를 조회합니다.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: '캐시 통계를 성공적으로 조회했습니다.',
+    type: RouteCacheStatsDto,
+  })
+  getRouteCacheStats(): SuccessResponseDto<RouteCacheStatsDto> {
+    return SuccessResponseDto.create(
+      '경로 캐시 통계를 조회했습니다.',
+      this.routesService.getRouteCacheStats(),
+    );
+  }
+
+  /**
+   * 통합 경로 검색 요청 사전 검증 (경유지 수, 출발 시각 범위)
+   * @param prefix 에러 메시지 앞에 붙일 항목 위치 (배치 요청용)
+   */
+  private validateJourneyRequest(
+    request: FullJourneyRequestDto,
+    prefix: string = '',
+  ): void {
+    if (
+      !request.optimizeOrder &&
+      (request.waypoints?.length ?? 0) > MAX_ORDERED_WAYPOINTS
+    ) {
+      throw new HttpException(
+        ErrorResponseDto.create(
+          HttpStatus.BAD_REQUEST,
+          `${prefix}경유지가 ${MAX_ORDERED_WAYPOINTS}개를 초과하면 optimizeOrder를 true로 지정해야 합니다.`,
+        ),
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const departTime = request.departAt
+      ? new Date(request.departAt).getTime()
+      : undefined;
+    if (
+      departTime !== undefined &&
+      (departTime < Date.now() - DEPART_AT_PAST_TOLERANCE_MS ||
+        departTime > Date.now() + MAX_DEPART_AHEAD_DAYS * 24 * 60 * 60 * 1000)
+    ) {
+      throw new HttpException(
+        ErrorResponseDto.create(
+          HttpStatus.BAD_REQUEST,
+          `${prefix}departAt은 현재 시각부터 ${MAX_DEPART_AHEAD_DAYS}일 이내여야 합니다.`,
+        ),
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+  }
+
+  /**
+   * 원형 경로 추천 요청 사전 검증 (테마 POI는 테마와 함께 지정)
+   */
+  private validateCircularRequest(request: CircularRouteRequestDto): void {
+    if (request.themePoiId && !request.theme) {
+      throw new HttpException(
+        ErrorResponseDto.create(
+          HttpStatus.BAD_REQUEST,
+          'themePoiId를 사용하려면 theme을 함께 지정해야 합니다.',
+        ),
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+  }
+
+  /**
+   * 경로 검색 결과를 Server-Sent Events로 전송
+   * - candidate: 후보 경로가 만들어질 때마다 / complete: 최종 선택 경로 / error: 실패 사유
+   * - 전송 버퍼가 가득 차면 비워질 때(drain)까지 다음 후보 검색을 기다림
+   * - 클라이언트 연결이 끊기면 검색을 중단해 남은 라우팅 엔진 호출을 하지 않음
+   */
+  private async streamRoutes(
+    res: Response,
+    search: (
+      options: Pick<JourneySearchOptions, 'onCandidate' | 'signal'>,
+    ) => Promise<RouteDto[]>,
+    successMessage: string,
+    errorMessage: string,
+  ): Promise<void> {
+    res.status(HttpStatus.OK);
+    res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no'); // 리버스 프록시 버퍼링 방지
+    res.flushHeaders();
+
+    const abortController = new AbortController();
+    const { signal } = abortController;
+    res.on('close', () => abortController.abort());
+    const send = async (event: string, data: unknown): Promise<void> => {
+      if (signal.aborted) {
+        return;
+      }
+      if (!res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)) {
+        await new Promise<void>((resolve) => {
+          const resume = () => {
+            res.off('drain', resume);
+            res.off('close', resume);
+            resolve();
+          };
+          res.on('drain', resume);
+          res.on('close', resume);
+        });
+      }
+    };
+
+    try {
+      const routes = await search({
+        onCandidate: (route) => send('candidate', route),
+        signal,
+      });
+      await send('complete', SuccessResponseDto.create(successMessage, routes));
+    } catch (error) {
+      if (signal.aborted) {
+        this.logger.debug('클라이언트 연결 종료로 경로 스트리밍 중단');
+      } else {
+        await send('error', this.toStreamError(error, errorMessage));
+      }
+    } finally {
+      res.end();
+    }
+  }
+
+  /**
+   * 스트림 중 발생한 오류 → error 이벤트 데이터 (일반 응답과 같은 상태 코드)
+   */
+  private toStreamError(
+    error: unknown,
+    fallbackMessage: string,
+  ): ErrorResponseDto {
+    if (error instanceof RoutingEngineError) {
+      this.logger.warn(`라우팅 엔진 오류 (${error.name}): ${error.message}`);
+      return ErrorResponseDto.create(
+        error instanceof RoutingEngineUnavailable
+          ? HttpStatus.SERVICE_UNAVAILABLE
+          : HttpStatus.UNPROCESSABLE_ENTITY,
+        error.message,
+      );
+    }
+    if (error instanceof HttpException) {
+      return ErrorResponseDto.create(error.getStatus(), error.message);
+    }
+    this.logger.error('경로 스트리밍 중 오류 발생:', error);
+    return ErrorResponseDto.create(
+      HttpStatus.INTERNAL_SERVER_ERROR,
+      fallbackMessage,
+    );
+  }
+
+  /**
+   * 라우팅 엔진 오류 → 응답 예외 (연결 불가 503, 경로 없음/도로와 매칭 불가 422)
+   */
+  private toRoutingEngineHttpException(
+    error: RoutingEngineError,
+  ): HttpException {
+    const status =
+      error instanceof RoutingEngineUnavailable
+        ? HttpStatus.SERVICE_UNAVAILABLE
+        : HttpStatus.UNPROCESSABLE_ENTITY;
+    this.logger.warn(`라우팅 엔진 오류 (${error.name}): ${error.message}`);
+    return new HttpException(
+      ErrorResponseDto.create(status, error.message),
+      status,
+    );
+  }
 }
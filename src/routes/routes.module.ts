@@ -1,6 +1,8 @@
 import { Module } from '@nestjs/common';
 import { HttpModule } from '@nestjs/axios';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { RoutesController } from './routes.controller';
+import { NavigationController } from './navigation.controller';
 import { RoutesService } from './routes.service';
 import { GraphHopperService } from './services/graphhopper.service';
 import { RouteOptimizerService } from './services/route-optimizer.service';
@@ -8,22 +10,60 @@ import { RouteConverterService } from './services/route-converter.service';
 import { RouteBuilderService } from './services/route-builder.service';
 import { StationRouteService } from './services/station-route.service';
 import { RouteUtilService } from './services/route-util.service';
+import { RouteExportService } from './services/route-export.service';
+import { StationScoringService } from './services/station-scoring.service';
+import { RentalLimitService } from './services/rental-limit.service';
+import { ElevationProfileService } from './services/elevation-profile.service';
+import { WaypointOrderService } from './services/waypoint-order.service';
+import { IsochroneService } from './services/isochrone.service';
+import { StationMatrixService } from './services/station-matrix.service';
+import { NavigationSessionService } from './services/navigation-session.service';
+import { RouteThemeService } from './services/route-theme.service';
+import { RouteTokenService } from './services/route-token.service';
+import { PolylineService } from './services/polyline.service';
+import { RouteScoringService } from './services/route-scoring.service';
+import { MultimodalJourneyService } from './services/multimodal-journey.service';
+import { PointSnapService } from './services/point-snap.service';
+import { BatchRouteService } from './services/batch-route.service';
+import { TransitModule } from '../transit/transit.module';
+import { StationTravelTime } from './entities/station-travel-time.entity';
+import { routingEngineProvider } from './services/engines/routing-engine.factory';
+import { routeCacheProvider } from './services/cache/route-cache.factory';
 import { StationsModule } from '../stations/stations.module';
 
 @Module({
   imports: [
+    TypeOrmModule.forFeature([StationTravelTime]),
     HttpModule,
     StationsModule, // StationQueryService를 사용하기 위해 추가
+    TransitModule, // 대중교통 연계 경로 (GTFS)
   ],
-  controllers: [RoutesController],
+  controllers: [RoutesController, NavigationController],
   providers: [
     RoutesService,
+    routingEngineProvider,
+    routeCacheProvider,
     GraphHopperService,
     RouteOptimizerService,
     RouteConverterService,
     RouteBuilderService,
     StationRouteService,
     RouteUtilService,
+    RouteExportService,
+    StationScoringService,
+    RentalLimitService,
+    ElevationProfileService,
+    WaypointOrderService,
+    IsochroneService,
+    StationMatrixService,
+    NavigationSessionService,
+    RouteThemeService,
+    RouteTokenService,
+    PolylineService,
+    RouteScoringService,
+    MultimodalJourneyService,
+    PointSnapService,
+    BatchRouteService,
   ],
 })
 export class RoutesModule {}
@@ -1,18 +1,81 @@
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  BadRequestException,
+  HttpException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { randomInt } from 'crypto';
 import {
   FullJourneyRequestDto,
   RouteDto,
   CircularRouteRequestDto,
   CoordinateDto,
+  RouteExportFormat,
+  RouteExportRequestDto,
+  PassType,
+  RouteCacheStatsDto,
+  SegmentElevationProfileDto,
+  MAX_ORDERED_WAYPOINTS,
+  IsochroneRequestDto,
+  IsochroneResponseDto,
+  StationMatrixRequestDto,
+  StationMatrixResponseDto,
+  RouteTheme,
+  BikeProfile,
+  MAX_ROUTE_SEED,
+  GeometryEncoding,
+  MultimodalRouteRequestDto,
+  SnappedPointDto,
+  BatchRouteRequestDto,
+  BatchRouteResponseDto,
 } from './dto/route.dto';
 import { RouteOptimizerService } from './services/route-optimizer.service';
 import { RouteConverterService } from './services/route-converter.service';
 import { RouteBuilderService } from './services/route-builder.service';
 import { GraphHopperService } from './services/graphhopper.service';
-import { StationRouteService } from './services/station-route.service';
+import {
+  NoAvailableStation,
+  StationRouteService,
+} from './services/station-route.service';
+import { StationScoringService } from './services/station-scoring.service';
+import { RentalLimitService } from './services/rental-limit.service';
+import { ElevationProfileService } from './services/elevation-profile.service';
+import { WaypointOrderService } from './services/waypoint-order.service';
+import { IsochroneService } from './services/isochrone.service';
+import { StationMatrixService } from './services/station-matrix.service';
+import { RouteThemeService } from './services/route-theme.service';
+import { RouteTokenService } from './services/route-token.service';
+import { PolylineService } from './services/polyline.service';
+import { RouteScoringService } from './services/route-scoring.service';
+import { MultimodalJourneyService } from './services/multimodal-journey.service';
+import { PointSnapService } from './services/point-snap.service';
+import { StationReservationLedger } from './services/station-reservation.ledger';
+import { GraphHopperPath } from './interfaces/graphhopper.interface';
+import { BatchRouteService } from './services/batch-route.service';
+import {
+  RouteExportFile,
+  RouteExportService,
+} from './services/route-export.service';
+
+/**
+ * 통합 경로 검색 옵션
+ * - ledger: 배치 검색 시 대여소 배정 장부 (앞선 요청에 배정된 재고 제외)
+ * - onCandidate: 후보 경로가 만들어질 때마다 호출 (스트리밍 응답용, 후처리 전 경로)
+ *   Promise를 반환하면 완료될 때까지 다음 검색을 기다림 (느린 클라이언트 대응)
+ * - signal: 중단되면 다음 라우팅 엔진 호출 전에 검색 종료 (스트리밍 연결 종료 시)
+ */
+export interface JourneySearchOptions {
+  ledger?: StationReservationLedger;
+  onCandidate?: (route: RouteDto) => void | Promise<void>;
+  signal?: AbortSignal;
+}
 
 @Injectable()
 export class RoutesService {
+  private static readonly ALTERNATIVE_STATION_CATEGORY = '대체 대여소 경로';
+  private static readonly SHARED_CIRCULAR_CATEGORY = '공유된 원형 경로';
+  private static readonly CANDIDATE_CATEGORY = '후보 경로';
   private readonly logger = new Logger(RoutesService.name);
 
   constructor(
@@ -21,6 +84,20 @@ export class RoutesService {
     private readonly routeBuilder: RouteBuilderService,
     private readonly graphHopperService: GraphHopperService,
     private readonly stationRouteService: StationRouteService,
+    private readonly routeExportService: RouteExportService,
+    private readonly stationScoringService: StationScoringService,
+    private readonly rentalLimitService: RentalLimitService,
+    private readonly elevationProfileService: ElevationProfileService,
+    private readonly waypointOrderService: WaypointOrderService,
+    private readonly isochroneService: IsochroneService,
+    private readonly stationMatrixService: StationMatrixService,
+    private readonly routeThemeService: RouteThemeService,
+    private readonly routeTokenService: RouteTokenService,
+    private readonly polylineService: PolylineService,
+    private readonly routeScoringService: RouteScoringService,
+    private readonly multimodalJourneyService: MultimodalJourneyService,
+    private readonly pointSnapService: PointSnapService,
+    private readonly batchRouteService: BatchRouteService,
   ) {}
 
   // ============================================
@@ -30,74 +107,148 @@ export class RoutesService {
   /**
    * 통합 경로 검색 (A → B, 왕복 경로, 경유지 포함 가능)
    */
-  async findFullJourney(request: FullJourneyRequestDto): Promise<RouteDto[]> {
+  async findFullJourney(
+    request: FullJourneyRequestDto,
+    options: JourneySearchOptions = {},
+  ): Promise<RouteDto[]> {
     try {
-      // 출발지와 도착지가 같은 경우 (왕복 경로)
-      const isRoundTrip = this.isSameLocation(request.start, request.end);
-
-      if (isRoundTrip) {
-        // 왕복 경로인 경우 경유지가 반드시 필요
-        if (!request.waypoints || request.waypoints.length === 0) {
-          throw new Error(
-            '왕복 경로 검색에는 최소한 하나의 경유지가 필요합니다.',
-          );
-        }
-
-        // 왕복 경로를 다구간 경로로 처리
-        return this.findRoundTripJourney(request);
-      }
-
-      // 일반 경로 처리
-      if (request.waypoints && request.waypoints.length > 0) {
-        return this.findMultiLegJourney(request);
-      }
-
-      // 기존 A-B 직접 경로 처리
-      return this.findDirectJourney(request);
+      // 출발지/경유지/도착지 도로 스냅 (도로에서 너무 먼 지점은 PointNotRoutable)
+      const snappedPoints =
+        await this.pointSnapService.snapJourneyPoints(request);
+      options.signal?.throwIfAborted();
+      const routes = await this.routeFullJourney(
+        this.applySnappedPoints(request, snappedPoints),
+        {
+          ...options,
+          onCandidate: this.prepareCandidateListener(
+            options.onCandidate,
+            snappedPoints,
+            request.encoding,
+          ),
+        },
+      );
+      options.signal?.throwIfAborted();
+      return await this.applyRouteOptions(
+        this.attachSnappedPoints(routes, snappedPoints),
+        { ...request, ledger: options.ledger },
+      );
     } catch (error) {
-      this.logger.error('Full journey search failed', error);
+      this.logSearchError('Full journey search failed', error, options.signal);
       throw error;
     }
   }
 
   /**
    * 원형 경로 추천 (지정된 거리의 원형 코스)
+   * @param options onCandidate/signal은 통합 경로 검색과 같음 (스트리밍 응답용)
    */
   async findRoundTripRecommendations(
     request: CircularRouteRequestDto,
+    { onCandidate, signal }: Omit<JourneySearchOptions, 'ledger'> = {},
   ): Promise<RouteDto[]> {
     this.logger.debug(
-      `원형 경로 추천 시작 - 목표 거리: ${request.targetDistance}m`,
+      `원형 경로 추천 시작 - 목표 거리: ${request.targetDistance}m${request.theme ? `, 테마: ${request.theme}` : ''}`,
     );
 
     try {
+      // 경로 토큰이 있으면 해당 원형 경로를 그대로 재생성
+      if (request.routeToken) {
+        return await this.regenerateCircularRoute(request);
+      }
+
+      // 출발지 도로 스냅
+      const snappedPoints = await this.pointSnapService.snapJourneyPoints({
+        start: request.start,
+      });
+      signal?.throwIfAborted();
+      const { start } = this.applySnappedPoints(request, snappedPoints);
+      const emitCandidate = this.prepareCandidateListener(
+        onCandidate,
+        snappedPoints,
+        request.encoding,
+      );
+
+      // 테마 POI 지정 시 POI를 경유지로 하는 왕복 경로로 처리
+      if (request.theme && request.themePoiId) {
+        const poi = this.routeThemeService.getPoi(
+          request.theme,
+          request.themePoiId,
+        );
+        const routes = await this.routeFullJourney(
+          {
+            start,
+            end: start,
+            waypoints: [{ lat: poi.lat, lng: poi.lng }],
+            categories: request.categories,
+          },
+          { onCandidate: emitCandidate, signal },
+        );
+        signal?.throwIfAborted();
+        return await this.applyRouteOptions(
+          this.attachSnappedPoints(routes, snappedPoints),
+          request,
+        );
+      }
+
       // 실제 대여소 검색 (에러 처리는 StationRouteService에서 담당)
       const station =
-        await this.stationRouteService.findNearestAvailableStation(
-          request.start,
-        );
+        await this.stationRouteService.findNearestAvailableStation(start);
 
       if (!station) {
-        throw new Error(
-          `원형 경로 시작지 근처에 이용 가능한 대여소를 찾을 수 없습니다. 좌표: ${request.start.lat}, ${request.start.lng}`,
+        throw new NoAvailableStation(
+          `원형 경로 시작지 근처에 이용 가능한 대여소를 찾을 수 없습니다. 좌표: ${start.lat}, ${start.lng}`,
         );
       }
+      signal?.throwIfAborted();
 
       // 도보 구간들
       const [walkingToStation, walkingFromStation] = await Promise.all([
-        this.graphHopperService.getSingleRoute(request.start, station, 'foot'),
-        this.graphHopperService.getSingleRoute(station, request.start, 'foot'),
+        this.graphHopperService.getSingleRoute(start, station, 'foot'),
+        this.graphHopperService.getSingleRoute(station, start, 'foot'),
       ]);
 
-      // 원형 경로 최적 검색 (safe_bike + fast_bike)
+      // 원형 경로 → RouteDto (경로 토큰 포함)
+      const seed = request.seed ?? randomInt(MAX_ROUTE_SEED);
+      const toCircularRoute = (
+        circularPath: GraphHopperPath,
+        category: string,
+      ): RouteDto => ({
+        ...this.routeConverter.buildCircularRoute(
+          walkingToStation,
+          circularPath,
+          walkingFromStation,
+          station,
+          category,
+        ),
+        routeToken: this.routeTokenService.encodeCircularRoute({
+          seed: circularPath.seed ?? seed,
+          profile: circularPath.profile as BikeProfile,
+          stationNumber: station.number,
+          distance: request.targetDistance,
+        }),
+      });
+
+      // 원형 경로 최적 검색 (safe_bike + fast_bike, 시드 미지정 시 임의 생성)
       const optimalCircularPaths =
         await this.routeOptimizer.findOptimalCircularRoutes(
           station,
           request.targetDistance,
+          seed,
+          request.categories,
+          request.theme
+            ? (paths) =>
+                this.routeThemeService.rankByCoverage(paths, request.theme!)
+            : undefined,
+          emitCandidate &&
+            ((path) =>
+              emitCandidate(
+                toCircularRoute(path, RoutesService.CANDIDATE_CATEGORY),
+              )),
+          signal,
         );
 
       this.logger.debug(
-        `원형 경로 추천 완료 - 대여소: ${station.name}, GraphHopper API 호출: 도보 2회, 원형 경로 ${optimalCircularPaths.length}개 생성`,
+        `원형 경로 추천 완료 - 대여소: ${station.name}, 시드: ${seed}, GraphHopper API 호출: 도보 2회, 원형 경로 ${optimalCircularPaths.length}개 생성`,
       );
 
       // 각 원형 경로에 대해 RouteDto 생성 (카테고리 반영)
@@ -106,25 +257,213 @@ export class RoutesService {
         '최단 거리 경로',
         '최소 시간 경로',
       ];
-      return optimalCircularPaths.map((circularPath, idx) =>
-        this.routeConverter.buildCircularRoute(
-          walkingToStation,
+      const routes = optimalCircularPaths.map((circularPath, idx) => ({
+        ...toCircularRoute(
           circularPath,
-          walkingFromStation,
-          station,
           circularPath.routeCategory || fallbackCategories[idx] || '일반 경로',
         ),
+        categoryReason: circularPath.categoryReason,
+      }));
+      signal?.throwIfAborted();
+      return await this.applyRouteOptions(
+        this.attachSnappedPoints(routes, snappedPoints),
+        request,
+      );
+    } catch (error) {
+      this.logSearchError(
+        '원형 경로 추천 중 GraphHopper API 호출 실패',
+        error,
+        signal,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * 대중교통 연계 경로 검색 (도보/따릉이 → 대중교통 → 도보/따릉이)
+   */
+  async findMultimodalJourney(
+    request: MultimodalRouteRequestDto,
+  ): Promise<RouteDto[]> {
+    try {
+      const snappedPoints =
+        await this.pointSnapService.snapJourneyPoints(request);
+      const routes = await this.multimodalJourneyService.findJourneys(
+        this.applySnappedPoints(request, snappedPoints),
+      );
+      return await this.applyRouteOptions(
+        this.attachSnappedPoints(routes, snappedPoints),
+        request,
       );
     } catch (error) {
-      this.logger.error('원형 경로 추천 중 GraphHopper API 호출 실패', error);
+      this.logger.error('대중교통 연계 경로 검색 실패', error);
       throw error;
     }
   }
 
+  /**
+   * 배치 통합 경로 검색 (단체 이동/운영용)
+   * - 요청 간 대여소 재고를 나눠 배정하며 요청별 결과 또는 실패 사유 반환
+   */
+  findBatchJourneys(
+    request: BatchRouteRequestDto,
+  ): Promise<BatchRouteResponseDto> {
+    return this.batchRouteService.planJourneys(
+      request.journeys,
+      (journey, ledger) => this.findFullJourney(journey, { ledger }),
+    );
+  }
+
+  /**
+   * 경로 내보내기 (GPX / KML / GeoJSON)
+   * - route가 있으면 그대로 변환, 없으면 journey로 경로를 재검색하여 변환
+   */
+  async exportRoute(
+    request: RouteExportRequestDto,
+    format: RouteExportFormat,
+  ): Promise<RouteExportFile> {
+    let route = request.route;
+
+    if (!route) {
+      if (!request.journey) {
+        throw new BadRequestException(
+          '내보낼 경로(route) 또는 경로 검색 요청(journey)이 필요합니다.',
+        );
+      }
+      const routes = await this.findFullJourney(request.journey);
+      route = routes[request.routeIndex ?? 0];
+      if (!route) {
+        throw new NotFoundException(
+          `요청한 경로 인덱스(${request.routeIndex})에 해당하는 경로가 없습니다.`,
+        );
+      }
+    }
+
+    return this.routeExportService.export(
+      this.polylineService.decodeRoute(route),
+      format,
+    );
+  }
+
+  /**
+   * 경로의 자전거 구간별 고도 프로필 및 오르막 구간 분석
+   */
+  analyzeElevation(route: RouteDto): SegmentElevationProfileDto[] {
+    return this.elevationProfileService.analyzeRoute(
+      this.polylineService.decodeRoute(route),
+    );
+  }
+
+  /**
+   * 시간 예산별 도달 가능 영역(등시선)과 영역 내 대여소 조회
+   */
+  async findReachableAreas(
+    request: IsochroneRequestDto,
+  ): Promise<IsochroneResponseDto> {
+    try {
+      return await this.isochroneService.findReachableAreas(request);
+    } catch (error) {
+      this.logger.error('등시선 계산 실패', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 대여소 간 프로필별 거리/시간 행렬 조회
+   */
+  async findStationMatrix(
+    request: StationMatrixRequestDto,
+  ): Promise<StationMatrixResponseDto> {
+    try {
+      return await this.stationMatrixService.buildMatrix(request);
+    } catch (error) {
+      this.logger.error('대여소 행렬 계산 실패', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 경로 캐시 통계 조회
+   */
+  getRouteCacheStats(): RouteCacheStatsDto {
+    const stats = this.graphHopperService.getCacheStats();
+    const lookups = stats.hits + stats.misses;
+    return {
+      ...stats,
+      hitRate:
+        lookups > 0
+          ? Math.round(((stats.hits + stats.inFlightHits) / lookups) * 100) /
+            100
+          : 0,
+    };
+  }
+
   // ============================================
   // 경로 검색 타입 판별 및 라우팅
   // ============================================
 
+  /**
+   * 요청 유형(왕복/다구간/직접)에 따라 경로 검색
+   */
+  private routeFullJourney(
+    request: FullJourneyRequestDto,
+    options: JourneySearchOptions = {},
+  ): Promise<RouteDto[]> {
+    if (
+      !request.optimizeOrder &&
+      (request.waypoints?.length ?? 0) > MAX_ORDERED_WAYPOINTS
+    ) {
+      throw new BadRequestException(
+        `경유지 순서 최적화(optimizeOrder) 없이는 경유지를 최대 ${MAX_ORDERED_WAYPOINTS}개까지 지정할 수 있습니다.`,
+      );
+    }
+
+    // 출발지와 도착지가 같은 경우 (왕복 경로)
+    const isRoundTrip = this.isSameLocation(request.start, request.end);
+
+    if (isRoundTrip) {
+      // 왕복 경로인 경우 경유지가 반드시 필요
+      if (!request.waypoints || request.waypoints.length === 0) {
+        throw new BadRequestException(
+          '왕복 경로 검색에는 최소한 하나의 경유지가 필요합니다.',
+        );
+      }
+
+      // 왕복 경로를 다구간 경로로 처리
+      return this.findRoundTripJourney(request, options);
+    }
+
+    // 일반 경로 처리
+    if (request.waypoints && request.waypoints.length > 0) {
+      return this.findMultiLegJourney(request, options);
+    }
+
+    // 기존 A-B 직접 경로 처리
+    return this.findDirectJourney(request, options);
+  }
+
+  /**
+   * 경유지 방문 순서 결정 (optimizeOrder 요청 시 최적화, 아니면 요청 순서 유지)
+   */
+  private async orderWaypoints(
+    from: CoordinateDto,
+    waypoints: CoordinateDto[],
+    to: CoordinateDto,
+    optimizeOrder?: boolean,
+  ): Promise<{ waypoints: CoordinateDto[]; waypointOrder?: number[] }> {
+    if (!optimizeOrder) return { waypoints };
+
+    const waypointOrder = await this.waypointOrderService.optimizeOrder(
+      from,
+      waypoints,
+      to,
+    );
+    return {
+      waypoints: waypointOrder.map((idx) => waypoints[idx]),
+      waypointOrder,
+    };
+  }
+
   /**
    * 두 좌표가 같은 위치인지 확인 (왕복 경로 판별)
    */
@@ -136,16 +475,106 @@ export class RoutesService {
     );
   }
 
+  /**
+   * 요청 좌표를 도로 스냅 좌표로 교체 (스냅 결과에 없는 지점은 그대로 유지)
+   */
+  private applySnappedPoints<
+    T extends {
+      start: CoordinateDto;
+      end?: CoordinateDto;
+      waypoints?: CoordinateDto[];
+    },
+  >(request: T, snappedPoints: SnappedPointDto[]): T {
+    const find = (role: SnappedPointDto['role'], index?: number) =>
+      snappedPoints.find(
+        (point) => point.role === role && point.index === index,
+      )?.snapped;
+
+    return {
+      ...request,
+      start: find('start') ?? request.start,
+      end: request.end && (find('end') ?? request.end),
+      waypoints: request.waypoints?.map(
+        (waypoint, index) => find('waypoint', index) ?? waypoint,
+      ),
+    };
+  }
+
+  /**
+   * 경로별 도로 스냅 결과 추가
+   */
+  private attachSnappedPoints(
+    routes: RouteDto[],
+    snappedPoints: SnappedPointDto[],
+  ): RouteDto[] {
+    return routes.map((route) => ({ ...route, snappedPoints }));
+  }
+
+  /**
+   * 후보 경로 전달 전 도로 스냅 결과와 좌표 인코딩 반영 (최종 경로와 같은 형식으로 렌더링 가능하도록)
+   * - 점수/이용권/고도 등 후보 간 비교가 필요한 후처리는 완료 시점에만 적용
+   */
+  private prepareCandidateListener(
+    onCandidate: JourneySearchOptions['onCandidate'],
+    snappedPoints: SnappedPointDto[],
+    encoding?: GeometryEncoding,
+  ): JourneySearchOptions['onCandidate'] {
+    if (!onCandidate) {
+      return undefined;
+    }
+    return (route) => {
+      const [withSnappedPoints] = this.attachSnappedPoints(
+        [route],
+        snappedPoints,
+      );
+      return onCandidate(
+        encoding
+          ? this.polylineService.encodeRoute(withSnappedPoints, encoding)
+          : withSnappedPoints,
+      );
+    };
+  }
+
+  /**
+   * 검색 실패 로그 (클라이언트 연결 종료로 중단된 검색은 오류로 남기지 않음)
+   * - 요청 조건으로 경로를 만들 수 없는 4xx 예외(대여소 없음 등)는 경고로 기록
+   */
+  private logSearchError(
+    message: string,
+    error: unknown,
+    signal?: AbortSignal,
+  ): void {
+    if (signal?.aborted) {
+      this.logger.debug(`${message} - 클라이언트 연결 종료로 검색 중단`);
+      return;
+    }
+    if (error instanceof HttpException && error.getStatus() < 500) {
+      this.logger.warn(`${message} - ${error.message}`);
+      return;
+    }
+    this.logger.error(message, error);
+  }
+
+  /**
+   * 출발 예정 시각 (미지정 시 undefined → 실시간 재고 기준 대여소 선택)
+   */
+  private parseDepartAt(request: FullJourneyRequestDto): Date | undefined {
+    return request.departAt ? new Date(request.departAt) : undefined;
+  }
+
   /**
    * 왕복 경로 검색 (출발지 = 도착지인 경우)
    */
   private async findRoundTripJourney(
     request: FullJourneyRequestDto,
+    { ledger, onCandidate, signal }: JourneySearchOptions,
   ): Promise<RouteDto[]> {
     const { start, waypoints } = request;
 
     if (!waypoints || waypoints.length === 0) {
-      throw new Error('왕복 경로에는 최소한 하나의 경유지가 필요합니다.');
+      throw new BadRequestException(
+        '왕복 경로에는 최소한 하나의 경유지가 필요합니다.',
+      );
     }
 
     this.logger.debug(`왕복 경로 검색 시작 - 경유지: ${waypoints.length}개`);
@@ -153,13 +582,18 @@ export class RoutesService {
     try {
       // 실제 대여소 검색
       const startStation =
-        await this.stationRouteService.findNearestAvailableStation(start);
+        await this.stationRouteService.findNearestAvailableStation(
+          start,
+          this.parseDepartAt(request),
+          ledger,
+        );
 
       if (!startStation) {
-        throw new Error(
+        throw new NoAvailableStation(
           `시작지 근처에 이용 가능한 대여소를 찾을 수 없습니다. 좌표: ${start.lat}, ${start.lng}`,
         );
       }
+      signal?.throwIfAborted();
 
       // 도보 구간들 (출발지⇄시작 대여소)
       const [walkingToStation, walkingFromStation] = await Promise.all([
@@ -168,9 +602,16 @@ export class RoutesService {
       ]);
 
       // 왕복 경로: 시작 대여소 → 경유지들 → 시작 대여소
+      const { waypoints: orderedWaypoints, waypointOrder } =
+        await this.orderWaypoints(
+          startStation,
+          waypoints,
+          startStation,
+          request.optimizeOrder,
+        );
       const roundTripPoints: CoordinateDto[] = [
         startStation,
-        ...waypoints,
+        ...orderedWaypoints,
         startStation,
       ];
 
@@ -179,29 +620,23 @@ export class RoutesService {
       );
 
       // 각 카테고리별 최적 왕복 경로 생성
-      const categories = [
-        { name: '자전거 도로 우선', priority: 'bike_priority' },
-        { name: '최소 시간', priority: 'time' },
-        { name: '최단 거리', priority: 'distance' },
-      ];
+      const categories = this.routeBuilder.getMultiLegCategories(
+        request.categories,
+      );
 
       const routes: RouteDto[] = [];
 
       for (const category of categories) {
+        signal?.throwIfAborted();
         const route = await this.routeBuilder.buildMultiLegRoute(
           roundTripPoints,
           category,
           walkingToStation, // 출발 시 도보
           walkingFromStation, // 복귀 시 도보
-          {
-            number: startStation.number,
-            name: startStation.name,
-            lat: startStation.lat,
-            lng: startStation.lng,
-            current_bikes: startStation.current_bikes,
-          },
+          startStation,
         );
-        routes.push(route);
+        routes.push({ ...route, waypointOrder });
+        await onCandidate?.(routes[routes.length - 1]);
       }
 
       this.logger.debug(
@@ -210,54 +645,161 @@ export class RoutesService {
 
       return routes;
     } catch (error) {
-      this.logger.error('왕복 경로 검색 중 오류 발생', error);
+      this.logSearchError('왕복 경로 검색 중 오류 발생', error, signal);
       throw error;
     }
   }
 
+  // ============================================
+  // 경로 후처리 (요청 옵션 반영)
+  // ============================================
+
+  /**
+   * 요청 옵션에 따라 완성된 경로 후처리
+   * - passType: 이용권 제한 시간 초과 시 중간 반납 구간 추가 또는 경고 (ledger가 있으면 첫 번째 경로의 중간 반납 대여소도 배정)
+   * - includeElevationProfile: 자전거 구간별 고도 프로필 추가 (구간 분할 이후 계산)
+   * - theme: 자전거 구간 중 테마 영역 안을 지나는 비율 추가
+   * - 항상: 경로 품질 점수와 가장 빠른 경로 대비 비교 문구 추가
+   * - encoding: 세그먼트 좌표 인코딩 (다른 후처리가 좌표를 사용하므로 마지막에 적용)
+   */
+  private async applyRouteOptions(
+    routes: RouteDto[],
+    options: {
+      passType?: PassType;
+      includeElevationProfile?: boolean;
+      theme?: RouteTheme;
+      encoding?: GeometryEncoding;
+      ledger?: StationReservationLedger;
+    },
+  ): Promise<RouteDto[]> {
+    const { passType, includeElevationProfile, theme, encoding, ledger } =
+      options;
+    let result = routes;
+
+    if (passType) {
+      result = await this.rentalLimitService.applyPassLimits(
+        result,
+        passType,
+        ledger,
+      );
+    }
+
+    if (includeElevationProfile) {
+      result = result.map((route) =>
+        this.elevationProfileService.attachElevationProfiles(route),
+      );
+    }
+
+    if (theme) {
+      result = result.map((route) => ({
+        ...route,
+        themeCoverage: this.routeThemeService.calculateRouteCoverage(
+          route,
+          theme,
+        ),
+      }));
+    }
+
+    result = this.routeScoringService.attachScores(result);
+
+    if (encoding) {
+      result = result.map((route) =>
+        this.polylineService.encodeRoute(route, encoding),
+      );
+    }
+
+    return result;
+  }
+
   // ============================================
   // 구체적인 경로 검색 구현 메서드 (Private)
   // ============================================
 
+  /**
+   * 경로 토큰으로 원형 경로 재생성 (토큰의 대여소/프로필/거리/시드 사용)
+   */
+  private async regenerateCircularRoute(
+    request: CircularRouteRequestDto,
+  ): Promise<RouteDto[]> {
+    const token = this.routeTokenService.decodeCircularRoute(
+      request.routeToken!,
+    );
+    const station = await this.stationRouteService.findStationByNumber(
+      token.stationNumber,
+    );
+    if (!station) {
+      throw new NotFoundException(
+        `경로 토큰의 대여소를 찾을 수 없습니다. 대여소 번호: ${token.stationNumber}`,
+      );
+    }
+
+    const [walkingToStation, circularPath, walkingFromStation] =
+      await Promise.all([
+        this.graphHopperService.getSingleRoute(request.start, station, 'foot'),
+        this.graphHopperService.getSingleRoundTripRoute(
+          station,
+          token.profile,
+          token.distance,
+          token.seed,
+        ),
+        this.graphHopperService.getSingleRoute(station, request.start, 'foot'),
+      ]);
+
+    this.logger.debug(
+      `원형 경로 재생성 - 대여소: ${station.name}, 프로필: ${token.profile}, 시드: ${token.seed}`,
+    );
+
+    const route: RouteDto = {
+      ...this.routeConverter.buildCircularRoute(
+        walkingToStation,
+        circularPath,
+        walkingFromStation,
+        station,
+        RoutesService.SHARED_CIRCULAR_CATEGORY,
+      ),
+      routeToken: request.routeToken,
+    };
+    return this.applyRouteOptions([route], { ...request, theme: undefined });
+  }
+
   /**
    * 직접 경로 검색 (A → B, 경유지 없음)
    */
   private async findDirectJourney(
     request: FullJourneyRequestDto,
+    { ledger, onCandidate, signal }: JourneySearchOptions,
   ): Promise<RouteDto[]> {
     this.logger.debug('직접 경로 검색 시작');
 
     try {
-      // 실제 대여소 검색 (에러 처리는 StationRouteService에서 담당)
-      const { startStation, endStation } =
-        await this.stationRouteService.findStartAndEndStations(
+      // 점수 기반 대여소 쌍 선택 (도보 구간 포함, 에러 처리는 StationScoringService에서 담당)
+      const alternativeCount = request.stationAlternatives ?? 0;
+      const [bestPair, ...alternativePairs] =
+        await this.stationScoringService.findBestStationPairs(
           request.start,
           request.end,
+          1 + alternativeCount,
+          this.parseDepartAt(request),
+          ledger,
         );
-
-      // 도보 구간 (출발지 → 시작 대여소, 도착 대여소 → 도착지)
-      const [walkingToStart, walkingFromEnd] = await Promise.all([
-        this.graphHopperService.getSingleRoute(
-          request.start,
-          startStation,
-          'foot',
-        ),
-        this.graphHopperService.getSingleRoute(endStation, request.end, 'foot'),
-      ]);
+      const { startStation, endStation, walkingToStart, walkingFromEnd } =
+        bestPair;
+      signal?.throwIfAborted();
 
       // 자전거 구간 최적 경로 검색 (safe_bike + fast_bike)
       const optimalBikePaths = await this.routeOptimizer.findOptimalRoutes(
         startStation,
         endStation,
+        request.categories,
       );
 
       this.logger.debug(
-        `직접 경로 검색 완료 - 출발 대여소: ${startStation.name}, 도착 대여소: ${endStation.name}, GraphHopper API 호출: 도보 2회, 자전거 경로 ${optimalBikePaths.length}개 생성`,
+        `직접 경로 검색 완료 - 출발 대여소: ${startStation.name}, 도착 대여소: ${endStation.name}, 점수: ${bestPair.score.totalScore}, 자전거 경로 ${optimalBikePaths.length}개 생성`,
       );
 
       // 각 자전거 경로에 대해 완전한 RouteDto 생성
-      return optimalBikePaths.map((bikePath) =>
-        this.routeConverter.buildRouteFromGraphHopper(
+      const routes: RouteDto[] = optimalBikePaths.map((bikePath) => ({
+        ...this.routeConverter.buildRouteFromGraphHopper(
           walkingToStart,
           bikePath,
           walkingFromEnd,
@@ -265,9 +807,43 @@ export class RoutesService {
           endStation,
           bikePath.routeCategory,
         ),
-      );
+        categoryReason: bikePath.categoryReason,
+        stationScore: bestPair.score,
+      }));
+      for (const route of routes) {
+        await onCandidate?.(route);
+      }
+
+      // 대체 대여소 쌍 경로 (각 쌍별 대표 경로 1개)
+      for (const pair of alternativePairs) {
+        signal?.throwIfAborted();
+        const [bikePath] = await this.routeOptimizer.findOptimalRoutes(
+          pair.startStation,
+          pair.endStation,
+          request.categories,
+        );
+        if (!bikePath) continue;
+        routes.push({
+          ...this.routeConverter.buildRouteFromGraphHopper(
+            pair.walkingToStart,
+            bikePath,
+            pair.walkingFromEnd,
+            pair.startStation,
+            pair.endStation,
+            `${RoutesService.ALTERNATIVE_STATION_CATEGORY} (${pair.startStation.name} → ${pair.endStation.name})`,
+          ),
+          stationScore: pair.score,
+        });
+        await onCandidate?.(routes[routes.length - 1]);
+      }
+
+      return routes;
     } catch (error) {
-      this.logger.error('직접 경로 검색 중 GraphHopper API 호출 실패', error);
+      this.logSearchError(
+        '직접 경로 검색 중 GraphHopper API 호출 실패',
+        error,
+        signal,
+      );
       throw error;
     }
   }
@@ -277,6 +853,7 @@ export class RoutesService {
    */
   private async findMultiLegJourney(
     request: FullJourneyRequestDto,
+    { ledger, onCandidate, signal }: JourneySearchOptions,
   ): Promise<RouteDto[]> {
     const { start, end, waypoints } = request;
 
@@ -285,51 +862,48 @@ export class RoutesService {
     );
 
     try {
-      // 실제 대여소 검색 (에러 처리는 StationRouteService에서 담당)
-      const { startStation, endStation } =
-        await this.stationRouteService.findStartAndEndStations(start, end);
-
-      // 도보 구간들 (출발지→시작 대여소, 도착 대여소→도착지)
-      const [walkingToStart, walkingFromEnd] = await Promise.all([
-        this.graphHopperService.getSingleRoute(start, startStation, 'foot'),
-        this.graphHopperService.getSingleRoute(endStation, end, 'foot'),
-      ]);
+      // 점수 기반 대여소 쌍 선택 (도보 구간 포함)
+      const [bestPair] = await this.stationScoringService.findBestStationPairs(
+        start,
+        end,
+        1,
+        this.parseDepartAt(request),
+        ledger,
+      );
+      const { startStation, endStation, walkingToStart, walkingFromEnd } =
+        bestPair;
+      signal?.throwIfAborted();
 
       // 자전거 경로 포인트 생성: 시작 대여소 → 경유지들 → 도착 대여소
-      const bikeRoutePoints = [startStation, ...(waypoints || []), endStation];
+      const { waypoints: orderedWaypoints, waypointOrder } =
+        await this.orderWaypoints(
+          startStation,
+          waypoints || [],
+          endStation,
+          request.optimizeOrder,
+        );
+      const bikeRoutePoints = [startStation, ...orderedWaypoints, endStation];
 
       // 각 카테고리별 최적 경로 생성
-      const categories = [
-        { name: '자전거 도로 우선', priority: 'bike_priority' },
-        { name: '최소 시간', priority: 'time' },
-        { name: '최단 거리', priority: 'distance' },
-      ];
+      const categories = this.routeBuilder.getMultiLegCategories(
+        request.categories,
+      );
 
       const routes: RouteDto[] = [];
       let totalApiCalls = 0;
 
       for (const category of categories) {
+        signal?.throwIfAborted();
         const route = await this.routeBuilder.buildMultiLegRoute(
           bikeRoutePoints,
           category,
           walkingToStart,
           walkingFromEnd,
-          {
-            number: startStation.number,
-            name: startStation.name,
-            lat: startStation.lat,
-            lng: startStation.lng,
-            current_bikes: startStation.current_bikes,
-          },
-          {
-            number: endStation.number,
-            name: endStation.name,
-            lat: endStation.lat,
-            lng: endStation.lng,
-            current_bikes: endStation.current_bikes,
-          },
+          startStation,
+          endStation,
         );
-        routes.push(route);
+        routes.push({ ...route, stationScore: bestPair.score, waypointOrder });
+        await onCandidate?.(routes[routes.length - 1]);
         totalApiCalls += bikeRoutePoints.length - 1; // 구간 수만큼 API 호출
       }
 
@@ -339,7 +913,11 @@ export class RoutesService {
 
       return routes;
     } catch (error) {
-      this.logger.error('다구간 경로 검색 중 GraphHopper API 호출 실패', error);
+      this.logSearchError(
+        '다구간 경로 검색 중 GraphHopper API 호출 실패',
+        error,
+        signal,
+      );
       throw error;
     }
   }
@@ -0,0 +1,422 @@
+import { HttpStatus, Logger } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  FullJourneyRequestDto,
+  PassType,
+  RouteDto,
+  RouteSegmentDto,
+  RouteStationDto,
+} from '../dto/route.dto';
+import { StationResponseDto } from '../../stations/dto/station-api.dto';
+import { GraphHopperPath } from '../interfaces/graphhopper.interface';
+import { BatchRouteService, JourneyPlanner } from './batch-route.service';
+import { RoutingEngineUnavailable } from './engines/routing-engine.errors';
+import { GraphHopperService } from './graphhopper.service';
+import { RentalLimitService } from './rental-limit.service';
+import { RouteConverterService } from './route-converter.service';
+import { RouteUtilService } from './route-util.service';
+import {
+  NoAvailableStation,
+  StationRouteService,
+} from './station-route.service';
+import {
+  StationReservationExhausted,
+  StationReservationLedger,
+} from './station-reservation.ledger';
+
+const station = (
+  number: string,
+  currentBikes: number,
+  totalRacks = 20,
+): StationResponseDto =>
+  ({
+    id: `ST-${number}`,
+    name: `${number}번 대여소`,
+    number,
+    latitude: 37.5,
+    longitude: 127,
+    total_racks: totalRacks,
+    current_bikes: currentBikes,
+    status: 'available',
+  }) as StationResponseDto;
+
+const journeys = (count: number): FullJourneyRequestDto[] =>
+  Array.from(
+    { length: count },
+    (_, i) =>
+      ({
+        start: { lat: 37.5 + i * 0.001, lng: 127 },
+        end: { lat: 37.6, lng: 127.1 },
+      }) as FullJourneyRequestDto,
+  );
+
+const tick = (ms = 0) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * StationRouteService와 같은 순서로 대여소 선택 (장부 반영 후보 검색 → 다른 작업 대기 → 배정)
+ */
+const rentalPlanner =
+  (stations: StationResponseDto[]): JourneyPlanner =>
+  async (_journey, ledger) => {
+    const candidates = stations
+      .map((candidate) => ledger.applyTo(candidate, 'rental'))
+      .filter((candidate) => candidate.current_bikes > 0);
+    await tick();
+    const selected = candidates.find((candidate) =>
+      ledger.tryReserve(candidate.number!, 'rental'),
+    );
+    if (!selected) {
+      throw new StationReservationExhausted();
+    }
+    return [{ routeCategory: selected.number } as RouteDto];
+  };
+
+describe('BatchRouteService', () => {
+  let service: BatchRouteService;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [BatchRouteService],
+    }).compile();
+
+    service = module.get<BatchRouteService>(BatchRouteService);
+  });
+
+  it('should spread journeys to other stations once a station runs out of bikes', async () => {
+    const response = await service.planJourneys(
+      journeys(6),
+      rentalPlanner([station('101', 2), station('102', 10)]),
+    );
+
+    expect(response.succeeded).toBe(6);
+    expect(
+      response.results.map((result) => result.routes?.[0].routeCategory),
+    ).toEqual(['101', '101', '102', '102', '102', '102']);
+    expect(response.stationUsage).toEqual([
+      expect.objectContaining({
+        number: '101',
+        reservedRentals: 2,
+        availableBikes: 2,
+      }),
+      expect.objectContaining({
+        number: '102',
+        reservedRentals: 4,
+        availableBikes: 10,
+      }),
+    ]);
+  });
+
+  it('should fail journeys that find no bikes left instead of overbooking', async () => {
+    const response = await service.planJourneys(
+      journeys(5),
+      rentalPlanner([station('101', 3)]),
+    );
+
+    expect(response.succeeded).toBe(3);
+    expect(response.failed).toBe(2);
+    expect(response.results[4].error?.statusCode).toBe(HttpStatus.NOT_FOUND);
+    expect(response.stationUsage[0].reservedRentals).toBe(3);
+  });
+
+  it('should roll back the reservations of a failed journey', async () => {
+    const requests = journeys(2);
+    const response = await service.planJourneys(
+      requests,
+      async (journey, ledger) => {
+        ledger.applyTo(station('101', 1), 'rental');
+        if (journey === requests[0]) {
+          ledger.tryReserve('101', 'rental');
+          await tick();
+          throw new RoutingEngineUnavailable();
+        }
+        // 첫 요청이 실패해 배정이 취소된 뒤 같은 자전거를 배정받음
+        await tick(10);
+        if (!ledger.tryReserve('101', 'rental')) {
+          throw new StationReservationExhausted();
+        }
+        return [];
+      },
+    );
+
+    expect(response.results[0]).toMatchObject({
+      index: 0,
+      success: false,
+      error: { statusCode: HttpStatus.SERVICE_UNAVAILABLE },
+    });
+    expect(response.results[1]).toMatchObject({ index: 1, success: true });
+    expect(response.stationUsage).toEqual([
+      expect.objectContaining({ number: '101', reservedRentals: 1 }),
+    ]);
+  });
+
+  it('should report journeys without a nearby station as 422', async () => {
+    const response = await service.planJourneys(journeys(1), () =>
+      Promise.reject(new NoAvailableStation()),
+    );
+
+    expect(response.results[0].error?.statusCode).toBe(
+      HttpStatus.UNPROCESSABLE_ENTITY,
+    );
+  });
+
+  it('should retry a journey once when its reservation was taken concurrently', async () => {
+    const attempts = new Map<FullJourneyRequestDto, number>();
+    const requests = journeys(2);
+    const response = await service.planJourneys(requests, (journey) => {
+      const attempt = (attempts.get(journey) ?? 0) + 1;
+      attempts.set(journey, attempt);
+      if (journey === requests[1] || attempt === 1) {
+        return Promise.reject(new StationReservationExhausted());
+      }
+      return Promise.resolve([]);
+    });
+
+    expect(attempts.get(requests[0])).toBe(2);
+    expect(attempts.get(requests[1])).toBe(2);
+    expect(response.results[0].success).toBe(true);
+    expect(response.results[1].error?.statusCode).toBe(HttpStatus.NOT_FOUND);
+  });
+
+  it('should process at most 4 journeys at a time and keep request order', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const response = await service.planJourneys(journeys(10), async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await tick();
+      inFlight--;
+      return [];
+    });
+
+    expect(maxInFlight).toBe(4);
+    expect(response.results.map((result) => result.index)).toEqual([
+      0, 1, 2, 3, 4, 5, 6, 7, 8, 9,
+    ]);
+  });
+});
+
+/**
+ * 출발 대여소에서 100분 동안 자전거로 이동하는 경로 (1시간권이면 중간 반납 필요)
+ */
+const longRide = (routeCategory: string, seconds = 6000): RouteDto =>
+  ({
+    routeCategory,
+    summary: { distance: 20000, time: seconds, ascent: 0, descent: 0 },
+    bbox: { minLat: 37.5, minLng: 127, maxLat: 37.5, maxLng: 127.2 },
+    segments: [
+      {
+        type: 'biking',
+        summary: { distance: 20000, time: seconds, ascent: 0, descent: 0 },
+        bbox: { minLat: 37.5, minLng: 127, maxLat: 37.5, maxLng: 127.2 },
+        geometry: {
+          points: Array.from({ length: 21 }, (_, i) => [127 + i * 0.01, 37.5]),
+        },
+      } as RouteSegmentDto,
+    ],
+  }) as RouteDto;
+
+const path = (seconds: number): GraphHopperPath => ({
+  distance: seconds * 3,
+  time: seconds * 1000,
+  ascend: 0,
+  descend: 0,
+  points: {
+    coordinates: [
+      [127, 37.5],
+      [127.1, 37.5],
+    ],
+  },
+  bbox: [127, 37.5, 127.1, 37.5],
+  instructions: [],
+});
+
+describe('BatchRouteService with passType', () => {
+  // 경로 중간의 유일한 반납 후보 (빈 거치대 1개)
+  const midStation = station('201', 19);
+  const midRouteStation = {
+    number: '201',
+    name: midStation.name,
+    lat: 37.5,
+    lng: 127.1,
+  } as RouteStationDto;
+
+  let service: BatchRouteService;
+  let rentalLimitService: RentalLimitService;
+  let afterDockSeconds: number;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(async () => {
+    afterDockSeconds = 3000;
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BatchRouteService,
+        RentalLimitService,
+        RouteConverterService,
+        RouteUtilService,
+        {
+          provide: GraphHopperService,
+          useValue: {
+            // 중간 반납 대여소까지 50분, 이후 구간은 afterDockSeconds
+            getSingleRoute: (from: { lat: number; lng: number }) =>
+              Promise.resolve(
+                path(
+                  from.lng === midRouteStation.lng ? afterDockSeconds : 3000,
+                ),
+              ),
+          },
+        },
+        {
+          provide: StationRouteService,
+          useValue: {
+            // StationRouteService처럼 장부를 반영해 빈 거치대가 남은 대여소만 반환
+            findBestReturnStation: (
+              _coordinate: unknown,
+              ledger?: StationReservationLedger,
+            ) => {
+              const applied =
+                ledger?.applyTo(midStation, 'return') ?? midStation;
+              return Promise.resolve(
+                applied.total_racks > applied.current_bikes
+                  ? midRouteStation
+                  : null,
+              );
+            },
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<BatchRouteService>(BatchRouteService);
+    rentalLimitService = module.get<RentalLimitService>(RentalLimitService);
+  });
+
+  const passPlanner =
+    (options: () => RouteDto[]): JourneyPlanner =>
+    (journey, ledger) =>
+      rentalLimitService.applyPassLimits(options(), journey.passType!, ledger);
+
+  const passJourneys = (count: number) =>
+    journeys(count).map((journey) => ({
+      ...journey,
+      passType: PassType.ONE_HOUR,
+    }));
+
+  it('should reserve mid-trip docks only for the first route option', async () => {
+    const response = await service.planJourneys(
+      passJourneys(2),
+      passPlanner(() => [longRide('a'), longRide('b'), longRide('c')]),
+    );
+
+    const [first, second] = response.results;
+    // 첫 요청의 후보 3개 모두 분할되지만 거치대는 1개만 배정
+    expect(
+      first.routes?.map((route) =>
+        route.segments.map((segment) => segment.type),
+      ),
+    ).toEqual(Array(3).fill(['biking', 'docking', 'biking']));
+    expect(response.stationUsage).toEqual([
+      expect.objectContaining({ number: '201', reservedReturns: 1 }),
+    ]);
+    // 남은 거치대가 없어 다음 요청은 초과 요금 경고
+    expect(second.success).toBe(true);
+    expect(second.routes?.[0].rentalWarning?.overtimeMinutes).toBe(40);
+  });
+
+  it('should release docks reserved by a split that ends with a warning', async () => {
+    // 중간 반납 후에도 100분을 더 달려야 해 두 번째 반납 대여소가 필요하지만 없음
+    afterDockSeconds = 6000;
+    const response = await service.planJourneys(
+      passJourneys(1),
+      passPlanner(() => [longRide('a', 9000)]),
+    );
+
+    expect(response.results[0].routes?.[0].rentalWarning).toBeDefined();
+    expect(response.results[0].routes?.[0].segments).toHaveLength(1);
+    expect(response.stationUsage).toEqual([]);
+  });
+});
+
+describe('StationReservationLedger', () => {
+  let ledger: StationReservationLedger;
+
+  beforeEach(() => {
+    ledger = new StationReservationLedger();
+  });
+
+  it('should reserve neither station when one side of a pair is exhausted', () => {
+    ledger.applyTo(station('101', 5), 'rental');
+    ledger.applyTo(station('102', 20, 20), 'return');
+
+    expect(ledger.tryReservePair('101', '102')).toBe(false);
+    expect(ledger.summarize()).toEqual([]);
+  });
+
+  it('should reserve stations that were never looked up without limit', () => {
+    expect(ledger.tryReservePair('101', '102')).toBe(true);
+    expect(ledger.tryReservePair('101', '102')).toBe(true);
+    expect(ledger.summarize()).toEqual([
+      expect.objectContaining({
+        number: '101',
+        reservedRentals: 2,
+        availableBikes: null,
+      }),
+      expect.objectContaining({
+        number: '102',
+        reservedReturns: 2,
+        availableDocks: null,
+      }),
+    ]);
+  });
+
+  it('should keep rental and return inventory from their own lookups', () => {
+    // 출발 시각 기준 자전거 2대, 반납 시각 기준 자전거 19대(빈 거치대 1개)
+    ledger.applyTo(station('101', 2), 'rental');
+    ledger.applyTo(station('101', 19), 'return');
+    ledger.applyTo(station('101', 0), 'rental');
+
+    expect(ledger.tryReserve('101', 'rental')).toBe(true);
+    expect(ledger.tryReserve('101', 'return')).toBe(true);
+    expect(ledger.tryReserve('101', 'return')).toBe(false);
+
+    expect(ledger.applyTo(station('101', 2), 'rental').current_bikes).toBe(1);
+    expect(ledger.applyTo(station('101', 19), 'return').current_bikes).toBe(20);
+  });
+
+  it('should roll back only the reservations made through a fork', () => {
+    ledger.applyTo(station('101', 2), 'rental');
+    const first = ledger.fork();
+    const second = ledger.fork();
+
+    expect(first.tryReserve('101', 'rental')).toBe(true);
+    expect(second.tryReserve('101', 'rental')).toBe(true);
+    expect(first.tryReserve('101', 'rental')).toBe(false);
+
+    second.rollback();
+    expect(ledger.summarize()[0].reservedRentals).toBe(1);
+    expect(first.tryReserve('101', 'rental')).toBe(true);
+  });
+
+  it('should move committed reservations to the parent and never record previews', () => {
+    ledger.applyTo(station('101', 2), 'rental');
+    const item = ledger.fork();
+    const option = item.fork();
+
+    expect(item.preview().tryReserve('101', 'rental')).toBe(true);
+    expect(ledger.summarize()).toEqual([]);
+
+    option.tryReserve('101', 'rental');
+    option.commit();
+    option.rollback();
+    expect(ledger.summarize()[0].reservedRentals).toBe(1);
+
+    item.rollback();
+    expect(ledger.summarize()).toEqual([]);
+  });
+});
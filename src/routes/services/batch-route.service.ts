@@ -0,0 +1,132 @@
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import {
+  BatchRouteItemDto,
+  BatchRouteResponseDto,
+  FullJourneyRequestDto,
+  RouteDto,
+} from '../dto/route.dto';
+import { ErrorResponseDto } from '../../common/api-response.dto';
+import {
+  RoutingEngineError,
+  RoutingEngineUnavailable,
+} from './engines/routing-engine.errors';
+import {
+  StationReservationExhausted,
+  StationReservationLedger,
+} from './station-reservation.ledger';
+
+const BATCH_CONSTANTS = {
+  CONCURRENCY: 4, // 동시에 처리할 요청 수 (라우팅 엔진 부하 제한)
+  MAX_RESERVATION_ATTEMPTS: 2, // 동시 요청과 대여소 배정이 겹쳤을 때 다시 검색할 횟수 포함
+} as const;
+
+/**
+ * 요청 1건 경로 검색 (배정 장부를 받아 대여소 선택에 반영)
+ */
+export type JourneyPlanner = (
+  journey: FullJourneyRequestDto,
+  ledger: StationReservationLedger,
+) => Promise<RouteDto[]>;
+
+/**
+ * BatchRouteService
+ * - 단체 이동/운영용 다건 경로 검색을 제한된 작업자 수로 병렬 처리
+ * - 요청 간 대여소 배정 장부를 공유해 같은 대여소의 재고를 중복 배정하지 않음
+ * - 요청별로 성공 결과 또는 실패 사유를 반환 (한 요청의 실패가 나머지에 영향 없음)
+ */
+@Injectable()
+export class BatchRouteService {
+  private readonly logger = new Logger(BatchRouteService.name);
+
+  /**
+   * 요청 목록 경로 검색
+   * - 작업자들이 요청 순서대로 다음 요청을 가져가므로 앞선 요청이 재고를 먼저 배정받음
+   * - 실패한 요청이 배정받은 재고는 취소해 뒤 요청이 사용할 수 있게 함
+   */
+  async planJourneys(
+    journeys: FullJourneyRequestDto[],
+    planJourney: JourneyPlanner,
+  ): Promise<BatchRouteResponseDto> {
+    const ledger = new StationReservationLedger();
+    const results = new Array<BatchRouteItemDto>(journeys.length);
+    let nextIndex = 0;
+
+    const worker = async (): Promise<void> => {
+      while (nextIndex < journeys.length) {
+        const index = nextIndex++;
+        results[index] = await this.planItem(
+          index,
+          journeys[index],
+          ledger,
+          planJourney,
+        );
+      }
+    };
+    await Promise.all(
+      Array.from(
+        { length: Math.min(BATCH_CONSTANTS.CONCURRENCY, journeys.length) },
+        () => worker(),
+      ),
+    );
+
+    const succeeded = results.filter((result) => result.success).length;
+    this.logger.log(
+      `배치 경로 검색 완료 - 요청 ${journeys.length}개, 성공 ${succeeded}개, 실패 ${journeys.length - succeeded}개`,
+    );
+    return {
+      results,
+      succeeded,
+      failed: journeys.length - succeeded,
+      stationUsage: ledger.summarize(),
+    };
+  }
+
+  /**
+   * 요청 1건 처리 (동시 요청과 배정이 겹치면 갱신된 배정 현황으로 다시 검색)
+   */
+  private async planItem(
+    index: number,
+    journey: FullJourneyRequestDto,
+    ledger: StationReservationLedger,
+    planJourney: JourneyPlanner,
+  ): Promise<BatchRouteItemDto> {
+    for (let attempt = 1; ; attempt++) {
+      const itemLedger = ledger.fork();
+      try {
+        const routes = await planJourney(journey, itemLedger);
+        return { index, success: true, routes };
+      } catch (error) {
+        itemLedger.rollback();
+        if (
+          error instanceof StationReservationExhausted &&
+          attempt < BATCH_CONSTANTS.MAX_RESERVATION_ATTEMPTS
+        ) {
+          continue;
+        }
+        return { index, success: false, error: this.toItemError(index, error) };
+      }
+    }
+  }
+
+  /**
+   * 오류 → 항목별 실패 사유 (단건 통합 경로 검색과 같은 상태 코드)
+   */
+  private toItemError(index: number, error: unknown): ErrorResponseDto {
+    if (error instanceof RoutingEngineError) {
+      return ErrorResponseDto.create(
+        error instanceof RoutingEngineUnavailable
+          ? HttpStatus.SERVICE_UNAVAILABLE
+          : HttpStatus.UNPROCESSABLE_ENTITY,
+        error.message,
+      );
+    }
+    if (error instanceof HttpException) {
+      return ErrorResponseDto.create(error.getStatus(), error.message);
+    }
+    this.logger.error(`배치 경로 검색 중 ${index}번 요청 실패:`, error);
+    return ErrorResponseDto.create(
+      HttpStatus.INTERNAL_SERVER_ERROR,
+      '통합 경로 검색 중 오류가 발생했습니다.',
+    );
+  }
+}
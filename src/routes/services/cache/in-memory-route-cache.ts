@@ -0,0 +1,76 @@
+import { GraphHopperPath } from '../../interfaces/graphhopper.interface';
+import {
+  RouteCache,
+  RouteCacheStats,
+} from '../../interfaces/route-cache.interface';
+
+interface CacheEntry {
+  paths: GraphHopperPath[];
+  expiresAt: number;
+}
+
+/**
+ * 메모리 기반 LRU 경로 캐시
+ * - Map의 삽입 순서를 이용해 가장 오래 사용하지 않은 항목부터 제거
+ * - 만료된 항목은 조회 시점에 제거
+ */
+export class InMemoryRouteCache implements RouteCache {
+  private readonly entries = new Map<string, CacheEntry>();
+  private hits = 0;
+  private misses = 0;
+  private inFlightHits = 0;
+  private evictions = 0;
+
+  constructor(
+    private readonly maxEntries: number,
+    private readonly ttlMs: number,
+  ) {}
+
+  get(key: string): GraphHopperPath[] | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) this.entries.delete(key);
+      this.misses++;
+      return undefined;
+    }
+
+    // 최근 사용 항목으로 갱신
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.paths;
+  }
+
+  set(key: string, paths: GraphHopperPath[]): void {
+    if (this.maxEntries <= 0 || this.ttlMs <= 0) return;
+
+    this.entries.delete(key);
+    this.entries.set(key, { paths, expiresAt: Date.now() + this.ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+      this.evictions++;
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  recordInFlightHit(): void {
+    this.inFlightHits++;
+  }
+
+  getStats(): RouteCacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      inFlightHits: this.inFlightHits,
+      evictions: this.evictions,
+      size: this.entries.size,
+      maxEntries: this.maxEntries,
+      ttlSeconds: Math.round(this.ttlMs / 1000),
+    };
+  }
+}
@@ -0,0 +1,47 @@
+import { Logger, Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  ROUTE_CACHE,
+  RouteCache,
+} from '../../interfaces/route-cache.interface';
+import { InMemoryRouteCache } from './in-memory-route-cache';
+
+const DEFAULT_TTL_SECONDS = 600;
+const DEFAULT_MAX_ENTRIES = 1000;
+
+/**
+ * 환경변수(ROUTE_CACHE_TTL_SECONDS, ROUTE_CACHE_MAX_ENTRIES)에 따라 경로 캐시 생성
+ * - 둘 중 하나라도 0이면 캐시 비활성화 (진행 중 요청 공유는 유지)
+ * - 0 이상의 정수가 아니면 경고 후 기본값 사용
+ */
+export function createRouteCache(configService: ConfigService): RouteCache {
+  const logger = new Logger('RouteCacheFactory');
+  const read = (key: string, defaultValue: number): number => {
+    const raw = configService.get<string>(key);
+    if (raw === undefined || String(raw).trim() === '') {
+      return defaultValue;
+    }
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < 0) {
+      logger.warn(
+        `${key} 값(${String(raw)})이 0 이상의 정수가 아니므로 기본값 ${defaultValue}을 사용합니다.`,
+      );
+      return defaultValue;
+    }
+    return value;
+  };
+  const ttlSeconds = read('ROUTE_CACHE_TTL_SECONDS', DEFAULT_TTL_SECONDS);
+  const maxEntries = read('ROUTE_CACHE_MAX_ENTRIES', DEFAULT_MAX_ENTRIES);
+
+  logger.log(
+    `경로 캐시 설정 - TTL: ${ttlSeconds}s, 최대 항목 수: ${maxEntries}`,
+  );
+
+  return new InMemoryRouteCache(maxEntries, ttlSeconds * 1000);
+}
+
+export const routeCacheProvider: Provider = {
+  provide: ROUTE_CACHE,
+  inject: [ConfigService],
+  useFactory: createRouteCache,
+};
@@ -0,0 +1,217 @@
+import { Injectable } from '@nestjs/common';
+import {
+  ClimbSectionDto,
+  ElevationProfileDto,
+  RouteDto,
+  RouteSegmentDto,
+  SegmentElevationProfileDto,
+} from '../dto/route.dto';
+import { RouteUtilService } from './route-util.service';
+
+/**
+ * 다운샘플링된 고도 샘플 (geometry 인덱스 포함)
+ */
+interface ElevationSample {
+  distance: number;
+  elevation: number;
+  gradient: number; // 직전 샘플 대비 경사도 (%)
+  pointIndex: number; // 샘플 위치 직전의 geometry 인덱스
+}
+
+const ELEVATION_PROFILE_CONSTANTS = {
+  MAX_SAMPLES: 200, // 차트용 최대 샘플 수
+  MIN_SAMPLE_INTERVAL: 20, // 최소 샘플 간격 (미터)
+  SMOOTHING_WINDOW: 5, // 고도 이동평균 윈도우
+  MAX_GRADIENT: 25, // 고도 데이터 오차로 인한 비정상 경사도 상한 (%)
+  CLIMB_MIN_GRADE: 4, // 오르막으로 판단하는 최소 경사도 (%)
+  CLIMB_MIN_LENGTH: 100, // 오르막으로 표시할 최소 길이 (미터)
+} as const;
+
+/**
+ * ElevationProfileService
+ * - 자전거 구간 geometry의 고도값으로 거리별 고도 프로필 생성
+ * - 일정 경사도 이상이 이어지는 구간을 오르막 구간으로 표시
+ */
+@Injectable()
+export class ElevationProfileService {
+  constructor(private readonly routeUtil: RouteUtilService) {}
+
+  /**
+   * 경로의 자전거 구간에 고도 프로필 추가
+   */
+  attachElevationProfiles(route: RouteDto): RouteDto {
+    return {
+      ...route,
+      segments: route.segments.map((segment) => {
+        if (segment.type !== 'biking') return segment;
+        const elevationProfile = this.buildProfile(segment.geometry.points);
+        return elevationProfile ? { ...segment, elevationProfile } : segment;
+      }),
+    };
+  }
+
+  /**
+   * 경로의 자전거 구간별 고도 분석 결과 반환 (고도 정보가 없는 구간은 제외)
+   */
+  analyzeRoute(route: RouteDto): SegmentElevationProfileDto[] {
+    const results: SegmentElevationProfileDto[] = [];
+    (route.segments ?? []).forEach((segment: RouteSegmentDto, segmentIndex) => {
+      if (segment.type !== 'biking') return;
+      const profile = this.buildProfile(segment.geometry?.points ?? []);
+      if (profile) results.push({ segmentIndex, ...profile });
+    });
+    return results;
+  }
+
+  /**
+   * 좌표 배열([lng, lat, ele])로 고도 프로필 생성
+   * - 고도값이 없는 좌표가 있으면 undefined 반환 (예: OSRM 엔진)
+   */
+  buildProfile(points: number[][]): ElevationProfileDto | undefined {
+    if (points.length < 2 || points.some((p) => typeof p[2] !== 'number')) {
+      return undefined;
+    }
+
+    const cumulative: number[] = [0];
+    for (let i = 1; i < points.length; i++) {
+      cumulative.push(
+        cumulative[i - 1] +
+          this.routeUtil.calculateDistance(points[i - 1], points[i]),
+      );
+    }
+    const totalDistance = cumulative[cumulative.length - 1];
+    if (totalDistance <= 0) return undefined;
+
+    const elevations = this.routeUtil.smoothElevations(
+      points.map((p) => p[2]),
+      ELEVATION_PROFILE_CONSTANTS.SMOOTHING_WINDOW,
+    );
+    const sampleInterval = Math.max(
+      ELEVATION_PROFILE_CONSTANTS.MIN_SAMPLE_INTERVAL,
+      Math.ceil(totalDistance / ELEVATION_PROFILE_CONSTANTS.MAX_SAMPLES / 10) *
+        10,
+    );
+    const samples = this.sample(
+      cumulative,
+      elevations,
+      totalDistance,
+      sampleInterval,
+    );
+
+    return {
+      profile: samples.map((s) => [
+        Math.round(s.distance),
+        Math.round(s.elevation * 10) / 10,
+        Math.round(s.gradient * 10) / 10,
+      ]),
+      sampleInterval,
+      climbs: this.findClimbs(samples, points.length - 1),
+    };
+  }
+
+  /**
+   * 일정 거리 간격으로 고도를 선형 보간하여 샘플링
+   */
+  private sample(
+    cumulative: number[],
+    elevations: number[],
+    totalDistance: number,
+    interval: number,
+  ): ElevationSample[] {
+    const samples: ElevationSample[] = [];
+    let pointIndex = 0;
+
+    for (let distance = 0; ; distance += interval) {
+      const target = Math.min(distance, totalDistance);
+      while (
+        pointIndex < cumulative.length - 2 &&
+        cumulative[pointIndex + 1] < target
+      ) {
+        pointIndex++;
+      }
+
+      const span = cumulative[pointIndex + 1] - cumulative[pointIndex];
+      const ratio = span > 0 ? (target - cumulative[pointIndex]) / span : 0;
+      const elevation =
+        elevations[pointIndex] +
+        (elevations[pointIndex + 1] - elevations[pointIndex]) * ratio;
+
+      const previous = samples[samples.length - 1];
+      const gradient =
+        previous && target > previous.distance
+          ? ((elevation - previous.elevation) / (target - previous.distance)) *
+            100
+          : 0;
+      samples.push({
+        distance: target,
+        elevation,
+        gradient: Math.max(
+          Math.min(gradient, ELEVATION_PROFILE_CONSTANTS.MAX_GRADIENT),
+          -ELEVATION_PROFILE_CONSTANTS.MAX_GRADIENT,
+        ),
+        pointIndex,
+      });
+
+      if (target >= totalDistance) break;
+    }
+    return samples;
+  }
+
+  /**
+   * 기준 경사도 이상이 연속되는 샘플 구간을 오르막으로 묶기
+   */
+  private findClimbs(
+    samples: ElevationSample[],
+    lastPointIndex: number,
+  ): ClimbSectionDto[] {
+    const climbs: ClimbSectionDto[] = [];
+    let startIdx: number | null = null;
+
+    for (let i = 1; i <= samples.length; i++) {
+      const isClimbing =
+        i < samples.length &&
+        samples[i].gradient >= ELEVATION_PROFILE_CONSTANTS.CLIMB_MIN_GRADE;
+
+      if (isClimbing && startIdx === null) {
+        startIdx = i - 1;
+      } else if (!isClimbing && startIdx !== null) {
+        const climb = this.toClimbSection(
+          samples.slice(startIdx, i),
+          lastPointIndex,
+        );
+        if (climb) climbs.push(climb);
+        startIdx = null;
+      }
+    }
+    return climbs;
+  }
+
+  /**
+   * 샘플 묶음을 오르막 구간 DTO로 변환 (최소 길이 미만이면 null)
+   */
+  private toClimbSection(
+    section: ElevationSample[],
+    lastPointIndex: number,
+  ): ClimbSectionDto | null {
+    const first = section[0];
+    const last = section[section.length - 1];
+    const length = last.distance - first.distance;
+    if (length < ELEVATION_PROFILE_CONSTANTS.CLIMB_MIN_LENGTH) return null;
+
+    const elevationGain = last.elevation - first.elevation;
+    return {
+      startDistance: Math.round(first.distance),
+      endDistance: Math.round(last.distance),
+      length: Math.round(length),
+      elevationGain: Math.round(elevationGain),
+      averageGrade: Math.round((elevationGain / length) * 1000) / 10,
+      maxGrade:
+        Math.round(Math.max(...section.slice(1).map((s) => s.gradient)) * 10) /
+        10,
+      interval: [
+        first.pointIndex,
+        Math.min(last.pointIndex + 1, lastPointIndex),
+      ],
+    };
+  }
+}
@@ -0,0 +1,181 @@
+import { isAxiosError } from 'axios';
+import {
+  GraphHopperPath,
+  GraphHopperResponse,
+} from '../../interfaces/graphhopper.interface';
+import {
+  IsochroneGeometry,
+  RoundTripRequestOptions,
+  RouteRequestOptions,
+  RoutingEngine,
+  RoutingPoint,
+  SnappedRoutingPoint,
+} from '../../interfaces/routing-engine.interface';
+import { ResilientHttpClient } from './resilient-http.client';
+import { NoRouteFound, PointNotRoutable } from './routing-engine.errors';
+
+/**
+ * GraphHopper /isochrone 응답 (사용하는 필드만 정의)
+ */
+interface GraphHopperIsochroneResponse {
+  polygons: { geometry: IsochroneGeometry }[];
+}
+
+/**
+ * GraphHopper /nearest 응답
+ */
+interface GraphHopperNearestResponse {
+  coordinates: number[]; // [lng, lat]
+  distance: number;
+}
+
+/**
+ * GraphHopper 오류 응답 (4xx)
+ */
+interface GraphHopperErrorResponse {
+  message?: string;
+  hints?: { message?: string; details?: string; point_index?: number }[];
+}
+
+/**
+ * GraphHopper 예외 클래스명 → 오류 종류
+ */
+const POINT_NOT_ROUTABLE_EXCEPTIONS = [
+  'PointNotFoundException',
+  'PointOutOfBoundsException',
+];
+const NO_ROUTE_EXCEPTIONS = [
+  'ConnectionNotFoundException',
+  'MaximumNodesExceededException',
+];
+
+/**
+ * GraphHopperRoutingEngine
+ * - GraphHopper /route, /isochrone, /nearest API 어댑터
+ */
+export class GraphHopperRoutingEngine implements RoutingEngine {
+  private static readonly ROUTE_DETAILS = ['road_class', 'bike_network'];
+  readonly type = 'graphhopper' as const;
+
+  constructor(
+    private readonly httpClient: ResilientHttpClient,
+    private readonly baseUrl: string,
+  ) {}
+
+  async route(
+    points: RoutingPoint[],
+    profile: string,
+    options: RouteRequestOptions = {},
+  ): Promise<GraphHopperPath[]> {
+    const requestBody: Record<string, unknown> = {
+      ...this.buildBaseRequest(points, profile),
+    };
+    if (options.maxPaths && options.maxPaths > 1) {
+      requestBody['alternative_route.max_paths'] = options.maxPaths;
+    }
+    if (options.disableSpeedUp) {
+      requestBody['ch.disable'] = true;
+    }
+    return this.post(requestBody, profile);
+  }
+
+  async roundTrip(
+    start: RoutingPoint,
+    profile: string,
+    options: RoundTripRequestOptions,
+  ): Promise<GraphHopperPath[]> {
+    return this.post(
+      {
+        ...this.buildBaseRequest([start], profile),
+        algorithm: 'round_trip',
+        'ch.disable': true,
+        'round_trip.distance': options.distance,
+        'round_trip.seed': options.seed,
+        'round_trip.points': options.points,
+      },
+      profile,
+    );
+  }
+
+  async isochrone(
+    center: RoutingPoint,
+    profile: string,
+    timeLimitSeconds: number,
+  ): Promise<IsochroneGeometry> {
+    const response = await this.httpClient
+      .get<GraphHopperIsochroneResponse>(`${this.baseUrl}/isochrone`, {
+        params: {
+          point: `${center.lat},${center.lng}`,
+          profile,
+          time_limit: timeLimitSeconds,
+          buckets: 1,
+        },
+      })
+      .catch((error: unknown) => this.rethrowAsRoutingError(error));
+    const [polygon] = response.data.polygons ?? [];
+    if (!polygon) {
+      throw new Error('GraphHopper isochrone 응답에 폴리곤이 없습니다.');
+    }
+    return polygon.geometry;
+  }
+
+  /**
+   * GraphHopper /nearest는 프로필 구분 없이 가장 가까운 도로를 반환
+   */
+  async nearest(point: RoutingPoint): Promise<SnappedRoutingPoint> {
+    const response = await this.httpClient
+      .get<GraphHopperNearestResponse>(`${this.baseUrl}/nearest`, {
+        params: { point: `${point.lat},${point.lng}` },
+      })
+      .catch((error: unknown) => this.rethrowAsRoutingError(error));
+    const [lng, lat] = response.data.coordinates;
+    return { point: { lat, lng }, distance: response.data.distance };
+  }
+
+  /**
+   * 모든 요청에 공통으로 들어가는 요청 본문
+   */
+  private buildBaseRequest(points: RoutingPoint[], profile: string) {
+    return {
+      points: points.map((p) => [p.lng, p.lat]),
+      profile,
+      elevation: true,
+      points_encoded: false,
+      details: GraphHopperRoutingEngine.ROUTE_DETAILS,
+    };
+  }
+
+  private async post(
+    requestBody: Record<string, unknown>,
+    profile: string,
+  ): Promise<GraphHopperPath[]> {
+    const response = await this.httpClient
+      .post<GraphHopperResponse>(`${this.baseUrl}/route`, requestBody)
+      .catch((error: unknown) => this.rethrowAsRoutingError(error));
+    return (response.data.paths ?? []).map((path) => ({ ...path, profile }));
+  }
+
+  /**
+   * GraphHopper 4xx 응답의 예외 정보(hints.details)를 오류 타입으로 변환
+   * - 해석할 수 없는 오류는 그대로 전달
+   */
+  private rethrowAsRoutingError(error: unknown): never {
+    if (!isAxiosError<GraphHopperErrorResponse>(error) || !error.response) {
+      throw error;
+    }
+
+    const body = error.response.data ?? {};
+    for (const hint of body.hints ?? []) {
+      const details = hint.details ?? '';
+      if (
+        POINT_NOT_ROUTABLE_EXCEPTIONS.some((name) => details.endsWith(name))
+      ) {
+        throw new PointNotRoutable(hint.point_index);
+      }
+      if (NO_ROUTE_EXCEPTIONS.some((name) => details.endsWith(name))) {
+        throw new NoRouteFound();
+      }
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,314 @@
+import { NotImplementedException } from '@nestjs/common';
+import { isAxiosError } from 'axios';
+import {
+  GraphHopperInstruction,
+  GraphHopperPath,
+} from '../../interfaces/graphhopper.interface';
+import {
+  IsochroneGeometry,
+  RoundTripRequestOptions,
+  RouteRequestOptions,
+  RoutingEngine,
+  RoutingPoint,
+  SnappedRoutingPoint,
+} from '../../interfaces/routing-engine.interface';
+import { ResilientHttpClient } from './resilient-http.client';
+import { NoRouteFound, PointNotRoutable } from './routing-engine.errors';
+
+/**
+ * OSRM /route/v1 응답 (사용하는 필드만 정의)
+ */
+interface OsrmStep {
+  distance: number;
+  duration: number;
+  name: string;
+  geometry: { coordinates: number[][] };
+  maneuver: {
+    type: string;
+    modifier?: string;
+    exit?: number;
+  };
+}
+
+interface OsrmRoute {
+  distance: number;
+  duration: number;
+  geometry: { coordinates: number[][] };
+  legs: { steps: OsrmStep[] }[];
+}
+
+interface OsrmResponse {
+  code: string;
+  routes?: OsrmRoute[];
+}
+
+interface OsrmNearestResponse {
+  code: string;
+  waypoints?: { location: number[]; distance: number }[];
+}
+
+/**
+ * 서비스 프로필 → OSRM 프로필 매핑
+ */
+const OSRM_PROFILES: Record<string, string> = {
+  safe_bike: 'bike',
+  fast_bike: 'bike',
+  foot: 'foot',
+};
+
+/**
+ * OSRM maneuver modifier → GraphHopper sign 매핑
+ */
+const MODIFIER_TO_SIGN: Record<string, number> = {
+  uturn: -98,
+  'sharp left': -3,
+  left: -2,
+  'slight left': -1,
+  straight: 0,
+  'slight right': 1,
+  right: 2,
+  'sharp right': 3,
+};
+
+const ROAD_DETOUR_FACTOR = 1.3; // 직선 거리 대비 실제 도로 거리 보정값
+const EARTH_RADIUS = 6371e3;
+
+/**
+ * OsrmRoutingEngine
+ * - OSRM /route/v1 API 어댑터
+ * - OSRM은 고도/도로 상세 정보를 제공하지 않으므로 해당 값은 비워서 반환
+ * - 원형 경로 API가 없으므로 시드 기반으로 경유 포인트를 생성하여 순환 경로 요청
+ */
+export class OsrmRoutingEngine implements RoutingEngine {
+  readonly type = 'osrm' as const;
+
+  constructor(
+    private readonly httpClient: ResilientHttpClient,
+    private readonly baseUrl: string,
+  ) {}
+
+  async route(
+    points: RoutingPoint[],
+    profile: string,
+    options: RouteRequestOptions = {},
+  ): Promise<GraphHopperPath[]> {
+    const osrmProfile = OSRM_PROFILES[profile] ?? profile;
+    const coordinates = points.map((p) => `${p.lng},${p.lat}`).join(';');
+    const maxPaths = options.maxPaths ?? 1;
+
+    const response = await this.httpClient
+      .get<OsrmResponse>(
+        `${this.baseUrl}/route/v1/${osrmProfile}/${coordinates}`,
+        {
+          params: {
+            overview: 'full',
+            geometries: 'geojson',
+            steps: true,
+            alternatives: maxPaths > 1 ? maxPaths - 1 : false,
+          },
+        },
+      )
+      .catch((error: unknown) => {
+        // OSRM은 경로 없음/도로 없음도 4xx 본문의 code로 응답
+        if (isAxiosError<OsrmResponse>(error) && error.response?.data?.code) {
+          this.throwForCode(error.response.data.code);
+        }
+        throw error;
+      });
+
+    this.throwForCode(response.data.code);
+    if (response.data.code !== 'Ok' || !response.data.routes) {
+      return [];
+    }
+    return response.data.routes
+      .slice(0, maxPaths)
+      .map((route) => this.convertToPath(route, profile));
+  }
+
+  async roundTrip(
+    start: RoutingPoint,
+    profile: string,
+    options: RoundTripRequestOptions,
+  ): Promise<GraphHopperPath[]> {
+    const viaPoints = this.generateRoundTripPoints(start, options);
+    return this.route([start, ...viaPoints, start], profile);
+  }
+
+  async nearest(
+    point: RoutingPoint,
+    profile: string,
+  ): Promise<SnappedRoutingPoint> {
+    const osrmProfile = OSRM_PROFILES[profile] ?? profile;
+    const response = await this.httpClient
+      .get<OsrmNearestResponse>(
+        `${this.baseUrl}/nearest/v1/${osrmProfile}/${point.lng},${point.lat}`,
+        { params: { number: 1 } },
+      )
+      .catch((error: unknown) => {
+        if (
+          isAxiosError<OsrmNearestResponse>(error) &&
+          error.response?.data?.code
+        ) {
+          this.throwForCode(error.response.data.code);
+        }
+        throw error;
+      });
+
+    this.throwForCode(response.data.code);
+    const [waypoint] = response.data.waypoints ?? [];
+    if (!waypoint) {
+      throw new PointNotRoutable();
+    }
+    const [lng, lat] = waypoint.location;
+    return { point: { lat, lng }, distance: waypoint.distance };
+  }
+
+  /**
+   * OSRM은 등시선 API를 제공하지 않음 (컨트롤러에서 501로 응답)
+   */
+  isochrone(): Promise<IsochroneGeometry> {
+    return Promise.reject(
+      new NotImplementedException(
+        '현재 라우팅 엔진(OSRM)은 도달 가능 영역(등시선) 계산을 지원하지 않습니다.',
+      ),
+    );
+  }
+
+  /**
+   * OSRM 응답 코드 → 오류 타입 (NoSegment: 도로와 매칭 불가, NoRoute: 경로 없음)
+   * - 그 외 코드는 빈 결과로 처리
+   */
+  private throwForCode(code: string): void {
+    if (code === 'NoSegment') {
+      throw new PointNotRoutable();
+    }
+    if (code === 'NoRoute') {
+      throw new NoRouteFound();
+    }
+  }
+
+  /**
+   * 시드로 시작 방향을 정하고, 목표 거리에 맞는 원 위에 경유 포인트 생성
+   */
+  private generateRoundTripPoints(
+    start: RoutingPoint,
+    options: RoundTripRequestOptions,
+  ): RoutingPoint[] {
+    const random = this.createSeededRandom(options.seed);
+    const radius = options.distance / ROAD_DETOUR_FACTOR / (2 * Math.PI);
+    const heading = random() * 2 * Math.PI;
+    const center = this.offset(start, radius, heading);
+    const step = (2 * Math.PI) / (options.points + 1);
+
+    const points: RoutingPoint[] = [];
+    for (let i = 1; i <= options.points; i++) {
+      // 중심에서 시작점 반대 방향(heading + π)을 기준으로 회전
+      points.push(this.offset(center, radius, heading + Math.PI + step * i));
+    }
+    return points;
+  }
+
+  /**
+   * 기준 좌표에서 거리/방위각만큼 이동한 좌표
+   */
+  private offset(
+    origin: RoutingPoint,
+    distance: number,
+    bearing: number,
+  ): RoutingPoint {
+    const latRad = (origin.lat * Math.PI) / 180;
+    const dLat = (distance * Math.cos(bearing)) / EARTH_RADIUS;
+    const dLng =
+      (distance * Math.sin(bearing)) / (EARTH_RADIUS * Math.cos(latRad));
+    return {
+      lat: origin.lat + (dLat * 180) / Math.PI,
+      lng: origin.lng + (dLng * 180) / Math.PI,
+    };
+  }
+
+  /**
+   * 시드 기반 난수 생성기 (mulberry32)
+   */
+  private createSeededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  /**
+   * OSRM 경로를 GraphHopperPath 형태로 변환
+   */
+  private convertToPath(route: OsrmRoute, profile: string): GraphHopperPath {
+    const coordinates = route.geometry.coordinates;
+    const lngs = coordinates.map((c) => c[0]);
+    const lats = coordinates.map((c) => c[1]);
+
+    return {
+      distance: route.distance,
+      time: route.duration * 1000,
+      ascend: 0,
+      descend: 0,
+      points: { coordinates },
+      bbox: [
+        Math.min(...lngs),
+        Math.min(...lats),
+        Math.max(...lngs),
+        Math.max(...lats),
+      ],
+      instructions: this.convertToInstructions(route.legs),
+      profile,
+    };
+  }
+
+  /**
+   * OSRM step을 GraphHopper instruction 형태로 변환
+   * - interval은 전체 경로 좌표 기준 인덱스로 계산
+   */
+  private convertToInstructions(
+    legs: OsrmRoute['legs'],
+  ): GraphHopperInstruction[] {
+    const instructions: GraphHopperInstruction[] = [];
+    let pointIndex = 0;
+
+    legs.forEach((leg, legIdx) => {
+      const isLastLeg = legIdx === legs.length - 1;
+      for (const step of leg.steps) {
+        // 중간 구간의 출발 안내는 이전 구간 도착 안내와 중복되므로 제외
+        if (legIdx > 0 && step.maneuver.type === 'depart') continue;
+
+        const length = Math.max(step.geometry.coordinates.length - 1, 0);
+        instructions.push({
+          distance: step.distance,
+          time: step.duration * 1000,
+          text: step.name,
+          sign: this.convertToSign(step, isLastLeg),
+          interval: [pointIndex, pointIndex + length],
+          street_name: step.name || undefined,
+          exit_number: step.maneuver.exit,
+        });
+        pointIndex += length;
+      }
+    });
+    return instructions;
+  }
+
+  private convertToSign(step: OsrmStep, isLastLeg: boolean): number {
+    switch (step.maneuver.type) {
+      case 'arrive':
+        return isLastLeg ? 4 : 5;
+      case 'roundabout':
+      case 'rotary':
+        return 6;
+      case 'exit roundabout':
+      case 'exit rotary':
+        return -6;
+      default:
+        return MODIFIER_TO_SIGN[step.maneuver.modifier ?? 'straight'] ?? 0;
+    }
+  }
+}
@@ -0,0 +1,164 @@
+import { Logger } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { Observable, of, throwError } from 'rxjs';
+import {
+  ResilientHttpClient,
+  ResilientHttpOptions,
+} from './resilient-http.client';
+import { RoutingEngineUnavailable } from './routing-engine.errors';
+
+describe('ResilientHttpClient', () => {
+  const options: ResilientHttpOptions = {
+    timeoutMs: 1500,
+    maxRetries: 2,
+    retryBaseDelayMs: 0, // 재시도 대기 없이 즉시 다음 시도
+    retryMaxDelayMs: 0,
+    failureThreshold: 2,
+    openDurationMs: 30000,
+  };
+
+  let get: jest.Mock<Observable<AxiosResponse>, [string, unknown]>;
+  let client: ResilientHttpClient;
+  let now: number;
+
+  const ok = (): Observable<AxiosResponse> =>
+    of({ status: 200, data: { ok: true } } as AxiosResponse);
+
+  const httpError = (status?: number, code?: string) => () =>
+    throwError(
+      () =>
+        new AxiosError(
+          status ? `HTTP ${status}` : 'timeout of 1500ms exceeded',
+          code,
+          undefined,
+          undefined,
+          status
+            ? ({
+                status,
+                data: {},
+                config: {} as InternalAxiosRequestConfig,
+              } as AxiosResponse)
+            : undefined,
+        ),
+    );
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    get = jest.fn<Observable<AxiosResponse>, [string, unknown]>();
+    client = new ResilientHttpClient(
+      { get } as unknown as HttpService,
+      options,
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should pass the configured timeout to every request', async () => {
+    get.mockImplementation(ok);
+
+    await client.get('/route', { params: { a: 1 } });
+
+    expect(get).toHaveBeenCalledWith('/route', {
+      params: { a: 1 },
+      timeout: options.timeoutMs,
+    });
+  });
+
+  it('should retry timeouts up to maxRetries and then report unavailable', async () => {
+    get.mockImplementation(httpError(undefined, AxiosError.ECONNABORTED));
+
+    await expect(client.get('/route')).rejects.toBeInstanceOf(
+      RoutingEngineUnavailable,
+    );
+    expect(get).toHaveBeenCalledTimes(options.maxRetries + 1);
+  });
+
+  it('should recover when a retry succeeds', async () => {
+    get.mockImplementationOnce(httpError(503)).mockImplementationOnce(ok);
+
+    const response = await client.get('/route');
+
+    expect(response.status).toBe(200);
+    expect(get).toHaveBeenCalledTimes(2);
+    expect(client.getCircuitState()).toBe('closed');
+  });
+
+  it('should not retry 4xx responses and rethrow the original error', async () => {
+    get.mockImplementation(httpError(400));
+
+    await expect(client.get('/route')).rejects.toBeInstanceOf(AxiosError);
+    expect(get).toHaveBeenCalledTimes(1);
+    expect(client.getCircuitState()).toBe('closed');
+  });
+
+  it('should move closed → open → half-open → closed', async () => {
+    get.mockImplementation(httpError(502));
+    for (let i = 0; i < options.failureThreshold; i++) {
+      await expect(client.get('/route')).rejects.toBeInstanceOf(
+        RoutingEngineUnavailable,
+      );
+    }
+    expect(client.getCircuitState()).toBe('open');
+
+    // 열린 동안에는 엔진을 호출하지 않고 즉시 거부
+    get.mockClear();
+    await expect(client.get('/route')).rejects.toBeInstanceOf(
+      RoutingEngineUnavailable,
+    );
+    expect(get).not.toHaveBeenCalled();
+
+    // 대기 시간이 지나면 시험 요청 1개 허용, 성공 시 닫힘
+    now += options.openDurationMs;
+    get.mockImplementation(ok);
+    await client.get('/route');
+    expect(get).toHaveBeenCalledTimes(1);
+    expect(client.getCircuitState()).toBe('closed');
+  });
+
+  it('should reopen without retrying when the half-open probe fails', async () => {
+    get.mockImplementation(httpError(500));
+    for (let i = 0; i < options.failureThreshold; i++) {
+      await expect(client.get('/route')).rejects.toBeInstanceOf(
+        RoutingEngineUnavailable,
+      );
+    }
+
+    now += options.openDurationMs;
+    get.mockClear();
+    await expect(client.get('/route')).rejects.toBeInstanceOf(
+      RoutingEngineUnavailable,
+    );
+
+    expect(get).toHaveBeenCalledTimes(1);
+    expect(client.getCircuitState()).toBe('open');
+  });
+
+  it('should allow only one probe while half-open', async () => {
+    get.mockImplementation(httpError(500));
+    for (let i = 0; i < options.failureThreshold; i++) {
+      await expect(client.get('/route')).rejects.toBeInstanceOf(
+        RoutingEngineUnavailable,
+      );
+    }
+
+    now += options.openDurationMs;
+    get.mockClear();
+    get.mockImplementation(ok);
+    const probe = client.get('/route');
+    await expect(client.get('/route')).rejects.toBeInstanceOf(
+      RoutingEngineUnavailable,
+    );
+    await probe;
+
+    expect(get).toHaveBeenCalledTimes(1);
+    expect(client.getCircuitState()).toBe('closed');
+  });
+});
@@ -0,0 +1,196 @@
+import { Logger } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { AxiosRequestConfig, AxiosResponse, isAxiosError } from 'axios';
+import { Observable, firstValueFrom } from 'rxjs';
+import { RoutingEngineUnavailable } from './routing-engine.errors';
+
+/**
+ * 재시도/서킷 브레이커 설정
+ */
+export interface ResilientHttpOptions {
+  timeoutMs: number; // 요청 1회당 타임아웃
+  maxRetries: number; // 최초 요청 이후 추가 시도 횟수
+  retryBaseDelayMs: number; // 지수 백오프 기준 지연 (실제 지연은 0 ~ 기준 * 2^n 사이 임의 값)
+  retryMaxDelayMs: number;
+  failureThreshold: number; // 연속 실패가 이 횟수에 도달하면 서킷 열림
+  openDurationMs: number; // 서킷이 열린 뒤 시험 요청(half-open)을 허용하기까지 대기 시간
+}
+
+/**
+ * 서킷 브레이커 상태
+ * - closed: 정상 / open: 요청 즉시 거부 / half_open: 시험 요청 1개만 허용
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+const TOO_MANY_REQUESTS = 429;
+
+/**
+ * ResilientHttpClient
+ * - 라우팅 엔진 어댑터 공용 HTTP 클라이언트
+ * - 요청별 타임아웃, 지터가 적용된 지수 백오프 재시도, 서킷 브레이커 제공
+ * - 연결 실패/타임아웃/5xx는 재시도 후 RoutingEngineUnavailable로 변환
+ * - 4xx는 엔진이 정상 동작 중인 응답이므로 재시도 없이 원본 오류를 그대로 전달 (어댑터에서 해석)
+ */
+export class ResilientHttpClient {
+  private readonly logger = new Logger(ResilientHttpClient.name);
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private probeInFlight = false;
+
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly options: ResilientHttpOptions,
+  ) {}
+
+  getCircuitState(): CircuitState {
+    return this.state;
+  }
+
+  get<T>(url: string, config?: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    return this.execute(
+      (requestConfig) => this.httpService.get<T>(url, requestConfig),
+      config,
+    );
+  }
+
+  post<T>(
+    url: string,
+    body: unknown,
+    config?: AxiosRequestConfig,
+  ): Promise<AxiosResponse<T>> {
+    return this.execute(
+      (requestConfig) => this.httpService.post<T>(url, body, requestConfig),
+      config,
+    );
+  }
+
+  /**
+   * 서킷 상태 확인 → 요청 → 실패 시 재시도 (half-open 시험 요청은 재시도하지 않음)
+   */
+  private async execute<T>(
+    send: (config: AxiosRequestConfig) => Observable<AxiosResponse<T>>,
+    config: AxiosRequestConfig = {},
+  ): Promise<AxiosResponse<T>> {
+    const isProbe = this.acquirePermission();
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await firstValueFrom(
+          send({ ...config, timeout: this.options.timeoutMs }),
+        );
+        this.recordSuccess();
+        return response;
+      } catch (error: unknown) {
+        if (!this.isRetryable(error)) {
+          // 4xx 등 엔진이 응답한 오류는 서킷 상태에 성공으로 반영
+          if (isAxiosError(error) && error.response) {
+            this.recordSuccess();
+          } else {
+            this.probeInFlight = false;
+          }
+          throw error;
+        }
+        if (isProbe || attempt >= this.options.maxRetries) {
+          this.recordFailure();
+          this.logger.warn(
+            `라우팅 엔진 요청 실패 (${attempt + 1}회 시도) - ${this.describeError(error)}`,
+          );
+          throw new RoutingEngineUnavailable();
+        }
+        await this.delay(this.calculateBackoff(attempt));
+      }
+    }
+  }
+
+  /**
+   * 요청 허용 여부 확인, half-open 시험 요청이면 true
+   * - open 상태에서 대기 시간이 지나면 half-open으로 전환하고 요청 1개만 통과
+   */
+  private acquirePermission(): boolean {
+    if (
+      this.state === 'open' &&
+      Date.now() - this.openedAt >= this.options.openDurationMs
+    ) {
+      this.state = 'half_open';
+      this.logger.log('서킷 브레이커 half-open - 시험 요청 허용');
+    }
+
+    if (this.state === 'closed') {
+      return false;
+    }
+    if (this.state === 'half_open' && !this.probeInFlight) {
+      this.probeInFlight = true;
+      return true;
+    }
+    throw new RoutingEngineUnavailable(
+      '경로 탐색 서버 장애로 요청을 일시적으로 차단했습니다. 잠시 후 다시 시도해주세요.',
+    );
+  }
+
+  private recordSuccess(): void {
+    if (this.state !== 'closed') {
+      this.logger.log('서킷 브레이커 closed - 라우팅 엔진 응답 복구');
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.probeInFlight = false;
+  }
+
+  private recordFailure(): void {
+    this.consecutiveFailures++;
+    this.probeInFlight = false;
+    if (
+      this.state === 'half_open' ||
+      this.consecutiveFailures >= this.options.failureThreshold
+    ) {
+      if (this.state !== 'open') {
+        this.logger.error(
+          `서킷 브레이커 open - 연속 실패 ${this.consecutiveFailures}회, ${this.options.openDurationMs}ms 동안 요청 차단`,
+        );
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  /**
+   * 재시도 대상: 응답 없음(연결 실패, 타임아웃), 429, 5xx
+   */
+  private isRetryable(error: unknown): boolean {
+    if (!isAxiosError(error)) {
+      return false;
+    }
+    if (!error.response) {
+      return true;
+    }
+    return (
+      error.response.status === TOO_MANY_REQUESTS ||
+      error.response.status >= 500
+    );
+  }
+
+  /**
+   * Full jitter 지수 백오프: 0 ~ min(최대 지연, 기준 지연 * 2^attempt)
+   */
+  private calculateBackoff(attempt: number): number {
+    const cap = Math.min(
+      this.options.retryMaxDelayMs,
+      this.options.retryBaseDelayMs * 2 ** attempt,
+    );
+    return Math.random() * cap;
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
+  private describeError(error: unknown): string {
+    if (isAxiosError(error)) {
+      return error.response
+        ? `HTTP ${error.response.status}`
+        : (error.code ?? error.message);
+    }
+    return error instanceof Error ? error.message : String(error);
+  }
+}
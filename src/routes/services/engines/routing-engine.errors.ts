@@ -0,0 +1,47 @@
+/**
+ * 라우팅 엔진 호출 오류 공통 타입
+ * - 컨트롤러에서 응답 상태 코드(503/422)로 변환
+ */
+export abstract class RoutingEngineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * 라우팅 엔진에 연결할 수 없음 (타임아웃, 5xx, 서킷 브레이커 열림)
+ */
+export class RoutingEngineUnavailable extends RoutingEngineError {
+  constructor(
+    message: string = '경로 탐색 서버에 연결할 수 없습니다. 잠시 후 다시 시도해주세요.',
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * 두 지점을 잇는 경로가 없음 (도로망이 끊겨 있는 경우 등)
+ */
+export class NoRouteFound extends RoutingEngineError {
+  constructor(
+    message: string = '요청한 지점들을 잇는 경로를 찾을 수 없습니다.',
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * 도로에서 너무 멀거나 지도 범위를 벗어난 지점이 있어 경로 탐색 불가
+ * - pointIndex: 엔진 요청 좌표 중 문제가 된 지점의 순서 (알 수 있는 경우)
+ */
+export class PointNotRoutable extends RoutingEngineError {
+  constructor(
+    readonly pointIndex?: number,
+    message: string = pointIndex !== undefined
+      ? `${pointIndex + 1}번째 지점 근처에서 경로를 탐색할 수 있는 도로를 찾을 수 없습니다.`
+      : '경로를 탐색할 수 있는 도로에서 너무 먼 지점이 있습니다.',
+  ) {
+    super(message);
+  }
+}
@@ -0,0 +1,120 @@
+import { Logger, Provider } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import {
+  ROUTING_ENGINE,
+  RoutingEngine,
+  RoutingEngineType,
+} from '../../interfaces/routing-engine.interface';
+import { GraphHopperRoutingEngine } from './graphhopper-routing.engine';
+import { OsrmRoutingEngine } from './osrm-routing.engine';
+import {
+  ResilientHttpClient,
+  ResilientHttpOptions,
+} from './resilient-http.client';
+
+const DEFAULT_ENGINE: RoutingEngineType = 'graphhopper';
+const DEFAULT_BASE_URLS: Record<RoutingEngineType, string> = {
+  graphhopper: 'http://localhost:8989',
+  osrm: 'http://localhost:5000',
+};
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_CIRCUIT_FAILURE_THRESHOLD = 5;
+const DEFAULT_CIRCUIT_OPEN_SECONDS = 30;
+const RETRY_BASE_DELAY_MS = 200;
+const RETRY_MAX_DELAY_MS = 2000;
+
+/**
+ * 정수 환경변수 읽기
+ * - 값이 없거나 최소값 이상의 정수가 아니면 경고 후 기본값 사용 (NaN이 설정에 들어가지 않도록)
+ */
+function readIntegerOption(
+  configService: ConfigService,
+  logger: Logger,
+  key: string,
+  defaultValue: number,
+  min = 0,
+): number {
+  const raw = configService.get<string>(key);
+  if (raw === undefined || String(raw).trim() === '') {
+    return defaultValue;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min) {
+    logger.warn(
+      `${key} 값(${String(raw)})이 ${min} 이상의 정수가 아니므로 기본값 ${defaultValue}을 사용합니다.`,
+    );
+    return defaultValue;
+  }
+  return value;
+}
+
+/**
+ * 환경변수(ROUTING_ENGINE_TIMEOUT_MS, ROUTING_ENGINE_MAX_RETRIES,
+ * ROUTING_ENGINE_CIRCUIT_FAILURE_THRESHOLD, ROUTING_ENGINE_CIRCUIT_OPEN_SECONDS)로 HTTP 클라이언트 설정
+ * - 타임아웃과 서킷 실패 임계값은 0이면 의미가 없으므로 1 이상만 허용
+ */
+function loadResilienceOptions(
+  configService: ConfigService,
+  logger: Logger,
+): ResilientHttpOptions {
+  const read = (key: string, defaultValue: number, min = 0) =>
+    readIntegerOption(configService, logger, key, defaultValue, min);
+
+  return {
+    timeoutMs: read('ROUTING_ENGINE_TIMEOUT_MS', DEFAULT_TIMEOUT_MS, 1),
+    maxRetries: read('ROUTING_ENGINE_MAX_RETRIES', DEFAULT_MAX_RETRIES),
+    retryBaseDelayMs: RETRY_BASE_DELAY_MS,
+    retryMaxDelayMs: RETRY_MAX_DELAY_MS,
+    failureThreshold: read(
+      'ROUTING_ENGINE_CIRCUIT_FAILURE_THRESHOLD',
+      DEFAULT_CIRCUIT_FAILURE_THRESHOLD,
+      1,
+    ),
+    openDurationMs:
+      read(
+        'ROUTING_ENGINE_CIRCUIT_OPEN_SECONDS',
+        DEFAULT_CIRCUIT_OPEN_SECONDS,
+      ) * 1000,
+  };
+}
+
+/**
+ * 환경변수(ROUTING_ENGINE, ROUTING_ENGINE_URL)에 따라 라우팅 엔진 어댑터 생성
+ * - 어댑터는 타임아웃/재시도/서킷 브레이커가 적용된 HTTP 클라이언트를 사용
+ */
+export function createRoutingEngine(
+  httpService: HttpService,
+  configService: ConfigService,
+): RoutingEngine {
+  const logger = new Logger('RoutingEngineFactory');
+  const type =
+    configService.get<RoutingEngineType>('ROUTING_ENGINE') ?? DEFAULT_ENGINE;
+  const baseUrl =
+    configService.get<string>('ROUTING_ENGINE_URL') ??
+    DEFAULT_BASE_URLS[type] ??
+    DEFAULT_BASE_URLS[DEFAULT_ENGINE];
+
+  const resilienceOptions = loadResilienceOptions(configService, logger);
+
+  logger.log(
+    `라우팅 엔진 설정 - Engine: ${type}, URL: ${baseUrl}, Timeout: ${resilienceOptions.timeoutMs}ms, Retries: ${resilienceOptions.maxRetries}`,
+  );
+
+  const httpClient = new ResilientHttpClient(httpService, resilienceOptions);
+  switch (type) {
+    case 'osrm':
+      return new OsrmRoutingEngine(httpClient, baseUrl);
+    case 'graphhopper':
+      return new GraphHopperRoutingEngine(httpClient, baseUrl);
+    default:
+      throw new Error(`지원하지 않는 라우팅 엔진입니다: ${String(type)}`);
+  }
+}
+
+export const routingEngineProvider: Provider = {
+  provide: ROUTING_ENGINE,
+  inject: [HttpService, ConfigService],
+  useFactory: createRoutingEngine,
+};
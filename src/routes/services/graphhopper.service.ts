@@ -1,62 +1,78 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { HttpService } from '@nestjs/axios';
-import { firstValueFrom } from 'rxjs';
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { GraphHopperPath } from '../interfaces/graphhopper.interface';
+import { ROUTING_ENGINE } from '../interfaces/routing-engine.interface';
+import type {
+  IsochroneGeometry,
+  RoundTripRequestOptions,
+  RouteRequestOptions,
+  RoutingEngine,
+  RoutingPoint,
+  SnappedRoutingPoint,
+} from '../interfaces/routing-engine.interface';
+import { ROUTE_CACHE } from '../interfaces/route-cache.interface';
+import type {
+  RouteCache,
+  RouteCacheStats,
+} from '../interfaces/route-cache.interface';
 import {
-  GraphHopperPath,
-  GraphHopperResponse,
-} from '../interfaces/graphhopper.interface';
+  NoRouteFound,
+  RoutingEngineError,
+  RoutingEngineUnavailable,
+} from './engines/routing-engine.errors';
 
 /**
  * GraphHopperService
- * - GraphHopper API 연동 및 경로 데이터 반환
+ * - 라우팅 엔진(RoutingEngine) 호출 및 경로 데이터 반환
  * - 프로필/라운드트립/대안 경로 등 다양한 요청 지원
+ * - 실제 엔진(GraphHopper, OSRM 등)은 ROUTING_ENGINE 설정으로 선택
+ * - 엔진 응답은 프로필/스냅 좌표/옵션 기준으로 캐시하고, 진행 중인 동일 요청은 공유
+ * - 엔진 오류는 RoutingEngineUnavailable / NoRouteFound / PointNotRoutable로 전달
  */
 @Injectable()
 export class GraphHopperService {
-  private static readonly BASE_URL = 'http://localhost:8989';
   private static readonly PROFILES = ['safe_bike', 'fast_bike'] as const;
-  private static readonly ROUTE_DETAILS = ['road_class', 'bike_network'];
   private static readonly DEFAULT_ALT_PATHS = 3;
   private static readonly DEFAULT_ROUNDTRIP_POINTS = 2;
+  private static readonly MATRIX_CONCURRENCY = 6; // 행렬 계산 시 동시 요청 수
+  private static readonly CACHE_COORD_PRECISION = 5; // 소수점 5자리 (약 1m) 단위로 좌표 스냅
   private readonly logger = new Logger(GraphHopperService.name);
+  private readonly inFlightRequests = new Map<
+    string,
+    Promise<GraphHopperPath[]>
+  >();
 
-  constructor(private readonly httpService: HttpService) {}
+  constructor(
+    @Inject(ROUTING_ENGINE) private readonly routingEngine: RoutingEngine,
+    @Inject(ROUTE_CACHE) private readonly routeCache: RouteCache,
+  ) {}
 
   /**
-   * 단일 프로필로 GraphHopper 경로 요청
+   * 경로 캐시 통계 조회
+   */
+  getCacheStats(): RouteCacheStats {
+    return this.routeCache.getStats();
+  }
+
+  /**
+   * 단일 프로필로 경로 요청
    */
   async getSingleRoute(
     from: { lat: number; lng: number },
     to: { lat: number; lng: number },
     profile: string,
   ): Promise<GraphHopperPath> {
-    const requestBody = {
-      points: [
-        [from.lng, from.lat],
-        [to.lng, to.lat],
-      ],
-      profile,
-      elevation: true,
-      points_encoded: false,
-      details: GraphHopperService.ROUTE_DETAILS,
-    };
     try {
-      const response = await firstValueFrom(
-        this.httpService.post<GraphHopperResponse>(
-          `${GraphHopperService.BASE_URL}/route`,
-          requestBody,
-        ),
-      );
-      if (!response.data.paths?.length) {
+      const paths = await this.requestRoute([from, to], profile);
+      if (!paths.length) {
         this.logger.warn(
-          `GraphHopper API 응답에 경로가 없음 - Profile: ${profile}`,
+          `${this.routingEngine.type} 응답에 경로가 없음 - Profile: ${profile}`,
         );
-        throw new Error('No route found');
+        throw new NoRouteFound();
       }
-      return response.data.paths[0];
+      return paths[0];
     } catch (error: unknown) {
       this.logger.error(
-        `GraphHopper API 호출 실패 - Profile: ${profile}, From: [${from.lat}, ${from.lng}], To: [${to.lat}, ${to.lng}]`,
+        `${this.routingEngine.type} API 호출 실패 - Profile: ${profile}, From: [${from.lat}, ${from.lng}], To: [${to.lat}, ${to.lng}]`,
       );
       this.logger.debug(`에러 상세:`, error);
       throw error;
@@ -65,43 +81,29 @@ export class GraphHopperService {
 
   /**
    * 두 프로필(safe_bike, fast_bike)로 3개씩 경로 검색
+   * - 일부 프로필만 실패하면 성공한 프로필 경로만 반환
+   * - 엔진 연결 불가이거나 모든 프로필이 실패하면 오류 전달
    */
   async getMultipleRoutes(
     from: { lat: number; lng: number },
     to: { lat: number; lng: number },
   ): Promise<GraphHopperPath[]> {
     const allPaths: GraphHopperPath[] = [];
+    const errors: unknown[] = [];
     for (const profile of GraphHopperService.PROFILES) {
-      const requestBody = {
-        points: [
-          [from.lng, from.lat],
-          [to.lng, to.lat],
-        ],
-        profile,
-        elevation: true,
-        points_encoded: false,
-        details: GraphHopperService.ROUTE_DETAILS,
-        'alternative_route.max_paths': GraphHopperService.DEFAULT_ALT_PATHS,
-      };
       try {
-        const response = await firstValueFrom(
-          this.httpService.post<GraphHopperResponse>(
-            `${GraphHopperService.BASE_URL}/route`,
-            requestBody,
-          ),
-        );
-        for (const path of response.data.paths) {
-          path.profile = profile;
-          allPaths.push(path);
-        }
+        const paths = await this.requestRoute([from, to], profile, {
+          maxPaths: GraphHopperService.DEFAULT_ALT_PATHS,
+        });
+        allPaths.push(...paths);
       } catch (error: unknown) {
-        this.logger.error(
-          `GraphHopper 프로필별 경로 검색 실패 - Profile: ${profile}`,
-        );
+        this.logger.error(`프로필별 경로 검색 실패 - Profile: ${profile}`);
         this.logger.debug(`에러 상세:`, error);
+        if (error instanceof RoutingEngineUnavailable) throw error;
+        errors.push(error);
       }
     }
-    return allPaths;
+    return this.resolveProfileResults(allPaths, errors);
   }
 
   /**
@@ -113,87 +115,124 @@ export class GraphHopperService {
     profile: string,
     maxPaths: number = GraphHopperService.DEFAULT_ALT_PATHS,
   ): Promise<GraphHopperPath[]> {
-    const requestBody = {
-      points: [
-        [from.lng, from.lat],
-        [to.lng, to.lat],
-      ],
-      profile,
-      elevation: true,
-      points_encoded: false,
-      details: GraphHopperService.ROUTE_DETAILS,
-      'alternative_route.max_paths': maxPaths,
-      'ch.disable': true,
-    };
     try {
-      const response = await firstValueFrom(
-        this.httpService.post<GraphHopperResponse>(
-          `${GraphHopperService.BASE_URL}/route`,
-          requestBody,
-        ),
-      );
-      if (!response.data.paths?.length) {
-        this.logger.warn(
-          `GraphHopper 대안 경로 검색 결과 없음 - Profile: ${profile}`,
-        );
-        throw new Error('No route found');
+      const paths = await this.requestRoute([from, to], profile, {
+        maxPaths,
+        disableSpeedUp: true,
+      });
+      if (!paths.length) {
+        this.logger.warn(`대안 경로 검색 결과 없음 - Profile: ${profile}`);
+        throw new NoRouteFound();
       }
-      return response.data.paths.map((path) => ({ ...path, profile }));
+      return paths;
     } catch (error: unknown) {
       this.logger.error(
-        `GraphHopper 대안 경로 검색 실패 - Profile: ${profile}, From: [${from.lat}, ${from.lng}], To: [${to.lat}, ${to.lng}]`,
+        `대안 경로 검색 실패 - Profile: ${profile}, From: [${from.lat}, ${from.lng}], To: [${to.lat}, ${to.lng}]`,
       );
       this.logger.debug(`에러 상세:`, error);
+      if (error instanceof RoutingEngineError) throw error;
       throw new Error(
         `Failed to get routes: ${error instanceof Error ? error.message : 'Unknown error'}`,
       );
     }
   }
 
+  /**
+   * 지점 간 소요 시간 행렬 (밀리초)
+   * - 모든 지점 쌍에 대해 단일 경로를 요청 (캐시 공유, 동시 요청 수 제한)
+   * - 경로를 찾지 못한 쌍은 Infinity
+   */
+  async getTimeMatrix(
+    points: { lat: number; lng: number }[],
+    profile: string,
+  ): Promise<number[][]> {
+    const pairs: { from: RoutingPoint; to: RoutingPoint }[] = [];
+    points.forEach((from, i) =>
+      points.forEach((to, j) => {
+        if (i !== j) pairs.push({ from, to });
+      }),
+    );
+    const results = await this.getPairRoutes(pairs, profile);
+
+    let pairIdx = 0;
+    return points.map((_, i) =>
+      points.map((__, j) => {
+        if (i === j) return 0;
+        return results[pairIdx++]?.time ?? Infinity;
+      }),
+    );
+  }
+
+  /**
+   * 지점 쌍 목록의 거리(미터)/시간(밀리초) 일괄 계산
+   * - MATRIX_CONCURRENCY개씩 나눠서 요청, 경로를 찾지 못한 쌍은 null
+   * - 엔진 연결 불가 시에는 null로 채우지 않고 오류 전달
+   */
+  async getPairRoutes(
+    pairs: { from: RoutingPoint; to: RoutingPoint }[],
+    profile: string,
+  ): Promise<({ distance: number; time: number } | null)[]> {
+    const results: ({ distance: number; time: number } | null)[] = [];
+    for (
+      let offset = 0;
+      offset < pairs.length;
+      offset += GraphHopperService.MATRIX_CONCURRENCY
+    ) {
+      const batch = pairs.slice(
+        offset,
+        offset + GraphHopperService.MATRIX_CONCURRENCY,
+      );
+      const settled = await Promise.allSettled(
+        batch.map(({ from, to }) => this.getSingleRoute(from, to, profile)),
+      );
+      for (const result of settled) {
+        if (
+          result.status === 'rejected' &&
+          result.reason instanceof RoutingEngineUnavailable
+        ) {
+          throw result.reason;
+        }
+        results.push(
+          result.status === 'fulfilled'
+            ? { distance: result.value.distance, time: result.value.time }
+            : null,
+        );
+      }
+    }
+    return results;
+  }
+
   /**
    * 원형 경로(Round Trip) - 두 프로필로 요청
+   * - 같은 시드/프로필/거리/출발지면 같은 경로가 생성됨 (경로 공유/재생성용)
+   * - 실패 처리는 getMultipleRoutes와 동일
    */
   async getRoundTripRoutes(
     start: { lat: number; lng: number },
     targetDistance: number,
+    seed: number,
   ): Promise<GraphHopperPath[]> {
     const allPaths: GraphHopperPath[] = [];
+    const errors: unknown[] = [];
     for (const profile of GraphHopperService.PROFILES) {
-      const seed = Math.floor(Math.random() * 1000);
-      const requestBody = {
-        points: [[start.lng, start.lat]],
-        profile,
-        elevation: true,
-        points_encoded: false,
-        details: GraphHopperService.ROUTE_DETAILS,
-        algorithm: 'round_trip',
-        'ch.disable': true,
-        'round_trip.distance': targetDistance,
-        'round_trip.seed': seed,
-        'round_trip.points': GraphHopperService.DEFAULT_ROUNDTRIP_POINTS,
-      };
       try {
-        const response = await firstValueFrom(
-          this.httpService.post<GraphHopperResponse>(
-            `${GraphHopperService.BASE_URL}/route`,
-            requestBody,
-          ),
-        );
-        for (const path of response.data.paths) {
-          path.profile = profile;
-          allPaths.push(path);
-        }
+        const paths = await this.requestRoundTrip(start, profile, {
+          distance: targetDistance,
+          seed,
+          points: GraphHopperService.DEFAULT_ROUNDTRIP_POINTS,
+        });
+        allPaths.push(...paths);
       } catch (error: unknown) {
         this.logger.error(
-          `GraphHopper 원형 경로 검색 실패 - Profile: ${profile}, Distance: ${targetDistance}m`,
+          `원형 경로 검색 실패 - Profile: ${profile}, Distance: ${targetDistance}m`,
         );
         this.logger.debug(`에러 상세:`, error);
+        if (error instanceof RoutingEngineUnavailable) throw error;
+        errors.push(error);
       }
     }
-    this.logger.debug(
-      `GraphHopper 원형 경로 검색 완료 - 총 경로 수: ${allPaths.length}`,
-    );
-    return allPaths;
+    this.logger.debug(`원형 경로 검색 완료 - 총 경로 수: ${allPaths.length}`);
+    return this.resolveProfileResults(allPaths, errors);
   }
 
   /**
@@ -203,40 +242,179 @@ export class GraphHopperService {
     start: { lat: number; lng: number },
     profile: string,
     targetDistance: number,
+    seed: number,
   ): Promise<GraphHopperPath> {
-    const seed = Math.floor(Math.random() * 1000);
-    const requestBody = {
-      points: [[start.lng, start.lat]],
-      profile,
-      elevation: true,
-      points_encoded: false,
-      details: GraphHopperService.ROUTE_DETAILS,
-      algorithm: 'round_trip',
-      'ch.disable': true,
-      'round_trip.distance': targetDistance,
-      'round_trip.seed': seed,
-      'round_trip.points': GraphHopperService.DEFAULT_ROUNDTRIP_POINTS,
-    };
     try {
-      const response = await firstValueFrom(
-        this.httpService.post<GraphHopperResponse>(
-          `${GraphHopperService.BASE_URL}/route`,
-          requestBody,
-        ),
-      );
-      if (!response.data.paths?.length) {
-        this.logger.warn(
-          `GraphHopper 단일 원형 경로 검색 결과 없음 - Profile: ${profile}`,
-        );
-        throw new Error('No round trip route found');
+      const paths = await this.requestRoundTrip(start, profile, {
+        distance: targetDistance,
+        seed,
+        points: GraphHopperService.DEFAULT_ROUNDTRIP_POINTS,
+      });
+      if (!paths.length) {
+        this.logger.warn(`단일 원형 경로 검색 결과 없음 - Profile: ${profile}`);
+        throw new NoRouteFound('출발지에서 원형 경로를 찾을 수 없습니다.');
       }
-      return response.data.paths[0];
+      return paths[0];
     } catch (error: unknown) {
       this.logger.error(
-        `GraphHopper 단일 원형 경로 검색 실패 - Profile: ${profile}, Distance: ${targetDistance}m`,
+        `단일 원형 경로 검색 실패 - Profile: ${profile}, Distance: ${targetDistance}m, Seed: ${seed}`,
       );
       this.logger.debug(`에러 상세:`, error);
       throw error;
     }
   }
+
+  /**
+   * 등시선(도달 가능 영역) - 시간 예산(분)별로 요청
+   */
+  async getIsochrones(
+    center: { lat: number; lng: number },
+    profile: string,
+    minutesList: number[],
+  ): Promise<{ minutes: number; geometry: IsochroneGeometry }[]> {
+    try {
+      return await Promise.all(
+        minutesList.map(async (minutes) => ({
+          minutes,
+          geometry: await this.routingEngine.isochrone(
+            center,
+            profile,
+            minutes * 60,
+          ),
+        })),
+      );
+    } catch (error: unknown) {
+      this.logger.error(
+        `${this.routingEngine.type} 등시선 요청 실패 - Profile: ${profile}, Center: [${center.lat}, ${center.lng}], Minutes: ${minutesList.join(',')}`,
+      );
+      this.logger.debug(`에러 상세:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * 가장 가까운 경로 탐색 가능 도로 위 지점 (스냅)
+   */
+  async getNearestPoint(
+    point: { lat: number; lng: number },
+    profile: string,
+  ): Promise<SnappedRoutingPoint> {
+    try {
+      return await this.routingEngine.nearest(point, profile);
+    } catch (error: unknown) {
+      this.logger.error(
+        `${this.routingEngine.type} 도로 스냅 요청 실패 - Profile: ${profile}, Point: [${point.lat}, ${point.lng}]`,
+      );
+      this.logger.debug(`에러 상세:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * 프로필별 검색 결과 정리 - 모든 프로필이 실패했으면 첫 번째 오류 전달
+   */
+  private resolveProfileResults(
+    paths: GraphHopperPath[],
+    errors: unknown[],
+  ): GraphHopperPath[] {
+    if (
+      paths.length === 0 &&
+      errors.length === GraphHopperService.PROFILES.length
+    ) {
+      throw errors[0];
+    }
+    return paths;
+  }
+
+  // ============================================
+  // 캐시 처리 (Private)
+  // ============================================
+
+  /**
+   * 캐시를 거쳐 일반 경로 요청
+   */
+  private requestRoute(
+    points: RoutingPoint[],
+    profile: string,
+    options?: RouteRequestOptions,
+  ): Promise<GraphHopperPath[]> {
+    const key = this.buildCacheKey('route', points, profile, options);
+    return this.withCache(key, () =>
+      this.routingEngine.route(points, profile, options),
+    );
+  }
+
+  /**
+   * 캐시를 거쳐 원형 경로 요청 (seed가 키에 포함되므로 같은 seed만 공유)
+   */
+  private async requestRoundTrip(
+    start: RoutingPoint,
+    profile: string,
+    options: RoundTripRequestOptions,
+  ): Promise<GraphHopperPath[]> {
+    const key = this.buildCacheKey('round_trip', [start], profile, options);
+    const paths = await this.withCache(key, () =>
+      this.routingEngine.roundTrip(start, profile, options),
+    );
+    return paths.map((path) => ({ ...path, seed: options.seed }));
+  }
+
+  /**
+   * 캐시 조회 → 진행 중 요청 공유 → 엔진 호출 순으로 처리
+   * - 빈 결과와 실패한 요청은 캐시하지 않음
+   * - 호출자가 경로 객체를 수정해도 캐시가 오염되지 않도록 복사본 반환
+   */
+  private async withCache(
+    key: string,
+    request: () => Promise<GraphHopperPath[]>,
+  ): Promise<GraphHopperPath[]> {
+    const cached = this.routeCache.get(key);
+    if (cached) {
+      return this.clonePaths(cached);
+    }
+
+    let pending = this.inFlightRequests.get(key);
+    if (pending) {
+      this.routeCache.recordInFlightHit();
+    } else {
+      pending = request()
+        .then((paths) => {
+          if (paths.length) this.routeCache.set(key, paths);
+          return paths;
+        })
+        .finally(() => this.inFlightRequests.delete(key));
+      this.inFlightRequests.set(key, pending);
+    }
+
+    return this.clonePaths(await pending);
+  }
+
+  /**
+   * 캐시 키 생성 (엔진/요청 종류/프로필/스냅 좌표/옵션)
+   */
+  private buildCacheKey(
+    kind: 'route' | 'round_trip',
+    points: RoutingPoint[],
+    profile: string,
+    options?: RouteRequestOptions | RoundTripRequestOptions,
+  ): string {
+    const precision = GraphHopperService.CACHE_COORD_PRECISION;
+    const snapped = points
+      .map(
+        (point) =>
+          `${point.lat.toFixed(precision)},${point.lng.toFixed(precision)}`,
+      )
+      .join(';');
+    return [
+      this.routingEngine.type,
+      kind,
+      profile,
+      snapped,
+      JSON.stringify(options ?? {}),
+    ].join('|');
+  }
+
+  private clonePaths(paths: GraphHopperPath[]): GraphHopperPath[] {
+    return paths.map((path) => ({ ...path }));
+  }
 }
@@ -0,0 +1,148 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import {
+  CoordinateDto,
+  IsochroneBandDto,
+  IsochroneProfile,
+  IsochroneRequestDto,
+  IsochroneResponseDto,
+  RouteStationDto,
+} from '../dto/route.dto';
+import { IsochroneGeometry } from '../interfaces/routing-engine.interface';
+import { GraphHopperService } from './graphhopper.service';
+import { RouteUtilService } from './route-util.service';
+import { StationRouteService } from './station-route.service';
+
+const DEFAULT_TIME_BUDGETS = [10, 20, 30]; // 분
+const DEFAULT_PROFILE = IsochroneProfile.SAFE_BIKE;
+
+/**
+ * IsochroneService
+ * - 기준 대여소/좌표에서 시간 예산별로 도달 가능한 영역(등시선) 계산
+ * - 각 영역에 포함되는 대여소 목록을 함께 반환 (이용권 시간 내 반납 가능 대여소 표시용)
+ */
+@Injectable()
+export class IsochroneService {
+  private readonly logger = new Logger(IsochroneService.name);
+
+  constructor(
+    private readonly graphHopperService: GraphHopperService,
+    private readonly stationRouteService: StationRouteService,
+    private readonly routeUtil: RouteUtilService,
+  ) {}
+
+  /**
+   * 시간 예산별 도달 가능 영역과 영역 내 대여소 조회
+   */
+  async findReachableAreas(
+    request: IsochroneRequestDto,
+  ): Promise<IsochroneResponseDto> {
+    const { center, station } = await this.resolveCenter(request);
+    const profile = request.profile ?? DEFAULT_PROFILE;
+    const timeBudgets = [
+      ...new Set(
+        request.timeBudgets?.length
+          ? request.timeBudgets
+          : DEFAULT_TIME_BUDGETS,
+      ),
+    ].sort((a, b) => a - b);
+
+    const isochrones = await this.graphHopperService.getIsochrones(
+      center,
+      profile,
+      timeBudgets,
+    );
+
+    // 가장 넓은 영역을 덮는 반경으로 후보 대여소를 한 번에 조회
+    const searchRadius = Math.max(
+      ...isochrones.map(({ geometry }) =>
+        this.calculateMaxRadius(center, geometry),
+      ),
+    );
+    const candidates = await this.stationRouteService.findStationsWithinRadius(
+      center,
+      Math.ceil(searchRadius),
+    );
+
+    const bands: IsochroneBandDto[] = isochrones.map(
+      ({ minutes, geometry }) => ({
+        minutes,
+        polygon: {
+          type: 'Feature',
+          geometry,
+          properties: { minutes },
+        },
+        stations: candidates.filter((candidate) =>
+          this.containsPoint(geometry, [candidate.lng, candidate.lat]),
+        ),
+      }),
+    );
+
+    this.logger.debug(
+      `등시선 계산 완료 - 프로필: ${profile}, 시간: ${timeBudgets.join('/')}분, 후보 대여소: ${candidates.length}개`,
+    );
+
+    return { center, station, profile, bands };
+  }
+
+  /**
+   * 기준점 결정 (대여소 번호 우선, 없으면 좌표)
+   */
+  private async resolveCenter(
+    request: IsochroneRequestDto,
+  ): Promise<{ center: CoordinateDto; station?: RouteStationDto }> {
+    if (request.stationNumber) {
+      const station = await this.stationRouteService.findStationByNumber(
+        request.stationNumber,
+      );
+      if (!station) {
+        throw new NotFoundException(
+          `대여소를 찾을 수 없습니다. 대여소 번호: ${request.stationNumber}`,
+        );
+      }
+      return { center: { lat: station.lat, lng: station.lng }, station };
+    }
+
+    if (!request.coordinate) {
+      throw new Error('stationNumber 또는 coordinate 중 하나가 필요합니다.');
+    }
+    return { center: request.coordinate };
+  }
+
+  /**
+   * 기준점에서 폴리곤 꼭짓점까지의 최대 거리 (미터)
+   */
+  private calculateMaxRadius(
+    center: CoordinateDto,
+    geometry: IsochroneGeometry,
+  ): number {
+    const origin = [center.lng, center.lat];
+    return this.getPolygons(geometry)
+      .flatMap((rings) => rings[0] ?? [])
+      .reduce(
+        (max, vertex) =>
+          Math.max(max, this.routeUtil.calculateDistance(origin, vertex)),
+        0,
+      );
+  }
+
+  /**
+   * 좌표가 폴리곤 내부에 있는지 확인 (외곽 링 내부 + 구멍 외부)
+   */
+  private containsPoint(geometry: IsochroneGeometry, point: number[]): boolean {
+    return this.getPolygons(geometry).some(
+      ([outer, ...holes]) =>
+        !!outer &&
+        this.routeUtil.isPointInRing(outer, point) &&
+        !holes.some((hole) => this.routeUtil.isPointInRing(hole, point)),
+    );
+  }
+
+  /**
+   * Polygon / MultiPolygon을 폴리곤(링 배열) 목록으로 통일
+   */
+  private getPolygons(geometry: IsochroneGeometry): number[][][][] {
+    return geometry.type === 'MultiPolygon'
+      ? (geometry.coordinates as number[][][][])
+      : [geometry.coordinates as number[][][]];
+  }
+}
@@ -0,0 +1,190 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import {
+  MultimodalRouteRequestDto,
+  RouteDto,
+  RouteSegmentDto,
+  RouteStationDto,
+} from '../dto/route.dto';
+import { TransitLegDto, TransitStopDto } from '../../transit/dto/transit.dto';
+import { GtfsStop, TransitRide } from '../../transit/interfaces/gtfs.interface';
+import { TransitRouterService } from '../../transit/services/transit-router.service';
+import { GraphHopperService } from './graphhopper.service';
+import { RouteConverterService } from './route-converter.service';
+import { RouteBuilderService } from './route-builder.service';
+import { StationScoringService } from './station-scoring.service';
+import { RoutingEngineUnavailable } from './engines/routing-engine.errors';
+
+const MULTIMODAL_CONSTANTS = {
+  DEFAULT_ROUTE_COUNT: 3,
+  CATEGORY: '대중교통 연계 경로',
+  ACCESS_BIKE_PROFILE: 'safe_bike',
+} as const;
+
+/**
+ * 정류장 접근 구간 (도보만 또는 도보-자전거-도보)
+ */
+interface AccessLeg {
+  segments: RouteSegmentDto[];
+  startStation?: RouteStationDto;
+  endStation?: RouteStationDto;
+}
+
+/**
+ * MultimodalJourneyService
+ * - 대중교통 연계 경로: 출발지 → (도보/따릉이) → 승차 정류장 → 대중교통 → 하차 정류장 → (도보/따릉이) → 목적지
+ * - 정류장 접근 구간은 TransitRouterService가 정한 수단(도보/따릉이)으로 GraphHopper 경로 계산
+ * - 따릉이 접근 구간은 구간마다 별도 대여/반납 (대중교통 탑승 전 반납)
+ */
+@Injectable()
+export class MultimodalJourneyService {
+  private readonly logger = new Logger(MultimodalJourneyService.name);
+
+  constructor(
+    private readonly transitRouterService: TransitRouterService,
+    private readonly stationScoringService: StationScoringService,
+    private readonly graphHopperService: GraphHopperService,
+    private readonly routeConverter: RouteConverterService,
+    private readonly routeBuilder: RouteBuilderService,
+  ) {}
+
+  /**
+   * 대중교통 연계 경로 검색 (노선별 1개, 예상 소요 시간순)
+   */
+  async findJourneys(request: MultimodalRouteRequestDto): Promise<RouteDto[]> {
+    const rides = this.transitRouterService.findRides(
+      request.start,
+      request.end,
+      request.maxRoutes ?? MULTIMODAL_CONSTANTS.DEFAULT_ROUTE_COUNT,
+      request.transitModes,
+    );
+    if (rides.length === 0) {
+      throw new NotFoundException(
+        '출발지와 목적지 근처를 잇는 대중교통 노선을 찾을 수 없습니다.',
+      );
+    }
+
+    const routes: RouteDto[] = [];
+    for (const ride of rides) {
+      try {
+        routes.push(await this.buildJourney(request, ride));
+      } catch (error) {
+        if (error instanceof RoutingEngineUnavailable) throw error;
+        this.logger.warn(
+          `대중교통 연계 경로 구성 실패 - 노선: ${ride.pattern.route.name}, 승차: ${ride.boardStop.name}, 하차: ${ride.alightStop.name}`,
+        );
+        this.logger.debug(`에러 상세:`, error);
+      }
+    }
+    if (routes.length === 0) {
+      throw new NotFoundException(
+        '대중교통 정류장까지의 도보/자전거 경로를 계산할 수 없습니다.',
+      );
+    }
+
+    this.logger.debug(
+      `대중교통 연계 경로 검색 완료 - 후보 노선 ${rides.length}개, 경로 ${routes.length}개 생성`,
+    );
+    return routes.sort((a, b) => a.summary.time - b.summary.time);
+  }
+
+  /**
+   * 탑승 후보 하나로 전체 경로 구성
+   */
+  private async buildJourney(
+    request: MultimodalRouteRequestDto,
+    ride: TransitRide,
+  ): Promise<RouteDto> {
+    const [access, egress] = await Promise.all([
+      this.buildAccessLeg(request.start, ride.boardStop, ride.accessMode),
+      this.buildAccessLeg(ride.alightStop, request.end, ride.egressMode),
+    ]);
+
+    const transit = this.buildTransitLeg(ride);
+    const segments = [
+      ...access.segments,
+      this.routeConverter.buildTransitSegment(transit),
+      ...egress.segments,
+    ];
+
+    return {
+      routeCategory: `${MULTIMODAL_CONSTANTS.CATEGORY} (${transit.lineName})`,
+      categoryReason: `${transit.boardStop.name}에서 ${transit.lineName} 승차 후 ${transit.stops.length - 1}개 정류장 이동, ${transit.alightStop.name}에서 하차`,
+      summary: this.routeConverter.buildSummaryFromSegments(segments),
+      bbox: this.routeBuilder.calculateBoundingBox(segments),
+      startStation: access.startStation ?? egress.startStation,
+      endStation: egress.endStation ?? access.endStation,
+      segments,
+    };
+  }
+
+  /**
+   * 정류장 접근 구간 계산
+   * - walking: 도보 경로 1개
+   * - biking: 점수 기반 대여소 쌍을 골라 도보-자전거-도보 경로
+   */
+  private async buildAccessLeg(
+    from: { lat: number; lng: number },
+    to: { lat: number; lng: number },
+    mode: TransitRide['accessMode'],
+  ): Promise<AccessLeg> {
+    if (mode === 'walking') {
+      const path = await this.graphHopperService.getSingleRoute(
+        from,
+        to,
+        'foot',
+      );
+      return { segments: [this.routeConverter.buildSegment('walking', path)] };
+    }
+
+    const [pair] = await this.stationScoringService.findBestStationPairs(
+      from,
+      to,
+    );
+    const bikePath = await this.graphHopperService.getSingleRoute(
+      pair.startStation,
+      pair.endStation,
+      MULTIMODAL_CONSTANTS.ACCESS_BIKE_PROFILE,
+    );
+    const route = this.routeConverter.buildRouteFromGraphHopper(
+      pair.walkingToStart,
+      bikePath,
+      pair.walkingFromEnd,
+      pair.startStation,
+      pair.endStation,
+    );
+    return {
+      segments: route.segments,
+      startStation: pair.startStation,
+      endStation: pair.endStation,
+    };
+  }
+
+  /**
+   * 탑승 후보 → 대중교통 구간 상세
+   */
+  private buildTransitLeg(ride: TransitRide): TransitLegDto {
+    const { route, headsign } = ride.pattern;
+    return {
+      mode: route.mode,
+      lineName: route.name,
+      lineColor: route.color,
+      headsign,
+      boardStop: this.toStopDto(ride.boardStop),
+      alightStop: this.toStopDto(ride.alightStop),
+      stops: this.transitRouterService
+        .getRideStops(ride)
+        .map((stop) => this.toStopDto(stop)),
+      waitTime: ride.waitTime,
+      rideTime: ride.rideTime,
+    };
+  }
+
+  private toStopDto(stop: GtfsStop): TransitStopDto {
+    return {
+      stopId: stop.stopId,
+      name: stop.name,
+      lat: stop.lat,
+      lng: stop.lng,
+    };
+  }
+}
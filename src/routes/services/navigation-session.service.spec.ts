@@ -0,0 +1,248 @@
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { NavigationStatus } from '../dto/navigation.dto';
+import { RouteDto, RouteSegmentDto } from '../dto/route.dto';
+import { GraphHopperPath } from '../interfaces/graphhopper.interface';
+import { GraphHopperService } from './graphhopper.service';
+import { NavigationSessionService } from './navigation-session.service';
+import { PolylineService } from './polyline.service';
+import { RouteBuilderService } from './route-builder.service';
+import { RouteConverterService } from './route-converter.service';
+import { RouteUtilService } from './route-util.service';
+
+// 위도 37.5에서 동쪽으로 약 885m 직선 (경도 0.001 간격)
+const LAT = 37.5;
+const linePoints = (): number[][] =>
+  Array.from({ length: 11 }, (_, i) => [127 + i * 0.001, LAT]);
+
+const bikeSegment = (): RouteSegmentDto =>
+  ({
+    type: 'biking',
+    summary: { distance: 885, time: 300, ascent: 0, descent: 0 },
+    bbox: { minLat: LAT, minLng: 127, maxLat: LAT, maxLng: 127.01 },
+    geometry: { points: linePoints() },
+  }) as RouteSegmentDto;
+
+const route = (segments: RouteSegmentDto[] = [bikeSegment()]): RouteDto =>
+  ({
+    summary: { distance: 885, time: 300, ascent: 0, descent: 0 },
+    bbox: { minLat: LAT, minLng: 127, maxLat: LAT, maxLng: 127.01 },
+    segments,
+  }) as RouteDto;
+
+// 이탈 위치(북쪽 약 220m)에서 세그먼트 끝까지 다시 찾은 경로
+const reroutedPath = (): GraphHopperPath => ({
+  distance: 600,
+  time: 200000,
+  ascend: 0,
+  descend: 0,
+  points: {
+    coordinates: [
+      [127.005, 37.502],
+      [127.01, 37.502],
+      [127.01, LAT],
+    ],
+  },
+  bbox: [127.005, LAT, 127.01, 37.502],
+  instructions: [],
+});
+
+const statusOf = (action: () => unknown): number | undefined => {
+  try {
+    action();
+  } catch (error) {
+    return error instanceof HttpException ? error.getStatus() : undefined;
+  }
+  return undefined;
+};
+
+describe('NavigationSessionService', () => {
+  let service: NavigationSessionService;
+  let getSingleRoute: jest.Mock<
+    Promise<GraphHopperPath>,
+    [{ lat: number; lng: number }, { lat: number; lng: number }, string]
+  >;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(async () => {
+    getSingleRoute = jest.fn<
+      Promise<GraphHopperPath>,
+      [{ lat: number; lng: number }, { lat: number; lng: number }, string]
+    >();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NavigationSessionService,
+        RouteConverterService,
+        RouteBuilderService,
+        RouteUtilService,
+        PolylineService,
+        { provide: GraphHopperService, useValue: { getSingleRoute } },
+      ],
+    }).compile();
+
+    service = module.get<NavigationSessionService>(NavigationSessionService);
+  });
+
+  describe('startSession', () => {
+    it('should reject a segment without summary instead of failing later', () => {
+      const segment = bikeSegment();
+      delete (segment as Partial<RouteSegmentDto>).summary;
+
+      expect(() => service.startSession(route([segment]), 'client')).toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should reject unknown segment types and malformed geometry', () => {
+      const unknownType = { ...bikeSegment(), type: 'flying' };
+      const badPoints = {
+        ...bikeSegment(),
+        geometry: { points: [[127, LAT], [127.001]] },
+      };
+
+      expect(() =>
+        service.startSession(
+          route([unknownType as unknown as RouteSegmentDto]),
+          'client',
+        ),
+      ).toThrow(BadRequestException);
+      expect(() =>
+        service.startSession(route([badPoints as RouteSegmentDto]), 'client'),
+      ).toThrow(BadRequestException);
+    });
+
+    it('should limit concurrent sessions per client with 429', () => {
+      for (let i = 0; i < 5; i++) {
+        service.startSession(route(), 'client');
+      }
+
+      expect(statusOf(() => service.startSession(route(), 'client'))).toBe(
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+      expect(service.startSession(route(), 'other').sessionId).toBeDefined();
+    });
+
+    it('should reject new sessions with 503 once the server limit is reached', () => {
+      for (let i = 0; i < 1000; i++) {
+        service.startSession(route(), `client-${i}`);
+      }
+
+      expect(statusOf(() => service.startSession(route(), 'client'))).toBe(
+        HttpStatus.SERVICE_UNAVAILABLE,
+      );
+    });
+  });
+
+  describe('updatePosition', () => {
+    it('should report progress along the route', async () => {
+      const { sessionId } = service.startSession(route(), 'client');
+
+      const progress = await service.updatePosition(sessionId, {
+        lat: LAT + 0.0001, // 약 11m 옆
+        lng: 127.005,
+      });
+
+      expect(progress).toMatchObject({
+        status: NavigationStatus.ON_ROUTE,
+        segmentIndex: 0,
+        segmentType: 'biking',
+        progress: 0.5,
+        remainingTime: 150,
+      });
+      expect(progress.matchedPosition.lat).toBeCloseTo(LAT, 6);
+      expect(progress.remainingDistance).toBeCloseTo(442, -1);
+    });
+
+    it('should arrive near the destination and end the session', async () => {
+      const { sessionId } = service.startSession(route(), 'client');
+
+      // 직전 매칭 위치에서 500m 이내만 탐색하므로 중간 지점을 거쳐 도착
+      await service.updatePosition(sessionId, { lat: LAT, lng: 127.005 });
+      const progress = await service.updatePosition(sessionId, {
+        lat: LAT,
+        lng: 127.00995,
+      });
+
+      expect(progress.status).toBe(NavigationStatus.ARRIVED);
+      expect(() => service.getEvents(sessionId)).toThrow(NotFoundException);
+    });
+
+    it('should treat a fix within the accuracy allowance as on route', async () => {
+      const { sessionId } = service.startSession(route(), 'client');
+
+      // 약 44m 이탈, 정확도 30m → 허용 거리 60m
+      const progress = await service.updatePosition(sessionId, {
+        lat: LAT + 0.0004,
+        lng: 127.003,
+        accuracy: 30,
+      });
+
+      expect(progress.status).toBe(NavigationStatus.ON_ROUTE);
+    });
+
+    it('should confirm off-route on the second fix and reroute to the segment end', async () => {
+      getSingleRoute.mockResolvedValue(reroutedPath());
+      const { sessionId } = service.startSession(route(), 'client');
+      const events: string[] = [];
+      service.getEvents(sessionId).subscribe((event) => {
+        events.push(event.type!);
+      });
+      const offRoute = { lat: 37.502, lng: 127.005 };
+
+      const first = await service.updatePosition(sessionId, offRoute);
+      expect(first.status).toBe(NavigationStatus.OFF_ROUTE);
+      expect(getSingleRoute).not.toHaveBeenCalled();
+
+      const second = await service.updatePosition(sessionId, offRoute);
+      expect(getSingleRoute).toHaveBeenCalledWith(
+        { lat: 37.502, lng: 127.005 },
+        { lat: LAT, lng: 127.01 },
+        'safe_bike',
+      );
+      expect(second.status).toBe(NavigationStatus.REROUTED);
+      expect(second.distanceFromRoute).toBe(0);
+      expect(second.route?.segments[0].geometry.points[0]).toEqual([
+        127.005, 37.502,
+      ]);
+      expect(events).toEqual([
+        NavigationStatus.OFF_ROUTE,
+        NavigationStatus.REROUTED,
+      ]);
+
+      // 재탐색한 경로 기준으로 계속 안내
+      const next = await service.updatePosition(sessionId, {
+        lat: 37.502,
+        lng: 127.008,
+      });
+      expect(next.status).toBe(NavigationStatus.ON_ROUTE);
+    });
+
+    it('should stay off route when rerouting fails', async () => {
+      getSingleRoute.mockRejectedValue(new Error('engine down'));
+      const { sessionId } = service.startSession(route(), 'client');
+      const offRoute = { lat: 37.502, lng: 127.005 };
+
+      await service.updatePosition(sessionId, offRoute);
+      const progress = await service.updatePosition(sessionId, offRoute);
+
+      expect(getSingleRoute).toHaveBeenCalledTimes(1);
+      expect(progress.status).toBe(NavigationStatus.OFF_ROUTE);
+      expect(progress.route).toBeUndefined();
+    });
+
+    it('should throw NotFoundException for an unknown session', async () => {
+      await expect(
+        service.updatePosition('missing', { lat: LAT, lng: 127 }),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+  });
+});
@@ -0,0 +1,581 @@
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  MessageEvent,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { randomUUID } from 'crypto';
+import { Observable, Subject } from 'rxjs';
+import { RouteDto, RouteSegmentDto } from '../dto/route.dto';
+import {
+  GpsFixDto,
+  NavigationProgressDto,
+  NavigationSessionDto,
+  NavigationStatus,
+  NextManeuverDto,
+} from '../dto/navigation.dto';
+import { GraphHopperService } from './graphhopper.service';
+import { RouteBuilderService } from './route-builder.service';
+import { RouteConverterService } from './route-converter.service';
+import { RouteUtilService } from './route-util.service';
+import { PolylineService } from './polyline.service';
+
+/**
+ * 경로 전체를 이어 붙인 좌표 (세그먼트 위치 + 누적 거리)
+ */
+interface TrackPoint {
+  segmentIndex: number;
+  pointIndex: number; // 세그먼트 geometry.points 기준 인덱스
+  coord: number[]; // [lng, lat, ele?]
+  distance: number; // 경로 시작부터의 누적 거리 (미터)
+}
+
+/**
+ * GPS 위치를 경로에 매칭한 결과
+ */
+interface TrackMatch {
+  trackIndex: number; // 매칭된 구간의 시작 TrackPoint 인덱스
+  position: number[]; // 경로 위 매칭 좌표 [lng, lat]
+  traveled: number; // 매칭 위치까지의 누적 거리 (미터)
+  distanceFromRoute: number; // GPS 위치와 경로 사이 거리 (미터)
+}
+
+interface NavigationSession {
+  id: string;
+  clientId: string; // 세션을 만든 클라이언트 (IP, 클라이언트별 세션 수 제한용)
+  route: RouteDto;
+  track: TrackPoint[];
+  segmentRanges: [number, number][]; // 세그먼트별 [첫 TrackPoint, 마지막 TrackPoint]
+  events: Subject<MessageEvent>;
+  lastTrackIndex: number;
+  offRouteCount: number;
+  rerouting: boolean;
+  lastUpdatedAt: number;
+}
+
+const NAVIGATION_CONSTANTS = {
+  OFF_ROUTE_THRESHOLD_METERS: 30, // 경로 이탈 판단 기본 거리
+  MAX_ACCURACY_ALLOWANCE_METERS: 50, // 이탈 판단에 반영할 GPS 오차 상한
+  OFF_ROUTE_CONFIRM_FIXES: 2, // 연속 이탈 횟수 (도달 시 재탐색)
+  ARRIVAL_THRESHOLD_METERS: 20, // 남은 거리가 이 값 이하면 도착 처리
+  MATCH_BACKTRACK_POINTS: 5, // 직전 매칭 위치보다 뒤쪽으로 허용하는 좌표 수
+  MATCH_LOOKAHEAD_METERS: 500, // 직전 매칭 위치에서 앞쪽으로 탐색하는 거리
+  IDLE_TIMEOUT_SECONDS: 30 * 60, // 위치 갱신이 없으면 세션 종료
+  MAX_SESSIONS: 1000, // 서버 전체 동시 세션 수 상한 (세션마다 경로 전체를 메모리에 보관)
+  MAX_SESSIONS_PER_CLIENT: 5, // 클라이언트별 동시 세션 수 상한
+} as const;
+
+const SEGMENT_TYPES: readonly RouteSegmentDto['type'][] = [
+  'walking',
+  'biking',
+  'docking',
+  'transit',
+];
+
+/**
+ * NavigationSessionService
+ * - 경로(RouteDto)로 내비게이션 세션을 만들고 GPS 위치를 경로 geometry에 매칭
+ * - 진행률, 다음 안내 지점, 남은 거리/시간을 SSE 이벤트로 전달
+ * - 경로 이탈이 이어지면 현재 위치에서 현재 구간의 목표 지점(경유지/반납 대여소)까지 재탐색
+ */
+@Injectable()
+export class NavigationSessionService {
+  private readonly logger = new Logger(NavigationSessionService.name);
+  private readonly sessions = new Map<string, NavigationSession>();
+
+  constructor(
+    private readonly graphHopperService: GraphHopperService,
+    private readonly routeConverter: RouteConverterService,
+    private readonly routeBuilder: RouteBuilderService,
+    private readonly routeUtil: RouteUtilService,
+    private readonly polylineService: PolylineService,
+  ) {}
+
+  /**
+   * 내비게이션 세션 시작 (인코딩된 geometry는 좌표 배열로 복원)
+   * - 경로 형식이 맞지 않으면 BadRequestException
+   * - 클라이언트별 세션 수 초과 시 429, 서버 전체 세션 수 초과 시 503
+   */
+  startSession(requestRoute: RouteDto, clientId: string): NavigationSessionDto {
+    this.assertSessionCapacity(clientId);
+    const route = this.polylineService.decodeRoute(requestRoute);
+    this.validateRoute(route);
+
+    const id = randomUUID();
+    this.sessions.set(id, {
+      id,
+      clientId,
+      ...this.buildTrack(route),
+      route,
+      events: new Subject<MessageEvent>(),
+      lastTrackIndex: 0,
+      offRouteCount: 0,
+      rerouting: false,
+      lastUpdatedAt: Date.now(),
+    });
+    this.logger.debug(
+      `내비게이션 세션 시작 - ${id}, 활성 세션: ${this.sessions.size}개`,
+    );
+
+    return {
+      sessionId: id,
+      idleTimeoutSeconds: NAVIGATION_CONSTANTS.IDLE_TIMEOUT_SECONDS,
+      route,
+    };
+  }
+
+  /**
+   * 세션 이벤트 스트림 (SSE)
+   */
+  getEvents(sessionId: string): Observable<MessageEvent> {
+    return this.getSession(sessionId).events.asObservable();
+  }
+
+  /**
+   * GPS 위치 갱신 → 경로 매칭, 이탈 감지, 필요 시 재탐색
+   */
+  async updatePosition(
+    sessionId: string,
+    fix: GpsFixDto,
+  ): Promise<NavigationProgressDto> {
+    const session = this.getSession(sessionId);
+    session.lastUpdatedAt = Date.now();
+
+    const point = [fix.lng, fix.lat];
+    const match = this.matchToTrack(session, point);
+    const threshold =
+      NAVIGATION_CONSTANTS.OFF_ROUTE_THRESHOLD_METERS +
+      Math.min(
+        fix.accuracy ?? 0,
+        NAVIGATION_CONSTANTS.MAX_ACCURACY_ALLOWANCE_METERS,
+      );
+
+    if (match.distanceFromRoute <= threshold) {
+      session.offRouteCount = 0;
+      session.lastTrackIndex = match.trackIndex;
+      const progress = this.buildProgress(session, match);
+      if (
+        progress.remainingDistance <=
+        NAVIGATION_CONSTANTS.ARRIVAL_THRESHOLD_METERS
+      ) {
+        progress.status = NavigationStatus.ARRIVED;
+        progress.nextManeuver = undefined;
+      }
+      this.emit(session, progress);
+      if (progress.status === NavigationStatus.ARRIVED) {
+        this.endSession(sessionId);
+      }
+      return progress;
+    }
+
+    session.offRouteCount++;
+    if (
+      session.offRouteCount < NAVIGATION_CONSTANTS.OFF_ROUTE_CONFIRM_FIXES ||
+      session.rerouting
+    ) {
+      const progress = {
+        ...this.buildProgress(session, match),
+        status: NavigationStatus.OFF_ROUTE,
+      };
+      this.emit(session, progress);
+      return progress;
+    }
+
+    return this.reroute(session, point, match);
+  }
+
+  /**
+   * 세션 종료
+   */
+  endSession(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+    session.events.complete();
+    this.sessions.delete(sessionId);
+    this.logger.debug(`내비게이션 세션 종료 - ${sessionId}`);
+  }
+
+  /**
+   * 오래 갱신되지 않은 세션 정리 (1분마다)
+   */
+  @Interval(60 * 1000)
+  purgeIdleSessions(): void {
+    const expiredBefore =
+      Date.now() - NAVIGATION_CONSTANTS.IDLE_TIMEOUT_SECONDS * 1000;
+    for (const session of this.sessions.values()) {
+      if (session.lastUpdatedAt < expiredBefore) {
+        this.endSession(session.id);
+      }
+    }
+  }
+
+  /**
+   * 동시 세션 수 제한 확인
+   */
+  private assertSessionCapacity(clientId: string): void {
+    if (this.sessions.size >= NAVIGATION_CONSTANTS.MAX_SESSIONS) {
+      this.logger.warn(
+        `내비게이션 세션 수 상한 도달 - ${this.sessions.size}개`,
+      );
+      throw new ServiceUnavailableException(
+        '진행 중인 내비게이션이 너무 많습니다. 잠시 후 다시 시도해주세요.',
+      );
+    }
+    let clientSessions = 0;
+    for (const session of this.sessions.values()) {
+      if (session.clientId === clientId) clientSessions++;
+    }
+    if (clientSessions >= NAVIGATION_CONSTANTS.MAX_SESSIONS_PER_CLIENT) {
+      throw new HttpException(
+        `동시에 진행할 수 있는 내비게이션은 최대 ${NAVIGATION_CONSTANTS.MAX_SESSIONS_PER_CLIENT}개입니다. 사용하지 않는 세션을 종료해주세요.`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  /**
+   * 안내에 필요한 세그먼트 정보(타입, 요약, 좌표) 확인
+   */
+  private validateRoute(route: RouteDto): void {
+    if (!Array.isArray(route.segments) || route.segments.length === 0) {
+      throw new BadRequestException('안내할 경로에 세그먼트가 없습니다.');
+    }
+    route.segments.forEach((segment, index) => {
+      if (!SEGMENT_TYPES.includes(segment?.type)) {
+        throw new BadRequestException(
+          `${index}번 세그먼트의 타입이 올바르지 않습니다.`,
+        );
+      }
+      if (
+        !Number.isFinite(segment.summary?.time) ||
+        !Number.isFinite(segment.summary?.distance)
+      ) {
+        throw new BadRequestException(
+          `${index}번 세그먼트에 소요 시간/거리 요약(summary)이 없습니다.`,
+        );
+      }
+      const points: unknown = segment.geometry?.points;
+      if (
+        !Array.isArray(points) ||
+        !points.every(
+          (point) =>
+            Array.isArray(point) &&
+            point.length >= 2 &&
+            point.every((value) => Number.isFinite(value)),
+        )
+      ) {
+        throw new BadRequestException(
+          `${index}번 세그먼트의 geometry 좌표가 올바르지 않습니다.`,
+        );
+      }
+    });
+    if (!route.segments.some((s) => s.geometry.points.length > 1)) {
+      throw new BadRequestException('안내할 경로의 geometry가 없습니다.');
+    }
+  }
+
+  private getSession(sessionId: string): NavigationSession {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new NotFoundException(
+        `내비게이션 세션을 찾을 수 없습니다. 세션 ID: ${sessionId}`,
+      );
+    }
+    return session;
+  }
+
+  private emit(session: NavigationSession, progress: NavigationProgressDto) {
+    session.events.next({ type: progress.status, data: progress });
+  }
+
+  // ============================================
+  // 재탐색
+  // ============================================
+
+  /**
+   * 현재 위치에서 현재 구간의 끝(경유지, 중간 반납/반납 대여소, 목적지)까지 재탐색
+   * - 이미 지나간 구간과 이후 구간은 그대로 유지
+   * - 대중교통 구간은 정류장을 직선으로 이은 geometry라 재탐색하지 않고 이탈 상태만 전달
+   */
+  private async reroute(
+    session: NavigationSession,
+    point: number[],
+    match: TrackMatch,
+  ): Promise<NavigationProgressDto> {
+    const segmentIndex = session.track[match.trackIndex].segmentIndex;
+    const segment = session.route.segments[segmentIndex];
+    if (segment.type === 'transit') {
+      const progress = {
+        ...this.buildProgress(session, match),
+        status: NavigationStatus.OFF_ROUTE,
+      };
+      this.emit(session, progress);
+      return progress;
+    }
+    const [segmentEndLng, segmentEndLat] =
+      segment.geometry.points[segment.geometry.points.length - 1];
+
+    session.rerouting = true;
+    try {
+      const profile =
+        segment.type === 'biking' ? (segment.profile ?? 'safe_bike') : 'foot';
+      const path = await this.graphHopperService.getSingleRoute(
+        { lat: point[1], lng: point[0] },
+        { lat: segmentEndLat, lng: segmentEndLng },
+        profile,
+      );
+
+      const segments: RouteSegmentDto[] = [
+        ...session.route.segments.slice(0, segmentIndex),
+        this.routeConverter.buildSegment(
+          segment.type === 'biking' ? 'biking' : 'walking',
+          path,
+        ),
+        ...session.route.segments.slice(segmentIndex + 1),
+      ];
+      this.routeConverter.attachStationManeuvers(
+        segments,
+        session.route.startStation,
+        session.route.endStation,
+      );
+      const route: RouteDto = {
+        ...session.route,
+        summary: this.routeConverter.buildSummaryFromSegments(segments),
+        bbox: this.routeBuilder.calculateBoundingBox(segments),
+        segments,
+      };
+
+      Object.assign(session, this.buildTrack(route), {
+        route,
+        offRouteCount: 0,
+      });
+      const rerouted = this.matchToTrack(session, point, true);
+      session.lastTrackIndex = rerouted.trackIndex;
+
+      const progress: NavigationProgressDto = {
+        ...this.buildProgress(session, rerouted),
+        status: NavigationStatus.REROUTED,
+        route,
+      };
+      this.logger.debug(
+        `경로 재탐색 완료 - 세션: ${session.id}, 세그먼트: ${segmentIndex}, 이탈 거리: ${Math.round(match.distanceFromRoute)}m`,
+      );
+      this.emit(session, progress);
+      return progress;
+    } catch (error) {
+      this.logger.warn(`경로 재탐색 실패 - 세션: ${session.id}`);
+      this.logger.debug(`에러 상세:`, error);
+      const progress = {
+        ...this.buildProgress(session, match),
+        status: NavigationStatus.OFF_ROUTE,
+      };
+      this.emit(session, progress);
+      return progress;
+    } finally {
+      session.rerouting = false;
+    }
+  }
+
+  // ============================================
+  // 경로 매칭 및 진행 상황 계산
+  // ============================================
+
+  /**
+   * 세그먼트 좌표를 하나의 트랙으로 연결 (누적 거리 포함)
+   */
+  private buildTrack(
+    route: RouteDto,
+  ): Pick<NavigationSession, 'track' | 'segmentRanges'> {
+    const track: TrackPoint[] = [];
+    const segmentRanges: [number, number][] = [];
+    let distance = 0;
+
+    route.segments.forEach((segment, segmentIndex) => {
+      const first = track.length;
+      (segment.geometry?.points ?? []).forEach((coord, pointIndex) => {
+        const previous = track[track.length - 1];
+        if (previous) {
+          distance += this.routeUtil.calculateDistance(previous.coord, coord);
+        }
+        track.push({ segmentIndex, pointIndex, coord, distance });
+      });
+      segmentRanges.push([first, Math.max(track.length - 1, first)]);
+    });
+
+    return { track, segmentRanges };
+  }
+
+  /**
+   * GPS 위치를 트랙의 가장 가까운 구간에 투영
+   * - 원형 경로처럼 시작/끝이 겹치는 경우를 위해 직전 매칭 위치 주변만 탐색
+   */
+  private matchToTrack(
+    session: NavigationSession,
+    point: number[],
+    searchAll = false,
+  ): TrackMatch {
+    const { track } = session;
+    const start = searchAll
+      ? 0
+      : Math.max(
+          session.lastTrackIndex - NAVIGATION_CONSTANTS.MATCH_BACKTRACK_POINTS,
+          0,
+        );
+    const maxDistance = searchAll
+      ? Infinity
+      : track[session.lastTrackIndex].distance +
+        NAVIGATION_CONSTANTS.MATCH_LOOKAHEAD_METERS;
+
+    let best: TrackMatch = {
+      trackIndex: start,
+      position: track[start].coord,
+      traveled: track[start].distance,
+      distanceFromRoute: this.routeUtil.calculateDistance(
+        point,
+        track[start].coord,
+      ),
+    };
+
+    for (
+      let i = start;
+      i < track.length - 1 && track[i].distance <= maxDistance;
+      i++
+    ) {
+      const a = track[i].coord;
+      const b = track[i + 1].coord;
+      const { ratio, distance } = this.projectToEdge(point, a, b);
+      if (distance < best.distanceFromRoute) {
+        best = {
+          trackIndex: i,
+          position: [
+            a[0] + (b[0] - a[0]) * ratio,
+            a[1] + (b[1] - a[1]) * ratio,
+          ],
+          traveled:
+            track[i].distance +
+            (track[i + 1].distance - track[i].distance) * ratio,
+          distanceFromRoute: distance,
+        };
+      }
+    }
+    return best;
+  }
+
+  /**
+   * 점을 선분 a-b에 투영 (위치 주변을 평면으로 근사, 미터 단위)
+   */
+  private projectToEdge(
+    point: number[],
+    a: number[],
+    b: number[],
+  ): { ratio: number; distance: number } {
+    const metersPerLng = 111320 * Math.cos((point[1] * Math.PI) / 180);
+    const metersPerLat = 110540;
+    const ax = (a[0] - point[0]) * metersPerLng;
+    const ay = (a[1] - point[1]) * metersPerLat;
+    const dx = (b[0] - a[0]) * metersPerLng;
+    const dy = (b[1] - a[1]) * metersPerLat;
+    const lengthSquared = dx * dx + dy * dy;
+    const ratio =
+      lengthSquared > 0
+        ? Math.min(Math.max(-(ax * dx + ay * dy) / lengthSquared, 0), 1)
+        : 0;
+    return {
+      ratio,
+      distance: Math.hypot(ax + dx * ratio, ay + dy * ratio),
+    };
+  }
+
+  /**
+   * 매칭 결과로 진행 상황 생성
+   */
+  private buildProgress(
+    session: NavigationSession,
+    match: TrackMatch,
+  ): NavigationProgressDto {
+    const { track, segmentRanges, route } = session;
+    const trackPoint = track[match.trackIndex];
+    const segmentIndex = trackPoint.segmentIndex;
+    const segment = route.segments[segmentIndex];
+    const totalDistance = track[track.length - 1].distance;
+
+    // 현재 세그먼트의 남은 비율만큼 시간 + 이후 세그먼트 시간
+    const [segmentStart, segmentEnd] = segmentRanges[segmentIndex];
+    const segmentLength =
+      track[segmentEnd].distance - track[segmentStart].distance;
+    const remainingRatio =
+      segmentLength > 0
+        ? Math.min(
+            Math.max(
+              (track[segmentEnd].distance - match.traveled) / segmentLength,
+              0,
+            ),
+            1,
+          )
+        : 1;
+    const remainingTime =
+      segment.summary.time * remainingRatio +
+      route.segments
+        .slice(segmentIndex + 1)
+        .reduce((sum, s) => sum + s.summary.time, 0);
+    const remainingDistance = Math.max(totalDistance - match.traveled, 0);
+
+    return {
+      sessionId: session.id,
+      status: NavigationStatus.ON_ROUTE,
+      matchedPosition: { lat: match.position[1], lng: match.position[0] },
+      distanceFromRoute: Math.round(match.distanceFromRoute),
+      segmentIndex,
+      segmentType: segment.type,
+      traveledDistance: Math.round(match.traveled),
+      remainingDistance: Math.round(remainingDistance),
+      remainingTime: Math.round(remainingTime),
+      progress:
+        totalDistance > 0
+          ? Math.round((match.traveled / totalDistance) * 100) / 100
+          : 1,
+      nextManeuver: this.findNextManeuver(session, trackPoint, match.traveled),
+    };
+  }
+
+  /**
+   * 현재 위치 이후의 첫 안내 지점
+   */
+  private findNextManeuver(
+    session: NavigationSession,
+    trackPoint: TrackPoint,
+    traveled: number,
+  ): NextManeuverDto | undefined {
+    const { route, track, segmentRanges } = session;
+
+    for (let s = trackPoint.segmentIndex; s < route.segments.length; s++) {
+      const segment = route.segments[s];
+      const instruction = (segment.instructions ?? []).find(
+        (inst) =>
+          s > trackPoint.segmentIndex ||
+          inst.interval[0] > trackPoint.pointIndex,
+      );
+      if (!instruction) continue;
+
+      const target =
+        track[
+          Math.min(
+            segmentRanges[s][0] + instruction.interval[0],
+            segmentRanges[s][1],
+          )
+        ];
+      return {
+        type: instruction.type,
+        text: instruction.text,
+        distance: Math.max(Math.round(target.distance - traveled), 0),
+        location: { lat: target.coord[1], lng: target.coord[0] },
+      };
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,120 @@
+import { Logger } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { SnappedRoutingPoint } from '../interfaces/routing-engine.interface';
+import {
+  PointNotRoutable,
+  RoutingEngineUnavailable,
+} from './engines/routing-engine.errors';
+import { GraphHopperService } from './graphhopper.service';
+import { PointSnapService } from './point-snap.service';
+
+type Point = { lat: number; lng: number };
+
+const start: Point = { lat: 37.5, lng: 127 };
+const waypoint: Point = { lat: 37.51, lng: 127.01 };
+const end: Point = { lat: 37.52, lng: 127.02 };
+
+describe('PointSnapService', () => {
+  let service: PointSnapService;
+  let getNearestPoint: jest.Mock<Promise<SnappedRoutingPoint>, [Point, string]>;
+
+  /**
+   * 모든 지점을 위도 0.0001만큼 북쪽 도로로 보정하고 지정한 거리 반환
+   */
+  const snapDistances = (distances: Partial<Record<string, number>>) =>
+    getNearestPoint.mockImplementation((point) =>
+      Promise.resolve({
+        point: { lat: point.lat + 0.0001, lng: point.lng },
+        distance: distances[`${point.lat},${point.lng}`] ?? 5,
+      }),
+    );
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(async () => {
+    getNearestPoint = jest.fn<Promise<SnappedRoutingPoint>, [Point, string]>();
+    snapDistances({});
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PointSnapService,
+        { provide: GraphHopperService, useValue: { getNearestPoint } },
+      ],
+    }).compile();
+
+    service = module.get<PointSnapService>(PointSnapService);
+  });
+
+  it('should snap start, waypoints and end in order with their own profiles', async () => {
+    const snapped = await service.snapJourneyPoints({
+      start,
+      end,
+      waypoints: [waypoint],
+    });
+
+    expect(snapped.map(({ role, index }) => ({ role, index }))).toEqual([
+      { role: 'start', index: undefined },
+      { role: 'waypoint', index: 0 },
+      { role: 'end', index: undefined },
+    ]);
+    expect(snapped[0]).toEqual({
+      role: 'start',
+      index: undefined,
+      original: start,
+      snapped: { lat: 37.5001, lng: 127 },
+      distance: 5,
+    });
+    expect(getNearestPoint.mock.calls.map(([, profile]) => profile)).toEqual([
+      'foot',
+      'safe_bike',
+      'foot',
+    ]);
+  });
+
+  it('should snap only the start when the end is omitted', async () => {
+    const snapped = await service.snapJourneyPoints({ start });
+
+    expect(snapped).toHaveLength(1);
+    expect(getNearestPoint).toHaveBeenCalledTimes(1);
+  });
+
+  it('should accept points up to 250m from a road', async () => {
+    snapDistances({ '37.5,127': 250.04 });
+
+    const [snapped] = await service.snapJourneyPoints({ start });
+
+    expect(snapped.distance).toBe(250);
+  });
+
+  it('should reject points farther than 250m as not routable (422)', async () => {
+    snapDistances({ '37.51,127.01': 251 });
+
+    const rejection = service.snapJourneyPoints({
+      start,
+      end,
+      waypoints: [waypoint],
+    });
+
+    await expect(rejection).rejects.toBeInstanceOf(PointNotRoutable);
+    await expect(rejection).rejects.toThrow(
+      '1번째 경유지(37.51, 127.01)가 가장 가까운 도로에서 251m 떨어져 있어 경로를 탐색할 수 없습니다.',
+    );
+  });
+
+  it('should name the point when the engine finds no road near it', async () => {
+    getNearestPoint.mockRejectedValue(new PointNotRoutable());
+
+    await expect(service.snapJourneyPoints({ start })).rejects.toThrow(
+      '출발지(37.5, 127) 근처에서 경로를 탐색할 수 있는 도로를 찾을 수 없습니다.',
+    );
+  });
+
+  it('should pass engine outages through unchanged', async () => {
+    const outage = new RoutingEngineUnavailable();
+    getNearestPoint.mockRejectedValue(outage);
+
+    await expect(service.snapJourneyPoints({ start })).rejects.toBe(outage);
+  });
+});
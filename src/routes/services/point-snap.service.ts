@@ -0,0 +1,123 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { CoordinateDto, SnappedPointDto } from '../dto/route.dto';
+import { SnappedRoutingPoint } from '../interfaces/routing-engine.interface';
+import { GraphHopperService } from './graphhopper.service';
+import { PointNotRoutable } from './engines/routing-engine.errors';
+
+const SNAP_CONSTANTS = {
+  MAX_SNAP_DISTANCE: 250, // 도로에서 이 거리(미터)보다 먼 지점은 경로 탐색 거부
+  ACCESS_PROFILE: 'foot', // 출발지/도착지는 대여소까지 도보로 이동
+  WAYPOINT_PROFILE: 'safe_bike', // 경유지는 자전거로 통과
+} as const;
+
+/**
+ * 스냅 대상 지점
+ */
+interface SnapTarget {
+  role: SnappedPointDto['role'];
+  index?: number;
+  coordinate: CoordinateDto;
+  profile: string;
+}
+
+/**
+ * PointSnapService
+ * - 경로 검색 전 출발지/도착지/경유지를 가장 가까운 도로 위 지점으로 보정
+ * - 한강 한가운데, 대형 건물 내부 등 도로에서 너무 먼 지점은 어떤 지점인지 명시해 거부
+ */
+@Injectable()
+export class PointSnapService {
+  private readonly logger = new Logger(PointSnapService.name);
+
+  constructor(private readonly graphHopperService: GraphHopperService) {}
+
+  /**
+   * 출발지 → 경유지들 → 도착지 순서로 스냅 결과 반환
+   * - 도착지를 생략하면 출발지(와 경유지)만 보정 (원형 경로용)
+   */
+  async snapJourneyPoints(points: {
+    start: CoordinateDto;
+    end?: CoordinateDto;
+    waypoints?: CoordinateDto[];
+  }): Promise<SnappedPointDto[]> {
+    const targets: SnapTarget[] = [
+      {
+        role: 'start',
+        coordinate: points.start,
+        profile: SNAP_CONSTANTS.ACCESS_PROFILE,
+      },
+      ...(points.waypoints ?? []).map((coordinate, index) => ({
+        role: 'waypoint' as const,
+        index,
+        coordinate,
+        profile: SNAP_CONSTANTS.WAYPOINT_PROFILE,
+      })),
+    ];
+    if (points.end) {
+      targets.push({
+        role: 'end',
+        coordinate: points.end,
+        profile: SNAP_CONSTANTS.ACCESS_PROFILE,
+      });
+    }
+
+    const snapped = await Promise.all(
+      targets.map((target) => this.snapPoint(target)),
+    );
+    this.logger.debug(
+      `도로 스냅 완료 - 지점 ${snapped.length}개, 최대 보정 거리: ${Math.max(...snapped.map((point) => point.distance))}m`,
+    );
+    return snapped;
+  }
+
+  /**
+   * 단일 지점 스냅 (허용 거리 초과 또는 엔진이 도로를 찾지 못하면 PointNotRoutable)
+   */
+  private async snapPoint(target: SnapTarget): Promise<SnappedPointDto> {
+    const { lat, lng } = target.coordinate;
+    const label = this.describeTarget(target);
+
+    let nearest: SnappedRoutingPoint;
+    try {
+      nearest = await this.graphHopperService.getNearestPoint(
+        { lat, lng },
+        target.profile,
+      );
+    } catch (error) {
+      if (error instanceof PointNotRoutable) {
+        throw new PointNotRoutable(
+          undefined,
+          `${label}(${lat}, ${lng}) 근처에서 경로를 탐색할 수 있는 도로를 찾을 수 없습니다.`,
+        );
+      }
+      throw error;
+    }
+
+    const distance = Math.round(nearest.distance * 10) / 10;
+    if (distance > SNAP_CONSTANTS.MAX_SNAP_DISTANCE) {
+      throw new PointNotRoutable(
+        undefined,
+        `${label}(${lat}, ${lng})가 가장 가까운 도로에서 ${Math.round(distance)}m 떨어져 있어 경로를 탐색할 수 없습니다. 도로에서 ${SNAP_CONSTANTS.MAX_SNAP_DISTANCE}m 이내의 지점을 지정해주세요.`,
+      );
+    }
+
+    return {
+      role: target.role,
+      index: target.index,
+      original: { lat, lng },
+      snapped: nearest.point,
+      distance,
+    };
+  }
+
+  private describeTarget(target: SnapTarget): string {
+    switch (target.role) {
+      case 'start':
+        return '출발지';
+      case 'end':
+        return '도착지';
+      case 'waypoint':
+        return `${(target.index ?? 0) + 1}번째 경유지`;
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PolylineService } from './polyline.service';
+import { GeometryEncoding, RouteDto } from '../dto/route.dto';
+
+describe('PolylineService', () => {
+  let service: PolylineService;
+
+  // [lng, lat, ele]
+  const points = [
+    [127.076764, 37.626666, 32.4],
+    [127.073512, 37.631208, 35.1],
+    [127.067248, 37.642417, 28.75],
+    [127.057126, 37.664819, -1.2],
+  ];
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [PolylineService],
+    }).compile();
+
+    service = module.get<PolylineService>(PolylineService);
+  });
+
+  it('should encode the reference polyline5 example', () => {
+    const encoded = service.encode(
+      [
+        [-120.2, 38.5],
+        [-120.95, 40.7],
+        [-126.453, 43.252],
+      ],
+      GeometryEncoding.POLYLINE5,
+    );
+
+    expect(encoded).toBe('_p~iF~ps|U_ulLnnqC_mqNvxq`@');
+  });
+
+  it('should round-trip polyline5 at 1e-5 precision without elevation', () => {
+    const decoded = service.decode(
+      service.encode(points, GeometryEncoding.POLYLINE5),
+      GeometryEncoding.POLYLINE5,
+    );
+
+    expect(decoded).toHaveLength(points.length);
+    decoded.forEach((point, idx) => {
+      expect(point).toHaveLength(2);
+      expect(point[0]).toBeCloseTo(points[idx][0], 5);
+      expect(point[1]).toBeCloseTo(points[idx][1], 5);
+    });
+  });
+
+  it('should round-trip polyline6 at 1e-6 precision', () => {
+    const decoded = service.decode(
+      service.encode(points, GeometryEncoding.POLYLINE6),
+      GeometryEncoding.POLYLINE6,
+    );
+
+    expect(decoded).toEqual(points.map(([lng, lat]) => [lng, lat]));
+  });
+
+  it('should round-trip elevation with polyline-with-elevation', () => {
+    const decoded = service.decode(
+      service.encode(points, GeometryEncoding.POLYLINE_WITH_ELEVATION),
+      GeometryEncoding.POLYLINE_WITH_ELEVATION,
+    );
+
+    decoded.forEach((point, idx) => {
+      expect(point[0]).toBeCloseTo(points[idx][0], 5);
+      expect(point[1]).toBeCloseTo(points[idx][1], 5);
+      expect(point[2]).toBeCloseTo(points[idx][2], 2);
+    });
+  });
+
+  it('should handle empty geometry', () => {
+    expect(service.encode([], GeometryEncoding.POLYLINE5)).toBe('');
+    expect(service.decode('', GeometryEncoding.POLYLINE5)).toEqual([]);
+  });
+
+  it('should reject truncated input', () => {
+    const encoded = service.encode(points, GeometryEncoding.POLYLINE5);
+
+    expect(() =>
+      service.decode(encoded.slice(0, -1), GeometryEncoding.POLYLINE5),
+    ).toThrow();
+  });
+
+  it('should reject unknown encodings as a bad request', () => {
+    const encoded = service.encode(points, GeometryEncoding.POLYLINE5);
+
+    expect(() =>
+      service.decode(
+        encoded,
+        'polyline7' as unknown as GeometryEncoding.POLYLINE5,
+      ),
+    ).toThrow(BadRequestException);
+  });
+
+  it('should encode and restore every route segment', () => {
+    const route = {
+      routeCategory: '자전거 도로 우선 경로',
+      segments: [
+        { type: 'walking', geometry: { points: points.slice(0, 2) } },
+        { type: 'biking', geometry: { points } },
+      ],
+    } as unknown as RouteDto;
+
+    const encoded = service.encodeRoute(
+      route,
+      GeometryEncoding.POLYLINE_WITH_ELEVATION,
+    );
+    encoded.segments.forEach((segment) => {
+      expect(segment.geometry.points).toEqual([]);
+      expect(segment.geometry.encoding).toBe(
+        GeometryEncoding.POLYLINE_WITH_ELEVATION,
+      );
+      expect(typeof segment.geometry.encoded).toBe('string');
+    });
+
+    const restored = service.decodeRoute(encoded);
+    restored.segments.forEach((segment, idx) => {
+      expect(segment.geometry.points).toHaveLength(
+        route.segments[idx].geometry.points.length,
+      );
+      segment.geometry.points.forEach((point, pointIdx) => {
+        const original = route.segments[idx].geometry.points[pointIdx];
+        expect(point[0]).toBeCloseTo(original[0], 5);
+        expect(point[1]).toBeCloseTo(original[1], 5);
+        expect(point[2]).toBeCloseTo(original[2], 2);
+      });
+    });
+  });
+
+  it('should leave raw routes untouched', () => {
+    const route = {
+      segments: [{ type: 'biking', geometry: { points } }],
+    } as unknown as RouteDto;
+
+    expect(service.encodeRoute(route, GeometryEncoding.RAW)).toBe(route);
+    expect(service.decodeRoute(route)).toBe(route);
+  });
+});
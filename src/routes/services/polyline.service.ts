@@ -0,0 +1,170 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { GeometryEncoding, RouteDto } from '../dto/route.dto';
+
+/**
+ * 인코딩별 좌표 정밀도 (소수점 자리수) 및 고도 포함 여부
+ * - polyline-with-elevation: GraphHopper와 동일하게 고도를 100배(cm) 정수로 인코딩
+ */
+const ENCODING_OPTIONS = {
+  [GeometryEncoding.POLYLINE5]: { precision: 5, withElevation: false },
+  [GeometryEncoding.POLYLINE6]: { precision: 6, withElevation: false },
+  [GeometryEncoding.POLYLINE_WITH_ELEVATION]: {
+    precision: 5,
+    withElevation: true,
+  },
+} as const;
+
+const ELEVATION_FACTOR = 100;
+
+type PolylineEncoding = keyof typeof ENCODING_OPTIONS;
+
+/**
+ * PolylineService
+ * - 경로 좌표([lng, lat, ele?])를 Encoded Polyline Algorithm 형식으로 인코딩/디코딩
+ * - 인코딩 문자열의 좌표 순서는 표준과 같이 [lat, lng(, ele)]
+ */
+@Injectable()
+export class PolylineService {
+  /**
+   * 좌표 배열 → 인코딩 문자열
+   */
+  encode(points: number[][], encoding: PolylineEncoding): string {
+    const { precision, withElevation } = ENCODING_OPTIONS[encoding];
+    const factor = 10 ** precision;
+    let previous = [0, 0, 0];
+    let encoded = '';
+
+    for (const [lng, lat, ele = 0] of points) {
+      const current = [
+        Math.round(lat * factor),
+        Math.round(lng * factor),
+        Math.round(ele * ELEVATION_FACTOR),
+      ];
+      encoded += this.encodeValue(current[0] - previous[0]);
+      encoded += this.encodeValue(current[1] - previous[1]);
+      if (withElevation) {
+        encoded += this.encodeValue(current[2] - previous[2]);
+      }
+      previous = current;
+    }
+    return encoded;
+  }
+
+  /**
+   * 인코딩 문자열 → 좌표 배열 ([lng, lat] 또는 [lng, lat, ele])
+   * - 지원하지 않는 인코딩이거나 문자열 형식이 맞지 않으면 BadRequestException
+   */
+  decode(encoded: string, encoding: PolylineEncoding): number[][] {
+    // 클라이언트가 보낸 경로의 encoding은 타입과 다를 수 있으므로 직접 확인
+    if (!Object.hasOwn(ENCODING_OPTIONS, encoding)) {
+      throw new BadRequestException(
+        `지원하지 않는 좌표 인코딩입니다: ${String(encoding)}`,
+      );
+    }
+    const { precision, withElevation } = ENCODING_OPTIONS[encoding];
+    const factor = 10 ** precision;
+    const dimensions = withElevation ? 3 : 2;
+    const values = this.decodeValues(encoded);
+
+    if (values.length % dimensions !== 0) {
+      throw new BadRequestException(
+        `유효하지 않은 ${encoding} 인코딩 문자열입니다.`,
+      );
+    }
+
+    const points: number[][] = [];
+    const current = [0, 0, 0];
+    for (let i = 0; i < values.length; i += dimensions) {
+      current[0] += values[i];
+      current[1] += values[i + 1];
+      const point = [current[1] / factor, current[0] / factor];
+      if (withElevation) {
+        current[2] += values[i + 2];
+        point.push(current[2] / ELEVATION_FACTOR);
+      }
+      points.push(point);
+    }
+    return points;
+  }
+
+  /**
+   * 경로의 모든 세그먼트 geometry를 인코딩 (raw면 그대로 반환)
+   */
+  encodeRoute(route: RouteDto, encoding: GeometryEncoding): RouteDto {
+    if (encoding === GeometryEncoding.RAW) return route;
+
+    return {
+      ...route,
+      segments: route.segments.map((segment) => ({
+        ...segment,
+        geometry: {
+          points: [],
+          encoding,
+          encoded: this.encode(segment.geometry.points, encoding),
+        },
+      })),
+    };
+  }
+
+  /**
+   * 인코딩된 세그먼트 geometry를 좌표 배열로 복원 (클라이언트가 보낸 경로 처리용)
+   */
+  decodeRoute(route: RouteDto): RouteDto {
+    if (!route.segments?.some((segment) => segment.geometry?.encoded)) {
+      return route;
+    }
+
+    return {
+      ...route,
+      segments: route.segments.map((segment) => {
+        const { encoding, encoded } = segment.geometry ?? {};
+        if (!encoded || !encoding || encoding === GeometryEncoding.RAW) {
+          return segment;
+        }
+        return {
+          ...segment,
+          geometry: { points: this.decode(encoded, encoding) },
+        };
+      }),
+    };
+  }
+
+  /**
+   * 부호 있는 정수 하나를 5비트 단위 문자로 인코딩
+   */
+  private encodeValue(value: number): string {
+    let remaining = value < 0 ? ~(value << 1) : value << 1;
+    let chunk = '';
+    while (remaining >= 0x20) {
+      chunk += String.fromCharCode((0x20 | (remaining & 0x1f)) + 63);
+      remaining >>= 5;
+    }
+    return chunk + String.fromCharCode(remaining + 63);
+  }
+
+  /**
+   * 인코딩 문자열을 부호 있는 정수 목록으로 디코딩
+   */
+  private decodeValues(encoded: string): number[] {
+    const values: number[] = [];
+    let index = 0;
+
+    while (index < encoded.length) {
+      let result = 0;
+      let shift = 0;
+      let byte: number;
+      do {
+        if (index >= encoded.length) {
+          throw new BadRequestException(
+            '유효하지 않은 polyline 인코딩 문자열입니다.',
+          );
+        }
+        byte = encoded.charCodeAt(index++) - 63;
+        result |= (byte & 0x1f) << shift;
+        shift += 5;
+      } while (byte >= 0x20);
+      values.push(result & 1 ? ~(result >> 1) : result >> 1);
+    }
+    return values;
+  }
+}
@@ -0,0 +1,253 @@
+import { Logger } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  InstructionDto,
+  PassType,
+  RouteDto,
+  RouteSegmentDto,
+  RouteStationDto,
+} from '../dto/route.dto';
+import { StationResponseDto } from '../../stations/dto/station-api.dto';
+import { GraphHopperPath } from '../interfaces/graphhopper.interface';
+import { GraphHopperService } from './graphhopper.service';
+import { RentalLimitService } from './rental-limit.service';
+import { RouteConverterService } from './route-converter.service';
+import { RouteUtilService } from './route-util.service';
+import { StationRouteService } from './station-route.service';
+import {
+  StationReservationExhausted,
+  StationReservationLedger,
+} from './station-reservation.ledger';
+
+type Point = { lat: number; lng: number };
+
+// 위도 37.5에서 동쪽으로 이어지는 21개 좌표 (경도 0.01 간격)
+const points = (): number[][] =>
+  Array.from({ length: 21 }, (_, i) => [127 + i * 0.01, 37.5]);
+
+const bikeRoute = (
+  seconds: number,
+  instructions?: Partial<InstructionDto>[],
+): RouteDto => {
+  const summary = { distance: 20000, time: seconds, ascent: 0, descent: 0 };
+  const bbox = { minLat: 37.5, minLng: 127, maxLat: 37.5, maxLng: 127.2 };
+  return {
+    routeCategory: '자전거 도로 우선',
+    summary,
+    bbox,
+    segments: [
+      {
+        type: 'biking',
+        summary,
+        bbox,
+        geometry: { points: points() },
+        instructions: instructions as InstructionDto[],
+      } as RouteSegmentDto,
+    ],
+  } as RouteDto;
+};
+
+const midStation: RouteStationDto = {
+  number: '201',
+  name: '201번 대여소',
+  lat: 37.5,
+  lng: 127.1,
+  current_bikes: 10,
+};
+
+const path = (seconds: number): GraphHopperPath => ({
+  distance: seconds * 3,
+  time: seconds * 1000,
+  ascend: 0,
+  descend: 0,
+  points: {
+    coordinates: [
+      [127, 37.5],
+      [127.1, 37.5],
+    ],
+  },
+  bbox: [127, 37.5, 127.1, 37.5],
+  instructions: [],
+});
+
+describe('RentalLimitService', () => {
+  let service: RentalLimitService;
+  let getSingleRoute: jest.Mock<Promise<GraphHopperPath>, [Point, Point]>;
+  let findBestReturnStation: jest.Mock<
+    Promise<RouteStationDto | null>,
+    [Point, StationReservationLedger?]
+  >;
+
+  /**
+   * 중간 반납 대여소까지 toStation초, 대여소부터 구간 끝까지 fromStation초 걸리는 엔진
+   */
+  const engineTimes = (toStation: number, fromStation: number) =>
+    getSingleRoute.mockImplementation((from) =>
+      Promise.resolve(
+        path(from.lng === midStation.lng ? fromStation : toStation),
+      ),
+    );
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(async () => {
+    getSingleRoute = jest.fn<Promise<GraphHopperPath>, [Point, Point]>();
+    findBestReturnStation = jest.fn<
+      Promise<RouteStationDto | null>,
+      [Point, StationReservationLedger?]
+    >();
+    findBestReturnStation.mockResolvedValue(midStation);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RentalLimitService,
+        RouteConverterService,
+        RouteUtilService,
+        { provide: GraphHopperService, useValue: { getSingleRoute } },
+        { provide: StationRouteService, useValue: { findBestReturnStation } },
+      ],
+    }).compile();
+
+    service = module.get<RentalLimitService>(RentalLimitService);
+  });
+
+  it('should leave routes within the pass limit untouched', async () => {
+    const route = bikeRoute(3500);
+
+    await expect(
+      service.applyPassLimit(route, PassType.ONE_HOUR),
+    ).resolves.toBe(route);
+    expect(findBestReturnStation).not.toHaveBeenCalled();
+  });
+
+  it('should look for a station where the budget before the safety margin runs out', async () => {
+    engineTimes(3000, 3000);
+    // 누적 1000 → 2000 → 3000초, 네 번째 안내에서 예산(3600 - 300초)을 넘음
+    const instructions = [0, 5, 10, 15].map((start, i) => ({
+      time: i === 3 ? 3000 : 1000,
+      interval: [start, start + 5] as [number, number],
+    }));
+
+    const result = await service.applyPassLimit(
+      bikeRoute(6000, instructions),
+      PassType.ONE_HOUR,
+    );
+
+    expect(findBestReturnStation).toHaveBeenCalledWith(
+      { lat: 37.5, lng: 127.15 },
+      undefined,
+    );
+    expect(result.segments.map((segment) => segment.type)).toEqual([
+      'biking',
+      'docking',
+      'biking',
+    ]);
+    expect(result.segments[1].dockingStation).toEqual(midStation);
+    // 3000 + 반납/재대여 120 + 3000초
+    expect(result.summary.time).toBe(6120);
+    expect(result.rentalWarning).toBeUndefined();
+  });
+
+  it('should estimate the split point from distance without instructions', async () => {
+    engineTimes(3000, 3000);
+
+    await service.applyPassLimit(bikeRoute(6000), PassType.ONE_HOUR);
+
+    // 3300 / 6000초 → 요약 거리 20km의 55%(11km), 좌표 간격 약 883m라 13번째 좌표 직전
+    expect(findBestReturnStation).toHaveBeenCalledWith(
+      { lat: 37.5, lng: 127.12 },
+      undefined,
+    );
+  });
+
+  it('should stop after MAX_REDOCKS splits and warn instead', async () => {
+    // 반납 후에도 남은 구간이 계속 제한 시간을 넘음
+    engineTimes(3000, 9000);
+
+    const result = await service.applyPassLimit(
+      bikeRoute(12000),
+      PassType.ONE_HOUR,
+    );
+
+    expect(findBestReturnStation).toHaveBeenCalledTimes(5);
+    expect(result.segments).toHaveLength(1);
+    expect(result.rentalWarning).toMatchObject({
+      bikingMinutes: 200,
+      message: '경로상에 반납 가능한 대여소가 부족하여 이용 시간이 초과됩니다.',
+    });
+  });
+
+  it('should not split when the station is farther than the remaining budget', async () => {
+    engineTimes(3400, 2600);
+
+    const result = await service.applyPassLimit(
+      bikeRoute(6000),
+      PassType.ONE_HOUR,
+    );
+
+    expect(result.segments).toHaveLength(1);
+    expect(result.rentalWarning).toBeDefined();
+  });
+
+  it('should estimate overtime fees in 5 minute units', async () => {
+    findBestReturnStation.mockResolvedValue(null);
+
+    const oneHour = await service.applyPassLimit(
+      bikeRoute(6000),
+      PassType.ONE_HOUR,
+    );
+    const twoHour = await service.applyPassLimit(
+      bikeRoute(7201),
+      PassType.TWO_HOUR,
+    );
+
+    expect(oneHour.rentalWarning).toEqual({
+      passType: PassType.ONE_HOUR,
+      limitMinutes: 60,
+      bikingMinutes: 100,
+      overtimeMinutes: 40,
+      estimatedOvertimeFee: 1600,
+      message: '경로상에 반납 가능한 대여소가 부족하여 이용 시간이 초과됩니다.',
+    });
+    // 120분 1초 주행 → 121분으로 올림, 1분 초과도 한 단위 요금
+    expect(twoHour.rentalWarning).toMatchObject({
+      bikingMinutes: 121,
+      overtimeMinutes: 1,
+      estimatedOvertimeFee: 200,
+    });
+  });
+
+  it('should fall back to a warning when the split route cannot be calculated', async () => {
+    getSingleRoute.mockRejectedValue(new Error('engine down'));
+    const route = bikeRoute(6000);
+
+    const result = await service.applyPassLimit(route, PassType.ONE_HOUR);
+
+    expect(result.segments).toBe(route.segments);
+    expect(result.rentalWarning).toMatchObject({
+      overtimeMinutes: 40,
+      message: '중간 반납 경로를 계산할 수 없어 이용 시간이 초과됩니다.',
+    });
+  });
+
+  it('should rethrow when the mid-trip dock was taken by another journey', async () => {
+    engineTimes(3000, 3000);
+    const ledger = new StationReservationLedger();
+    ledger.applyTo(
+      {
+        number: '201',
+        name: midStation.name,
+        total_racks: 10,
+        current_bikes: 10,
+      } as StationResponseDto,
+      'return',
+    );
+
+    await expect(
+      service.applyPassLimit(bikeRoute(6000), PassType.ONE_HOUR, ledger),
+    ).rejects.toBeInstanceOf(StationReservationExhausted);
+    expect(ledger.summarize()).toEqual([]);
+  });
+});
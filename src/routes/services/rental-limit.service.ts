@@ -0,0 +1,322 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  PassType,
+  RentalLimitWarningDto,
+  RouteDto,
+  RouteSegmentDto,
+} from '../dto/route.dto';
+import { GraphHopperService } from './graphhopper.service';
+import { RouteConverterService } from './route-converter.service';
+import { RouteUtilService } from './route-util.service';
+import { StationRouteService } from './station-route.service';
+import {
+  StationReservationExhausted,
+  StationReservationLedger,
+} from './station-reservation.ledger';
+
+const PASS_LIMIT_MINUTES: Record<PassType, number> = {
+  [PassType.ONE_HOUR]: 60,
+  [PassType.TWO_HOUR]: 120,
+};
+
+const RENTAL_LIMIT_CONSTANTS = {
+  SAFETY_MARGIN_SECONDS: 5 * 60, // 제한 시간 5분 전에 반납하도록 여유 확보
+  DOCKING_TIME_SECONDS: 2 * 60, // 반납 후 재대여에 걸리는 시간
+  MAX_REDOCKS: 5, // 경로당 최대 중간 반납 횟수
+  OVERTIME_UNIT_MINUTES: 5, // 초과 요금 부과 단위 (분)
+  OVERTIME_FEE_PER_UNIT: 200, // 단위당 초과 요금 (원)
+} as const;
+
+/**
+ * RentalLimitService
+ * - 이용권 제한 시간을 초과하는 자전거 구간을 경로상 대여소에서 분할 (반납 후 재대여)
+ * - 분할할 수 없으면 초과 시간/요금 경고 추가
+ */
+@Injectable()
+export class RentalLimitService {
+  private readonly logger = new Logger(RentalLimitService.name);
+
+  constructor(
+    private readonly graphHopperService: GraphHopperService,
+    private readonly routeConverter: RouteConverterService,
+    private readonly routeUtil: RouteUtilService,
+    private readonly stationRouteService: StationRouteService,
+  ) {}
+
+  /**
+   * 경로 후보 전체에 이용권 제한 적용
+   * - 장부가 있으면 사용자에게 배정되는 첫 번째 경로의 중간 반납 대여소만 배정
+   *   (나머지 후보는 남은 재고만 확인, 한 사용자가 후보 수만큼 거치대를 차지하지 않도록)
+   * - 나머지 후보를 먼저 확인해 첫 번째 경로가 배정한 거치대 때문에 분할이 달라지지 않도록 함
+   */
+  async applyPassLimits(
+    routes: RouteDto[],
+    passType: PassType,
+    ledger?: StationReservationLedger,
+  ): Promise<RouteDto[]> {
+    if (!ledger || routes.length === 0) {
+      return Promise.all(
+        routes.map((route) => this.applyPassLimit(route, passType)),
+      );
+    }
+
+    const [assigned, ...alternatives] = routes;
+    const adjustedAlternatives = await Promise.all(
+      alternatives.map((route) =>
+        this.applyPassLimit(route, passType, ledger.preview()),
+      ),
+    );
+    return [
+      await this.applyPassLimit(assigned, passType, ledger),
+      ...adjustedAlternatives,
+    ];
+  }
+
+  /**
+   * 이용권 제한 시간에 맞게 경로 조정
+   * @param ledger 배치 검색 시 중간 반납 대여소의 빈 거치대도 배정
+   *   (분할을 모두 마친 경로만 배정 확정, 경고로 대체되면 분할 중 배정한 거치대 취소)
+   */
+  async applyPassLimit(
+    route: RouteDto,
+    passType: PassType,
+    ledger?: StationReservationLedger,
+  ): Promise<RouteDto> {
+    const limitSeconds = PASS_LIMIT_MINUTES[passType] * 60;
+    if (this.findLongestRideTime(route.segments) <= limitSeconds) {
+      return route;
+    }
+
+    const routeLedger = ledger?.fork();
+    try {
+      const segments = await this.splitSegments(
+        route.segments,
+        limitSeconds,
+        routeLedger,
+      );
+      if (this.findLongestRideTime(segments) > limitSeconds) {
+        // 분할하지 않은 원래 경로에 경고를 붙이므로 초과 시간도 원래 경로 기준
+        routeLedger?.rollback();
+        return this.attachWarning(
+          route,
+          passType,
+          this.findLongestRideTime(route.segments),
+          '경로상에 반납 가능한 대여소가 부족하여 이용 시간이 초과됩니다.',
+        );
+      }
+
+      this.routeConverter.attachStationManeuvers(
+        segments,
+        route.startStation,
+        route.endStation,
+      );
+      routeLedger?.commit();
+      return {
+        ...route,
+        summary: this.routeConverter.buildSummaryFromSegments(segments),
+        segments,
+      };
+    } catch (error) {
+      routeLedger?.rollback();
+      // 배정 충돌은 배치 검색에서 요청을 다시 검색하도록 그대로 전달
+      if (error instanceof StationReservationExhausted) {
+        throw error;
+      }
+      this.logger.warn(
+        `중간 반납 경로 계산 실패 - 이용권: ${passType}, 경로: ${route.routeCategory}`,
+      );
+      this.logger.debug(`에러 상세:`, error);
+      return this.attachWarning(
+        route,
+        passType,
+        this.findLongestRideTime(route.segments),
+        '중간 반납 경로를 계산할 수 없어 이용 시간이 초과됩니다.',
+      );
+    }
+  }
+
+  /**
+   * 연속 자전거 이용 시간이 제한을 넘지 않도록 자전거 구간 분할
+   */
+  private async splitSegments(
+    segments: RouteSegmentDto[],
+    limitSeconds: number,
+    ledger?: StationReservationLedger,
+  ): Promise<RouteSegmentDto[]> {
+    const targetSeconds =
+      limitSeconds - RENTAL_LIMIT_CONSTANTS.SAFETY_MARGIN_SECONDS;
+    const queue = [...segments];
+    const result: RouteSegmentDto[] = [];
+    let rideTime = 0;
+    let redocks = 0;
+
+    while (queue.length > 0) {
+      const segment = queue.shift()!;
+
+      if (segment.type === 'docking') {
+        rideTime = 0;
+      }
+      if (
+        segment.type !== 'biking' ||
+        rideTime + segment.summary.time <= limitSeconds ||
+        redocks >= RENTAL_LIMIT_CONSTANTS.MAX_REDOCKS
+      ) {
+        if (segment.type === 'biking') rideTime += segment.summary.time;
+        result.push(segment);
+        continue;
+      }
+
+      const budget = Math.max(targetSeconds - rideTime, 0);
+      const split = await this.splitBikeSegment(segment, budget, ledger);
+      if (!split) {
+        result.push(segment);
+        rideTime += segment.summary.time;
+        continue;
+      }
+
+      const [beforeDock, docking, afterDock] = split;
+      result.push(beforeDock, docking);
+      queue.unshift(afterDock); // 남은 구간도 다시 제한 시간 검사
+      rideTime = 0;
+      redocks++;
+    }
+    return result;
+  }
+
+  /**
+   * 자전거 구간을 budget(초) 지점 근처 대여소 기준으로 분할
+   * - 장부가 있으면 분할이 확정된 뒤 중간 반납 대여소의 빈 거치대 1개 배정
+   *   (재대여는 방금 반납한 자전거를 사용하므로 대여는 배정하지 않음)
+   * @returns [반납 전 자전거 구간, 반납/재대여 구간, 재대여 후 자전거 구간] 또는 null
+   */
+  private async splitBikeSegment(
+    segment: RouteSegmentDto,
+    budgetSeconds: number,
+    ledger?: StationReservationLedger,
+  ): Promise<[RouteSegmentDto, RouteSegmentDto, RouteSegmentDto] | null> {
+    const points = segment.geometry.points;
+    if (points.length < 2 || budgetSeconds <= 0) return null;
+
+    const splitIndex = this.findPointIndexAtTime(segment, budgetSeconds);
+    const [lng, lat] = points[splitIndex];
+    const station = await this.stationRouteService.findBestReturnStation(
+      { lat, lng },
+      ledger,
+    );
+    if (!station) return null;
+
+    const [segStartLng, segStartLat] = points[0];
+    const [segEndLng, segEndLat] = points[points.length - 1];
+    const profile = segment.profile ?? 'safe_bike';
+    const [toStation, fromStation] = await Promise.all([
+      this.graphHopperService.getSingleRoute(
+        { lat: segStartLat, lng: segStartLng },
+        station,
+        profile,
+      ),
+      this.graphHopperService.getSingleRoute(
+        station,
+        { lat: segEndLat, lng: segEndLng },
+        profile,
+      ),
+    ]);
+
+    // 대여소까지의 구간도 제한 시간을 넘으면 분할 의미 없음
+    if (toStation.time / 1000 > budgetSeconds) {
+      this.logger.debug(
+        `중간 반납 대여소(${station.name})까지의 주행 시간이 남은 이용 시간을 초과함`,
+      );
+      return null;
+    }
+
+    if (ledger && !ledger.tryReserve(station.number, 'return')) {
+      throw new StationReservationExhausted();
+    }
+
+    return [
+      this.routeConverter.buildSegment('biking', toStation),
+      this.routeConverter.buildDockingSegment(
+        station,
+        RENTAL_LIMIT_CONSTANTS.DOCKING_TIME_SECONDS,
+      ),
+      this.routeConverter.buildSegment('biking', fromStation),
+    ];
+  }
+
+  /**
+   * 구간 시작 후 지정 시간(초)에 도달하는 geometry 인덱스
+   * - 턴바이턴 안내의 소요 시간을 누적하여 계산, 안내가 없으면 거리 비율로 추정
+   */
+  private findPointIndexAtTime(
+    segment: RouteSegmentDto,
+    seconds: number,
+  ): number {
+    const points = segment.geometry.points;
+    const instructions = (segment.instructions ?? []).filter(
+      (instruction) => instruction.interval[1] > instruction.interval[0],
+    );
+
+    if (instructions.length > 0) {
+      let elapsed = 0;
+      for (const instruction of instructions) {
+        if (elapsed + instruction.time > seconds) {
+          return instruction.interval[0];
+        }
+        elapsed += instruction.time;
+      }
+      return points.length - 1;
+    }
+
+    const ratio = Math.min(seconds / Math.max(segment.summary.time, 1), 1);
+    const targetDistance = segment.summary.distance * ratio;
+    let traveled = 0;
+    for (let i = 1; i < points.length; i++) {
+      traveled += this.routeUtil.calculateDistance(points[i - 1], points[i]);
+      if (traveled >= targetDistance) return i - 1;
+    }
+    return points.length - 1;
+  }
+
+  /**
+   * 반납 구간 사이의 연속 자전거 이용 시간 중 최댓값 (초)
+   */
+  private findLongestRideTime(segments: RouteSegmentDto[]): number {
+    let longest = 0;
+    let current = 0;
+    for (const segment of segments) {
+      if (segment.type === 'docking') {
+        current = 0;
+      } else if (segment.type === 'biking') {
+        current += segment.summary.time;
+        longest = Math.max(longest, current);
+      }
+    }
+    return longest;
+  }
+
+  /**
+   * 초과 시간/요금 경고 추가
+   */
+  private attachWarning(
+    route: RouteDto,
+    passType: PassType,
+    rideSeconds: number,
+    message: string,
+  ): RouteDto {
+    const limitMinutes = PASS_LIMIT_MINUTES[passType];
+    const bikingMinutes = Math.ceil(rideSeconds / 60);
+    const overtimeMinutes = Math.max(bikingMinutes - limitMinutes, 0);
+    const warning: RentalLimitWarningDto = {
+      passType,
+      limitMinutes,
+      bikingMinutes,
+      overtimeMinutes,
+      estimatedOvertimeFee:
+        Math.ceil(
+          overtimeMinutes / RENTAL_LIMIT_CONSTANTS.OVERTIME_UNIT_MINUTES,
+        ) * RENTAL_LIMIT_CONSTANTS.OVERTIME_FEE_PER_UNIT,
+      message,
+    };
+    return { ...route, rentalWarning: warning };
+  }
+}
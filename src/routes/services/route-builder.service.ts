@@ -6,9 +6,11 @@ import {
   BoundingBoxDto,
   CoordinateDto,
   RouteStationDto,
+  RouteCategory,
 } from '../dto/route.dto';
 import { RouteConverterService } from './route-converter.service';
 import { GraphHopperService } from './graphhopper.service';
+import { RouteUtilService } from './route-util.service';
 import { GraphHopperPath } from '../interfaces/graphhopper.interface';
 
 /**
@@ -21,14 +23,64 @@ export class RouteBuilderService {
     bike: 'bike_priority',
     time: 'time',
     distance: 'distance',
+    climbing: 'least_climbing',
+    gradient: 'gentlest',
+    quiet: 'quietest',
   } as const;
+  private static readonly MULTI_LEG_CATEGORIES: Record<
+    RouteCategory,
+    { name: string; priority: string }
+  > = {
+    [RouteCategory.BIKE_ROAD]: {
+      name: '자전거 도로 우선',
+      priority: RouteBuilderService.CATEGORY_PRIORITY.bike,
+    },
+    [RouteCategory.FASTEST]: {
+      name: '최소 시간',
+      priority: RouteBuilderService.CATEGORY_PRIORITY.time,
+    },
+    [RouteCategory.SHORTEST]: {
+      name: '최단 거리',
+      priority: RouteBuilderService.CATEGORY_PRIORITY.distance,
+    },
+    [RouteCategory.LEAST_CLIMBING]: {
+      name: '최소 오르막',
+      priority: RouteBuilderService.CATEGORY_PRIORITY.climbing,
+    },
+    [RouteCategory.GENTLEST]: {
+      name: '완만한 경사',
+      priority: RouteBuilderService.CATEGORY_PRIORITY.gradient,
+    },
+    [RouteCategory.QUIETEST]: {
+      name: '한적한 도로',
+      priority: RouteBuilderService.CATEGORY_PRIORITY.quiet,
+    },
+  };
+  private static readonly DEFAULT_MULTI_LEG_CATEGORIES: readonly RouteCategory[] =
+    [RouteCategory.BIKE_ROAD, RouteCategory.FASTEST, RouteCategory.SHORTEST];
   private readonly logger = new Logger(RouteBuilderService.name);
 
   constructor(
     private readonly routeConverter: RouteConverterService,
     private readonly graphHopperService: GraphHopperService,
+    private readonly routeUtil: RouteUtilService,
   ) {}
 
+  /**
+   * 요청한 카테고리를 다구간 경로용 카테고리(이름, 우선순위)로 변환
+   * - 미지정 시 자전거 도로 우선 / 최소 시간 / 최단 거리
+   */
+  getMultiLegCategories(
+    categories?: RouteCategory[],
+  ): { name: string; priority: string }[] {
+    const selected = categories?.length
+      ? [...new Set(categories)]
+      : RouteBuilderService.DEFAULT_MULTI_LEG_CATEGORIES;
+    return selected.map(
+      (category) => RouteBuilderService.MULTI_LEG_CATEGORIES[category],
+    );
+  }
+
   /**
    * 다구간 경로 구축 (도보 구간 포함)
    */
@@ -48,6 +100,7 @@ export class RouteBuilderService {
     let totalBikeDistance = 0;
     let totalBikeRoadDistance = 0;
     let maxGradient = 0; // 전체 경로의 최대 경사도
+    let totalMajorRoadDistance = 0; // 간선도로(primary/trunk) 주행 거리
 
     // 첫 번째 도보 구간 추가 (출발지 → 시작 대여소)
     if (walkingToStart) {
@@ -110,8 +163,11 @@ export class RouteBuilderService {
       totalAscent += bikeSummary.ascent || 0;
       totalDescent += bikeSummary.descent || 0;
 
-      // 자전거 도로 길이 계산
+      // 자전거 도로 / 간선도로 길이 계산
       totalBikeDistance += bikeSummary.distance;
+      totalMajorRoadDistance +=
+        bikeSummary.distance *
+        this.routeUtil.calculateMajorRoadRatio(selectedRoute);
       if (bikeSummary.bikeRoadRatio) {
         totalBikeRoadDistance +=
           bikeSummary.distance * bikeSummary.bikeRoadRatio;
@@ -142,6 +198,13 @@ export class RouteBuilderService {
       totalDescent += walkingSummary.descent || 0;
     }
 
+    // 대여/반납 안내 추가 (왕복 경로는 도착 대여소 = 시작 대여소)
+    this.routeConverter.attachStationManeuvers(
+      segments,
+      startStation,
+      endStation ?? startStation,
+    );
+
     // 전체 경로의 자전거 도로 비율 계산
     const overallBikeRoadRatio =
       totalBikeDistance > 0
@@ -158,10 +221,19 @@ export class RouteBuilderService {
       descent: Math.round(totalDescent),
       bikeRoadRatio: overallBikeRoadRatio,
       maxGradient: maxGradient > 0 ? maxGradient : undefined,
+      infrastructure: this.routeUtil.calculateOverallInfrastructure(
+        segments.filter((s) => s.type === 'biking'),
+      ),
     };
 
     return {
       routeCategory: category.name,
+      categoryReason: this.describeCategory(
+        category.priority,
+        summary,
+        totalBikeDistance > 0 ? totalMajorRoadDistance / totalBikeDistance : 0,
+        points.length - 1,
+      ),
       summary,
       bbox,
       startStation,
@@ -170,6 +242,34 @@ export class RouteBuilderService {
     };
   }
 
+  /**
+   * 다구간 경로의 카테고리 선택 이유 (구간별 선택 기준 + 전체 경로 지표)
+   */
+  private describeCategory(
+    priority: string,
+    summary: SummaryDto,
+    majorRoadRatio: number,
+    legCount: number,
+  ): string | undefined {
+    const prefix = `자전거 구간 ${legCount}개 모두`;
+    switch (priority) {
+      case RouteBuilderService.CATEGORY_PRIORITY.bike:
+        return `${prefix} safe_bike 프로필 중 가장 빠른 경로 선택 (자전거 도로 비율 ${Math.round((summary.bikeRoadRatio ?? 0) * 100)}%)`;
+      case RouteBuilderService.CATEGORY_PRIORITY.time:
+        return `${prefix} 소요 시간이 가장 짧은 경로 선택 (총 ${Math.round(summary.time / 60)}분)`;
+      case RouteBuilderService.CATEGORY_PRIORITY.distance:
+        return `${prefix} 거리가 가장 짧은 경로 선택 (총 ${summary.distance}m)`;
+      case RouteBuilderService.CATEGORY_PRIORITY.climbing:
+        return `${prefix} 누적 상승 고도가 가장 낮은 경로 선택 (총 ${summary.ascent}m)`;
+      case RouteBuilderService.CATEGORY_PRIORITY.gradient:
+        return `${prefix} 최대 경사도가 가장 완만한 경로 선택 (최대 ${summary.maxGradient ?? 0}%)`;
+      case RouteBuilderService.CATEGORY_PRIORITY.quiet:
+        return `${prefix} 간선도로(primary/trunk) 비율이 가장 낮은 경로 선택 (${Math.round(majorRoadRatio * 100)}%)`;
+      default:
+        return undefined;
+    }
+  }
+
   /**
    * 왕복 경로 통합
    */
@@ -229,6 +329,10 @@ export class RouteBuilderService {
           forwardRoute.summary.descent + returnRoute.summary.descent,
         ),
         bikeRoadRatio: overallBikeRoadRatio,
+        infrastructure: this.routeUtil.calculateOverallInfrastructure([
+          ...forwardBikeSegments,
+          ...returnBikeSegments,
+        ]),
       },
       bbox: this.mergeBoundingBoxes(forwardRoute.bbox, returnRoute.bbox),
       startStation: forwardRoute.startStation,
@@ -256,6 +360,29 @@ export class RouteBuilderService {
         return routes.sort((a, b) => a.time - b.time)[0];
       case RouteBuilderService.CATEGORY_PRIORITY.distance:
         return routes.sort((a, b) => a.distance - b.distance)[0];
+      case RouteBuilderService.CATEGORY_PRIORITY.climbing:
+        return routes.sort((a, b) => a.ascend - b.ascend || a.time - b.time)[0];
+      case RouteBuilderService.CATEGORY_PRIORITY.gradient:
+        return routes
+          .map((route) => ({
+            route,
+            maxGradient: this.routeUtil.calculateMaxGradient(route),
+          }))
+          .sort(
+            (a, b) =>
+              a.maxGradient - b.maxGradient || a.route.ascend - b.route.ascend,
+          )[0].route;
+      case RouteBuilderService.CATEGORY_PRIORITY.quiet:
+        return routes
+          .map((route) => ({
+            route,
+            majorRoadRatio: this.routeUtil.calculateMajorRoadRatio(route),
+          }))
+          .sort(
+            (a, b) =>
+              a.majorRoadRatio - b.majorRoadRatio ||
+              a.route.time - b.route.time,
+          )[0].route;
       default:
         return routes[0];
     }
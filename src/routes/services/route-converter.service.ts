@@ -7,11 +7,62 @@ import {
   GeometryDto,
   InstructionDto,
   BikeProfile,
+  ManeuverType,
 } from '../dto/route.dto';
-import { GraphHopperPath } from '../interfaces/graphhopper.interface';
+import {
+  GraphHopperInstruction,
+  GraphHopperPath,
+} from '../interfaces/graphhopper.interface';
 import { CategorizedPath } from './route-optimizer.service';
 import { RouteStationDto } from '../dto/route.dto';
 import { RouteUtilService } from './route-util.service';
+import { TransitLegDto } from '../../transit/dto/transit.dto';
+
+/**
+ * GraphHopper sign → ManeuverType 매핑
+ * https://github.com/graphhopper/graphhopper/blob/master/web-api/src/main/java/com/graphhopper/util/Instruction.java
+ */
+const SIGN_TO_MANEUVER: Record<number, ManeuverType> = {
+  [-98]: ManeuverType.U_TURN,
+  [-8]: ManeuverType.U_TURN,
+  [-7]: ManeuverType.KEEP_LEFT,
+  [-6]: ManeuverType.LEAVE_ROUNDABOUT,
+  [-3]: ManeuverType.SHARP_LEFT,
+  [-2]: ManeuverType.LEFT,
+  [-1]: ManeuverType.SLIGHT_LEFT,
+  0: ManeuverType.CONTINUE,
+  1: ManeuverType.SLIGHT_RIGHT,
+  2: ManeuverType.RIGHT,
+  3: ManeuverType.SHARP_RIGHT,
+  4: ManeuverType.ARRIVE,
+  5: ManeuverType.WAYPOINT,
+  6: ManeuverType.ROUNDABOUT,
+  7: ManeuverType.KEEP_RIGHT,
+  8: ManeuverType.U_TURN,
+};
+
+/**
+ * ManeuverType별 한국어 안내 동작 문구
+ */
+const MANEUVER_ACTION_TEXT: Record<ManeuverType, string> = {
+  [ManeuverType.DEPART]: '출발',
+  [ManeuverType.CONTINUE]: '직진',
+  [ManeuverType.SLIGHT_LEFT]: '왼쪽 방향으로 진행',
+  [ManeuverType.LEFT]: '좌회전',
+  [ManeuverType.SHARP_LEFT]: '급좌회전',
+  [ManeuverType.SLIGHT_RIGHT]: '오른쪽 방향으로 진행',
+  [ManeuverType.RIGHT]: '우회전',
+  [ManeuverType.SHARP_RIGHT]: '급우회전',
+  [ManeuverType.KEEP_LEFT]: '왼쪽 길로 계속 진행',
+  [ManeuverType.KEEP_RIGHT]: '오른쪽 길로 계속 진행',
+  [ManeuverType.U_TURN]: '유턴',
+  [ManeuverType.ROUNDABOUT]: '회전교차로 진입',
+  [ManeuverType.LEAVE_ROUNDABOUT]: '회전교차로 진출',
+  [ManeuverType.WAYPOINT]: '경유지 도착',
+  [ManeuverType.ARRIVE]: '목적지 도착',
+  [ManeuverType.RENT_BIKE]: '자전거 대여',
+  [ManeuverType.RETURN_BIKE]: '자전거 반납',
+};
 
 @Injectable()
 export class RouteConverterService {
@@ -53,6 +104,29 @@ export class RouteConverterService {
       descent: Math.round(totalDescent),
       bikeRoadRatio: this.routeUtil.calculateOverallBikeRoadRatio(bikeSegments),
       maxGradient,
+      infrastructure:
+        this.routeUtil.calculateOverallInfrastructure(bikeSegments),
+    };
+  }
+
+  /**
+   * 세그먼트 요약값을 합산하여 전체 summary 계산 (세그먼트를 재구성한 경우)
+   */
+  buildSummaryFromSegments(segments: RouteSegmentDto[]): SummaryDto {
+    const bikeSegments = segments.filter((s) => s.type === 'biking');
+    const maxGradient = Math.max(
+      0,
+      ...bikeSegments.map((s) => s.summary.maxGradient ?? 0),
+    );
+    return {
+      distance: segments.reduce((sum, s) => sum + s.summary.distance, 0),
+      time: segments.reduce((sum, s) => sum + s.summary.time, 0),
+      ascent: segments.reduce((sum, s) => sum + s.summary.ascent, 0),
+      descent: segments.reduce((sum, s) => sum + s.summary.descent, 0),
+      bikeRoadRatio: this.routeUtil.calculateOverallBikeRoadRatio(bikeSegments),
+      maxGradient: maxGradient > 0 ? maxGradient : undefined,
+      infrastructure:
+        this.routeUtil.calculateOverallInfrastructure(bikeSegments),
     };
   }
 
@@ -72,6 +146,7 @@ export class RouteConverterService {
       this.buildSegment('biking', bikeRoute),
       this.buildSegment('walking', walkingFromEnd),
     ];
+    this.attachStationManeuvers(segments, startStation, endStation);
     const summary = this.buildSummary(
       [walkingToStart, bikeRoute, walkingFromEnd],
       segments,
@@ -111,6 +186,14 @@ export class RouteConverterService {
       summary.bikeRoadRatio =
         Math.round(this.routeUtil.calculateBikeRoadRatio(path) * 100) / 100;
       summary.maxGradient = this.routeUtil.calculateMaxGradient(path);
+      summary.roadClassDistances = Object.fromEntries(
+        Object.entries(this.routeUtil.calculateRoadClassDistances(path)).map(
+          ([roadClass, distance]) => [roadClass, Math.round(distance)],
+        ),
+      );
+      summary.infrastructure = this.routeUtil.calculateInfrastructureBreakdown(
+        this.routeUtil.calculateInfrastructureStretches(path),
+      );
     }
     return summary;
   }
@@ -136,6 +219,181 @@ export class RouteConverterService {
     };
   }
 
+  /**
+   * GraphHopper instructions를 InstructionDto 배열로 변환
+   */
+  convertToInstructions(
+    instructions: GraphHopperInstruction[] | undefined,
+  ): InstructionDto[] {
+    if (!instructions?.length) return [];
+    return instructions.map((instruction, idx) => {
+      const type =
+        idx === 0
+          ? ManeuverType.DEPART
+          : (SIGN_TO_MANEUVER[instruction.sign] ?? ManeuverType.CONTINUE);
+      return {
+        type,
+        text: this.buildInstructionText(type, instruction),
+        distance: Math.round(instruction.distance),
+        time: Math.round(instruction.time / 1000),
+        interval: [instruction.interval[0], instruction.interval[1]],
+      };
+    });
+  }
+
+  /**
+   * 안내 타입과 도로명으로 한국어 안내 문구 생성
+   */
+  private buildInstructionText(
+    type: ManeuverType,
+    instruction: GraphHopperInstruction,
+  ): string {
+    const action = MANEUVER_ACTION_TEXT[type];
+    const street = instruction.street_name?.trim();
+    switch (type) {
+      case ManeuverType.ROUNDABOUT:
+        return instruction.exit_number
+          ? `회전교차로에서 ${instruction.exit_number}번째 출구로 나가기`
+          : action;
+      case ManeuverType.DEPART:
+      case ManeuverType.CONTINUE:
+        return street ? `${street}을(를) 따라 ${action}` : action;
+      case ManeuverType.WAYPOINT:
+      case ManeuverType.ARRIVE:
+        return action;
+      default:
+        return street ? `${street} 방면으로 ${action}` : action;
+    }
+  }
+
+  /**
+   * 첫 자전거 구간 앞에 대여 안내, 마지막 자전거 구간 뒤에 반납 안내 추가
+   * - 중간 자전거 구간의 도착 안내는 경유지 도착으로 변경
+   */
+  attachStationManeuvers(
+    segments: RouteSegmentDto[],
+    startStation?: RouteStationDto,
+    endStation?: RouteStationDto,
+  ): void {
+    const bikeSegments = segments.filter((s) => s.type === 'biking');
+    if (bikeSegments.length === 0) return;
+
+    // 세그먼트를 재구성한 경우를 위해 기존 대여/반납 안내 제거
+    bikeSegments.forEach((segment) => {
+      segment.instructions = segment.instructions?.filter(
+        (instruction) =>
+          instruction.type !== ManeuverType.RENT_BIKE &&
+          instruction.type !== ManeuverType.RETURN_BIKE,
+      );
+    });
+
+    bikeSegments.slice(0, -1).forEach((segment) => {
+      segment.instructions?.forEach((instruction) => {
+        if (instruction.type === ManeuverType.ARRIVE) {
+          instruction.type = ManeuverType.WAYPOINT;
+          instruction.text = MANEUVER_ACTION_TEXT[ManeuverType.WAYPOINT];
+        }
+      });
+    });
+
+    const first = bikeSegments[0];
+    if (startStation) {
+      first.instructions = [
+        this.buildStationManeuver(ManeuverType.RENT_BIKE, startStation, 0),
+        ...(first.instructions ?? []),
+      ];
+    }
+
+    const last = bikeSegments[bikeSegments.length - 1];
+    if (endStation) {
+      const lastIndex = Math.max(last.geometry.points.length - 1, 0);
+      last.instructions = [
+        ...(last.instructions ?? []),
+        this.buildStationManeuver(
+          ManeuverType.RETURN_BIKE,
+          endStation,
+          lastIndex,
+        ),
+      ];
+    }
+  }
+
+  /**
+   * 중간 대여소 반납 후 재대여 구간 생성
+   */
+  buildDockingSegment(
+    station: RouteStationDto,
+    dockingTime: number,
+  ): RouteSegmentDto {
+    return {
+      type: 'docking',
+      summary: { distance: 0, time: dockingTime, ascent: 0, descent: 0 },
+      bbox: {
+        minLat: station.lat,
+        minLng: station.lng,
+        maxLat: station.lat,
+        maxLng: station.lng,
+      },
+      geometry: { points: [[station.lng, station.lat]] },
+      dockingStation: station,
+      instructions: [
+        this.buildStationManeuver(ManeuverType.RETURN_BIKE, station, 0),
+        this.buildStationManeuver(ManeuverType.RENT_BIKE, station, 0),
+      ],
+    };
+  }
+
+  /**
+   * 대중교통 탑승 구간 생성 (승차~하차 정류장 좌표를 순서대로 이은 geometry)
+   * - 소요 시간은 대기 시간 + 탑승 시간, 거리는 정류장 간 직선 거리 합
+   */
+  buildTransitSegment(transit: TransitLegDto): RouteSegmentDto {
+    const points = transit.stops.map((stop) => [stop.lng, stop.lat]);
+    const distance = points
+      .slice(1)
+      .reduce(
+        (sum, point, idx) =>
+          sum + this.routeUtil.calculateDistance(points[idx], point),
+        0,
+      );
+    const lngs = points.map(([lng]) => lng);
+    const lats = points.map(([, lat]) => lat);
+    return {
+      type: 'transit',
+      summary: {
+        distance: Math.round(distance),
+        time: transit.waitTime + transit.rideTime,
+        ascent: 0,
+        descent: 0,
+      },
+      bbox: {
+        minLat: Math.min(...lats),
+        minLng: Math.min(...lngs),
+        maxLat: Math.max(...lats),
+        maxLng: Math.max(...lngs),
+      },
+      geometry: { points },
+      transit,
+    };
+  }
+
+  /**
+   * 대여/반납 합성 안내 생성
+   */
+  private buildStationManeuver(
+    type: ManeuverType.RENT_BIKE | ManeuverType.RETURN_BIKE,
+    station: RouteStationDto,
+    pointIndex: number,
+  ): InstructionDto {
+    return {
+      type,
+      text: `${station.name} 대여소에서 ${MANEUVER_ACTION_TEXT[type]}`,
+      distance: 0,
+      time: 0,
+      interval: [pointIndex, pointIndex],
+    };
+  }
+
   /**
    * 여러 BoundingBox의 전체 범위 계산
    */
@@ -169,6 +427,11 @@ export class RouteConverterService {
       geometry: this.convertToGeometry(path.points),
       profile:
         type === 'biking' ? this.convertToBikeProfile(path.profile) : undefined,
+      instructions: this.convertToInstructions(path.instructions),
+      infrastructure:
+        type === 'biking'
+          ? this.routeUtil.calculateInfrastructureStretches(path)
+          : undefined,
     };
   }
 
@@ -189,6 +452,7 @@ export class RouteConverterService {
       this.buildSegment('biking', bikeToStation),
       this.buildSegment('walking', walkingToStart),
     ];
+    this.attachStationManeuvers(segments, station, station);
     const maxBikeGradient = Math.max(
       this.routeUtil.calculateMaxGradient(bikeToDestination),
       this.routeUtil.calculateMaxGradient(bikeToStation),
@@ -228,6 +492,7 @@ export class RouteConverterService {
       this.buildSegment('biking', circularBikeRoute),
       this.buildSegment('walking', walkingToStart),
     ];
+    this.attachStationManeuvers(segments, station, station);
     const summary = this.buildSummary(
       [walkingToStation, circularBikeRoute, walkingToStart],
       segments,
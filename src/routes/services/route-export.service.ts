@@ -0,0 +1,288 @@
+import { Injectable } from '@nestjs/common';
+import {
+  RouteDto,
+  RouteExportFormat,
+  RouteSegmentDto,
+  RouteStationDto,
+} from '../dto/route.dto';
+
+/**
+ * 내보내기 결과 (파일 내용 + 메타 정보)
+ */
+export interface RouteExportFile {
+  content: string;
+  mimeType: string;
+  fileName: string;
+}
+
+/**
+ * 내보내기용 트랙 (세그먼트 1개 = 트랙 1개)
+ */
+interface ExportTrack {
+  name: string;
+  type: RouteSegmentDto['type'];
+  points: number[][]; // [lng, lat, ele?]
+}
+
+/**
+ * 내보내기용 웨이포인트 (시작/도착 대여소)
+ */
+interface ExportWaypoint {
+  name: string;
+  description: string;
+  lat: number;
+  lng: number;
+}
+
+const EXPORT_CREATOR = 'ddareungimap';
+const SEGMENT_TYPE_LABELS: Record<RouteSegmentDto['type'], string> = {
+  walking: '도보',
+  biking: '자전거',
+  docking: '중간 반납',
+  transit: '대중교통',
+};
+const MIME_TYPES: Record<RouteExportFormat, string> = {
+  [RouteExportFormat.GPX]: 'application/gpx+xml',
+  [RouteExportFormat.KML]: 'application/vnd.google-earth.kml+xml',
+  [RouteExportFormat.GEOJSON]: 'application/geo+json',
+};
+
+/**
+ * RouteExportService
+ * - RouteDto를 GPX / KML / GeoJSON 파일로 변환
+ * - 세 형식 모두 RouteSegmentDto의 geometry를 공통으로 사용
+ */
+@Injectable()
+export class RouteExportService {
+  /**
+   * 지정한 형식으로 경로 내보내기
+   */
+  export(route: RouteDto, format: RouteExportFormat): RouteExportFile {
+    const tracks = this.buildTracks(route);
+    const waypoints = this.buildWaypoints(route);
+    const name = String(route.routeCategory || '따릉이 경로');
+
+    let content: string;
+    switch (format) {
+      case RouteExportFormat.GPX:
+        content = this.toGpx(name, tracks, waypoints);
+        break;
+      case RouteExportFormat.KML:
+        content = this.toKml(name, tracks, waypoints);
+        break;
+      case RouteExportFormat.GEOJSON:
+        content = this.toGeoJson(name, tracks, waypoints);
+        break;
+      default:
+        throw new Error(`지원하지 않는 내보내기 형식입니다: ${String(format)}`);
+    }
+
+    return {
+      content,
+      mimeType: MIME_TYPES[format],
+      fileName: `route.${format}`,
+    };
+  }
+
+  /**
+   * 세그먼트별 트랙 생성 (도보/자전거 구간을 별도 트랙으로 분리)
+   * - 클라이언트가 보낸 경로이므로 좌표는 숫자로 변환하고 유효하지 않은 좌표는 제외
+   */
+  private buildTracks(route: RouteDto): ExportTrack[] {
+    const counters: Record<string, number> = {};
+    return (route.segments ?? [])
+      .map((segment) => ({
+        segment,
+        points: (segment.geometry?.points ?? [])
+          .map((point) => this.toExportPoint(point))
+          .filter((point): point is number[] => point !== null),
+      }))
+      .filter(({ points }) => points.length > 1)
+      .map(({ segment, points }) => {
+        counters[segment.type] = (counters[segment.type] ?? 0) + 1;
+        const label = SEGMENT_TYPE_LABELS[segment.type] ?? segment.type;
+        return {
+          name: `${label} 구간 ${counters[segment.type]}`,
+          type: segment.type,
+          points,
+        };
+      });
+  }
+
+  /**
+   * 좌표 [lng, lat, ele?]를 숫자 배열로 변환 (경도/위도가 유한한 숫자가 아니면 null)
+   */
+  private toExportPoint(point: unknown[]): number[] | null {
+    const [lng, lat, ele] = point.map(Number);
+    if (!Number.isFinite(lng) || !Number.isFinite(lat)) {
+      return null;
+    }
+    return Number.isFinite(ele) ? [lng, lat, ele] : [lng, lat];
+  }
+
+  /**
+   * 시작/도착 대여소를 웨이포인트로 변환
+   */
+  private buildWaypoints(route: RouteDto): ExportWaypoint[] {
+    const waypoints: ExportWaypoint[] = [];
+    const toWaypoint = (
+      station: RouteStationDto,
+      description: string,
+    ): ExportWaypoint => ({
+      name: String(station.name ?? ''),
+      description,
+      lat: Number(station.lat),
+      lng: Number(station.lng),
+    });
+
+    if (route.startStation) {
+      waypoints.push(toWaypoint(route.startStation, '대여 대여소'));
+    }
+    for (const segment of route.segments ?? []) {
+      if (segment.type === 'docking' && segment.dockingStation) {
+        waypoints.push(
+          toWaypoint(segment.dockingStation, '중간 반납/재대여 대여소'),
+        );
+      }
+    }
+    if (route.endStation) {
+      waypoints.push(toWaypoint(route.endStation, '반납 대여소'));
+    }
+    return waypoints.filter(
+      (wpt) => Number.isFinite(wpt.lat) && Number.isFinite(wpt.lng),
+    );
+  }
+
+  /**
+   * GPX 1.1 문서 생성
+   */
+  private toGpx(
+    name: string,
+    tracks: ExportTrack[],
+    waypoints: ExportWaypoint[],
+  ): string {
+    const lines: string[] = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<gpx version="1.1" creator="${EXPORT_CREATOR}" xmlns="http://www.topografix.com/GPX/1/1">`,
+      `  <metadata><name>${this.escapeXml(name)}</name></metadata>`,
+    ];
+
+    for (const wpt of waypoints) {
+      lines.push(
+        `  <wpt lat="${wpt.lat}" lon="${wpt.lng}">`,
+        `    <name>${this.escapeXml(wpt.name)}</name>`,
+        `    <desc>${this.escapeXml(wpt.description)}</desc>`,
+        '  </wpt>',
+      );
+    }
+
+    for (const track of tracks) {
+      lines.push(
+        '  <trk>',
+        `    <name>${this.escapeXml(track.name)}</name>`,
+        `    <type>${this.escapeXml(track.type)}</type>`,
+        '    <trkseg>',
+      );
+      for (const [lng, lat, ele] of track.points) {
+        lines.push(
+          ele !== undefined
+            ? `      <trkpt lat="${lat}" lon="${lng}"><ele>${ele}</ele></trkpt>`
+            : `      <trkpt lat="${lat}" lon="${lng}"></trkpt>`,
+        );
+      }
+      lines.push('    </trkseg>', '  </trk>');
+    }
+
+    lines.push('</gpx>');
+    return lines.join('\n');
+  }
+
+  /**
+   * KML 2.2 문서 생성
+   */
+  private toKml(
+    name: string,
+    tracks: ExportTrack[],
+    waypoints: ExportWaypoint[],
+  ): string {
+    const lines: string[] = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<kml xmlns="http://www.opengis.net/kml/2.2">',
+      '  <Document>',
+      `    <name>${this.escapeXml(name)}</name>`,
+    ];
+
+    for (const wpt of waypoints) {
+      lines.push(
+        '    <Placemark>',
+        `      <name>${this.escapeXml(wpt.name)}</name>`,
+        `      <description>${this.escapeXml(wpt.description)}</description>`,
+        `      <Point><coordinates>${wpt.lng},${wpt.lat}</coordinates></Point>`,
+        '    </Placemark>',
+      );
+    }
+
+    for (const track of tracks) {
+      const hasElevation = track.points.every((p) => p.length > 2);
+      const coordinates = track.points
+        .map(([lng, lat, ele]) =>
+          hasElevation ? `${lng},${lat},${ele}` : `${lng},${lat}`,
+        )
+        .join(' ');
+      lines.push(
+        '    <Placemark>',
+        `      <name>${this.escapeXml(track.name)}</name>`,
+        '      <LineString>',
+        hasElevation
+          ? '        <altitudeMode>absolute</altitudeMode>'
+          : '        <tessellate>1</tessellate>',
+        `        <coordinates>${coordinates}</coordinates>`,
+        '      </LineString>',
+        '    </Placemark>',
+      );
+    }
+
+    lines.push('  </Document>', '</kml>');
+    return lines.join('\n');
+  }
+
+  /**
+   * GeoJSON FeatureCollection 생성
+   */
+  private toGeoJson(
+    name: string,
+    tracks: ExportTrack[],
+    waypoints: ExportWaypoint[],
+  ): string {
+    const features = [
+      ...waypoints.map((wpt) => ({
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [wpt.lng, wpt.lat] },
+        properties: { name: wpt.name, description: wpt.description },
+      })),
+      ...tracks.map((track) => ({
+        type: 'Feature',
+        geometry: { type: 'LineString', coordinates: track.points },
+        properties: { name: track.name, segmentType: track.type },
+      })),
+    ];
+
+    return JSON.stringify({
+      type: 'FeatureCollection',
+      name,
+      features,
+    });
+  }
+
+  /**
+   * XML 특수문자 이스케이프
+   */
+  private escapeXml(value: string): string {
+    return String(value)
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+}
@@ -1,5 +1,6 @@
 import { Injectable } from '@nestjs/common';
 import { GraphHopperPath } from '../interfaces/graphhopper.interface';
+import { RouteCategory } from '../dto/route.dto';
 import { GraphHopperService } from './graphhopper.service';
 import { RouteUtilService } from './route-util.service';
 
@@ -8,17 +9,80 @@ import { RouteUtilService } from './route-util.service';
  */
 export interface CategorizedPath extends GraphHopperPath {
   routeCategory: string;
+  categoryReason?: string;
   bikeRoadRatio?: number;
 }
 
-const MAX_CIRCULAR_ATTEMPTS = 10;
+/**
+ * 카테고리 선택에 사용하는 경로 지표
+ */
+interface MeasuredPath {
+  path: GraphHopperPath & { bikeRoadRatio: number }; // bikeRoadRatio: 0~1
+  maxGradient: number; // 최대 오르막 경사도 (%)
+  majorRoadRatio: number; // 간선도로 비율 (0~1)
+}
+
+/**
+ * 카테고리 정의 (라벨, 정렬 기준, 선택 이유)
+ */
+interface CategoryDefinition {
+  label: string;
+  compare(a: MeasuredPath, b: MeasuredPath): number; // 앞설수록 우선
+  reason(measured: MeasuredPath, candidateCount: number): string;
+}
+
+// 시드를 1씩 늘려 가며 시도하는 최대 횟수 (경로 토큰의 시드 범위 검증에도 사용)
+export const MAX_CIRCULAR_ATTEMPTS = 10;
 const CIRCULAR_DISTANCE_TOLERANCE = 0.1; // ±10%
 const CIRCULAR_ROUTE_COUNT = 3;
-const CATEGORY_LABELS = {
-  bikeRoad: '자전거 도로 우선 경로',
-  shortest: '최단 거리 경로',
-  fastest: '최소 시간 경로',
-} as const;
+const RANKED_CANDIDATE_MULTIPLIER = 3; // 후보 순위 지정 시 추가로 모으는 후보 배수
+const CATEGORY_DEFINITIONS: Record<RouteCategory, CategoryDefinition> = {
+  [RouteCategory.BIKE_ROAD]: {
+    label: '자전거 도로 우선 경로',
+    compare: (a, b) => b.path.bikeRoadRatio - a.path.bikeRoadRatio,
+    reason: (m, n) =>
+      `후보 경로 ${n}개 중 자전거 도로 비율이 가장 높음 (${Math.round(m.path.bikeRoadRatio * 100)}%)`,
+  },
+  [RouteCategory.SHORTEST]: {
+    label: '최단 거리 경로',
+    compare: (a, b) => a.path.distance - b.path.distance,
+    reason: (m, n) =>
+      `후보 경로 ${n}개 중 거리가 가장 짧음 (${Math.round(m.path.distance)}m)`,
+  },
+  [RouteCategory.FASTEST]: {
+    label: '최소 시간 경로',
+    compare: (a, b) => a.path.time - b.path.time,
+    reason: (m, n) =>
+      `후보 경로 ${n}개 중 소요 시간이 가장 짧음 (${Math.round(m.path.time / 60000)}분)`,
+  },
+  [RouteCategory.LEAST_CLIMBING]: {
+    label: '최소 오르막 경로',
+    compare: (a, b) =>
+      a.path.ascend - b.path.ascend || a.path.time - b.path.time,
+    reason: (m, n) =>
+      `후보 경로 ${n}개 중 누적 상승 고도가 가장 낮음 (${Math.round(m.path.ascend)}m)`,
+  },
+  [RouteCategory.GENTLEST]: {
+    label: '완만한 경사 경로',
+    compare: (a, b) =>
+      a.maxGradient - b.maxGradient || a.path.ascend - b.path.ascend,
+    reason: (m, n) =>
+      `후보 경로 ${n}개 중 최대 경사도가 가장 완만함 (${m.maxGradient}%)`,
+  },
+  [RouteCategory.QUIETEST]: {
+    label: '한적한 도로 경로',
+    compare: (a, b) =>
+      a.majorRoadRatio - b.majorRoadRatio || a.path.time - b.path.time,
+    reason: (m, n) =>
+      `후보 경로 ${n}개 중 간선도로(primary/trunk) 비율이 가장 낮음 (${Math.round(m.majorRoadRatio * 100)}%)`,
+  },
+};
+
+export const DEFAULT_ROUTE_CATEGORIES: readonly RouteCategory[] = [
+  RouteCategory.BIKE_ROAD,
+  RouteCategory.SHORTEST,
+  RouteCategory.FASTEST,
+];
 
 /**
  * RouteOptimizerService
@@ -37,34 +101,50 @@ export class RouteOptimizerService {
   async findOptimalRoutes(
     start: { lat: number; lng: number },
     end: { lat: number; lng: number },
+    categories: readonly RouteCategory[] = DEFAULT_ROUTE_CATEGORIES,
   ): Promise<CategorizedPath[]> {
     const allPaths = await this.graphHopperService.getMultipleRoutes(
       start,
       end,
     );
-    return this.selectOptimalRoutes(allPaths);
+    return this.selectOptimalRoutes(allPaths, categories);
   }
 
   /**
    * 원형 경로 검색 (safe_bike, fast_bike 두 프로필, ±10% 거리, 최대 10회 시도, 3개 경로)
    * 목표 거리 ±10% 내의 원형 경로를 최대 10회 시도하여 3개 수집 후,
-   * selectOptimalRoutes로 자전거 도로 우선/최단 거리/최소 시간 경로 반환
+   * selectOptimalRoutes로 요청한 카테고리별 경로 반환 (기본: 자전거 도로 우선/최단 거리/최소 시간)
+   * - n번째 시도는 seed + n 시드를 사용하므로 같은 seed면 같은 후보가 생성됨
+   * - onCandidate 지정 시 조건을 만족하는 후보를 찾는 즉시 전달 (점진적 응답용, Promise면 완료까지 대기)
+   * - signal이 중단되면 다음 시도 전에 검색 종료
    */
   async findOptimalCircularRoutes(
     start: { lat: number; lng: number },
     targetDistance: number,
+    seed: number,
+    categories: readonly RouteCategory[] = DEFAULT_ROUTE_CATEGORIES,
+    rankCandidates?: (paths: GraphHopperPath[]) => GraphHopperPath[],
+    onCandidate?: (path: GraphHopperPath) => void | Promise<void>,
+    signal?: AbortSignal,
   ): Promise<CategorizedPath[]> {
     const minDistance = targetDistance * (1 - CIRCULAR_DISTANCE_TOLERANCE);
     const maxDistance = targetDistance * (1 + CIRCULAR_DISTANCE_TOLERANCE);
-    const candidatePaths: GraphHopperPath[] = [];
+    const routeCount = Math.max(CIRCULAR_ROUTE_COUNT, categories.length);
+    // 순위 기준(테마 등)이 있으면 후보를 더 모은 뒤 상위 후보만 카테고리 선택에 사용
+    const candidateCount = rankCandidates
+      ? routeCount * RANKED_CANDIDATE_MULTIPLIER
+      : routeCount;
+    let candidatePaths: GraphHopperPath[] = [];
     let attempts = 0;
     while (
-      candidatePaths.length < CIRCULAR_ROUTE_COUNT &&
+      candidatePaths.length < candidateCount &&
       attempts < MAX_CIRCULAR_ATTEMPTS
     ) {
+      signal?.throwIfAborted();
       const allPaths = await this.graphHopperService.getRoundTripRoutes(
         start,
         targetDistance,
+        seed + attempts,
       );
       for (const path of allPaths) {
         if (
@@ -73,71 +153,56 @@ export class RouteOptimizerService {
           !candidatePaths.some((p) => this.isSamePath(p, path))
         ) {
           candidatePaths.push(path);
+          await onCandidate?.(path);
         }
-        if (candidatePaths.length >= CIRCULAR_ROUTE_COUNT) break;
+        if (candidatePaths.length >= candidateCount) break;
       }
       attempts++;
     }
-    // 후보군이 3개가 될 때까지 반복 후 selectOptimalRoutes 호출
-    const optimal = this.selectOptimalRoutes(candidatePaths);
-    return optimal.slice(0, CIRCULAR_ROUTE_COUNT);
+    if (rankCandidates) {
+      candidatePaths = rankCandidates(candidatePaths).slice(0, routeCount);
+    }
+    // 후보군이 충분히 모일 때까지 반복 후 selectOptimalRoutes 호출
+    const optimal = this.selectOptimalRoutes(candidatePaths, categories);
+    return optimal.slice(0, routeCount);
   }
 
   /**
-   * 모든 경로에서 최적의 3개 경로 선택
-   * - 자전거 도로 비율이 가장 높은 경로
-   * - 최단 거리 경로
-   * - 최소 시간 경로
+   * 모든 경로에서 카테고리별 최적 경로 선택
+   * - 카테고리 순서대로 정렬 기준 1위 경로를 선택하되, 이미 선택된 경로는 제외
+   * - 기본 카테고리: 자전거 도로 비율 최고 / 최단 거리 / 최소 시간
    */
-  selectOptimalRoutes(allPaths: GraphHopperPath[]): CategorizedPath[] {
+  selectOptimalRoutes(
+    allPaths: GraphHopperPath[],
+    categories: readonly RouteCategory[] = DEFAULT_ROUTE_CATEGORIES,
+  ): CategorizedPath[] {
     if (allPaths.length === 0) return [];
-    const pathsWithRatio = allPaths.map((path) => ({
-      ...path,
-      bikeRoadRatio: this.routeUtil.calculateBikeRoadRatio(path),
+    const measuredPaths: MeasuredPath[] = allPaths.map((path) => ({
+      path: {
+        ...path,
+        bikeRoadRatio: this.routeUtil.calculateBikeRoadRatio(path),
+      },
+      maxGradient: this.routeUtil.calculateMaxGradient(path),
+      majorRoadRatio: this.routeUtil.calculateMajorRoadRatio(path),
     }));
-    // 카테고리별 정렬
-    const bikeRoadSorted = [...pathsWithRatio].sort(
-      (a, b) => (b.bikeRoadRatio || 0) - (a.bikeRoadRatio || 0),
-    );
-    const shortestSorted = [...pathsWithRatio].sort(
-      (a, b) => a.distance - b.distance,
-    );
-    const fastestSorted = [...pathsWithRatio].sort((a, b) => a.time - b.time);
 
     // 카테고리별 실제 경로와 라벨을 정확히 매칭해서 반환
     const used: GraphHopperPath[] = [];
-    let bikeRoadPath: GraphHopperPath | undefined;
-    let shortestPath: GraphHopperPath | undefined;
-    let fastestPath: GraphHopperPath | undefined;
+    const result: CategorizedPath[] = [];
+    for (const category of new Set(categories)) {
+      const definition = CATEGORY_DEFINITIONS[category];
+      const selected = [...measuredPaths]
+        .sort((a, b) => definition.compare(a, b))
+        .find(({ path }) => !used.some((p) => this.isSamePath(p, path)));
+      if (!selected) continue;
 
-    for (const path of bikeRoadSorted) {
-      if (!used.some((p) => this.isSamePath(p, path))) {
-        bikeRoadPath = path;
-        used.push(path);
-        break;
-      }
+      used.push(selected.path);
+      result.push({
+        ...selected.path,
+        routeCategory: definition.label,
+        categoryReason: definition.reason(selected, measuredPaths.length),
+      });
     }
-    for (const path of shortestSorted) {
-      if (!used.some((p) => this.isSamePath(p, path))) {
-        shortestPath = path;
-        used.push(path);
-        break;
-      }
-    }
-    for (const path of fastestSorted) {
-      if (!used.some((p) => this.isSamePath(p, path))) {
-        fastestPath = path;
-        used.push(path);
-        break;
-      }
-    }
-    const result: CategorizedPath[] = [];
-    if (bikeRoadPath)
-      result.push({ ...bikeRoadPath, routeCategory: CATEGORY_LABELS.bikeRoad });
-    if (shortestPath)
-      result.push({ ...shortestPath, routeCategory: CATEGORY_LABELS.shortest });
-    if (fastestPath)
-      result.push({ ...fastestPath, routeCategory: CATEGORY_LABELS.fastest });
     return result;
   }
 
@@ -158,7 +223,10 @@ export class RouteOptimizerService {
   /**
    * 다구간 경로용 - 경로들을 최적화하고 카테고리화
    */
-  optimizeAndCategorizeRoutes(paths: GraphHopperPath[]): CategorizedPath[] {
-    return this.selectOptimalRoutes(paths);
+  optimizeAndCategorizeRoutes(
+    paths: GraphHopperPath[],
+    categories: readonly RouteCategory[] = DEFAULT_ROUTE_CATEGORIES,
+  ): CategorizedPath[] {
+    return this.selectOptimalRoutes(paths, categories);
   }
 }
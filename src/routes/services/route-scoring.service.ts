@@ -0,0 +1,240 @@
+import { Injectable } from '@nestjs/common';
+import { RouteDto, RouteScoreDto, RouteSegmentDto } from '../dto/route.dto';
+import { RouteUtilService } from './route-util.service';
+
+/**
+ * 도로 등급별 안전 가중치 (0 ~ 1, 목록에 없는 등급은 DEFAULT_ROAD_CLASS_SAFETY)
+ */
+const ROAD_CLASS_SAFETY: Record<string, number> = {
+  cycleway: 1,
+  path: 0.9,
+  living_street: 0.85,
+  track: 0.8,
+  pedestrian: 0.8,
+  footway: 0.8,
+  residential: 0.75,
+  service: 0.7,
+  unclassified: 0.6,
+  tertiary: 0.5,
+  secondary: 0.35,
+  primary: 0.2,
+  trunk: 0.05,
+  motorway: 0,
+};
+
+const SCORING_CONSTANTS = {
+  DEFAULT_ROAD_CLASS_SAFETY: 0.5, // 알 수 없는 등급 / 도로 정보 없음
+  MAX_GRADIENT_PENALTY_AT: 12, // 최대 경사도(%)가 이 값 이상이면 경사 감점 최대
+  GRADIENT_PENALTY: 60,
+  MAX_ASCENT_PER_KM_PENALTY_AT: 30, // km당 상승 고도(m)가 이 값 이상이면 상승 감점 최대
+  ASCENT_PENALTY: 40,
+  MIN_DIRECT_DISTANCE: 200, // 출발/도착 직선 거리가 이보다 짧으면 원형 경로로 보고 직진성 제외
+} as const;
+
+/**
+ * 종합 점수 가중치 (직진성이 없으면 나머지 항목으로 재정규화)
+ */
+const SCORE_WEIGHTS = {
+  safety: 0.3,
+  comfort: 0.2,
+  directness: 0.2,
+  bikeInfrastructure: 0.3,
+} as const;
+
+/**
+ * 비교 문구에 포함할 최소 차이
+ */
+const COMPARISON_THRESHOLDS = {
+  BIKE_INFRASTRUCTURE: 5, // %p
+  ASCENT: 10, // m
+  SAFETY: 5, // 점
+  DISTANCE: 100, // m
+} as const;
+
+/**
+ * RouteScoringService
+ * - 경로별 품질 점수(안전성, 쾌적성, 직진성, 자전거 인프라) 계산
+ * - 가장 빠른 경로와 비교한 설명 문구 생성
+ */
+@Injectable()
+export class RouteScoringService {
+  constructor(private readonly routeUtil: RouteUtilService) {}
+
+  /**
+   * 경로 목록에 점수와 비교 문구 추가
+   */
+  attachScores(routes: RouteDto[]): RouteDto[] {
+    const scored = routes.map((route) => ({
+      ...route,
+      score: this.scoreRoute(route),
+    }));
+    if (scored.length < 2) return scored;
+
+    const fastest = scored.reduce((best, route) =>
+      route.summary.time < best.summary.time ? route : best,
+    );
+    return scored.map((route) => ({
+      ...route,
+      comparison:
+        route === fastest
+          ? `추천 경로 ${scored.length}개 중 가장 빠름`
+          : this.describeComparison(route, fastest),
+    }));
+  }
+
+  /**
+   * 경로 품질 점수 계산 (각 항목 0 ~ 100)
+   */
+  scoreRoute(route: RouteDto): RouteScoreDto {
+    const bikeSegments = route.segments.filter((s) => s.type === 'biking');
+    const safety = this.calculateSafety(bikeSegments);
+    const comfort = this.calculateComfort(route, bikeSegments);
+    const directness = this.calculateDirectness(route);
+    const bikeInfrastructure = this.calculateBikeInfrastructure(bikeSegments);
+
+    const weighted = [
+      [safety, SCORE_WEIGHTS.safety],
+      [comfort, SCORE_WEIGHTS.comfort],
+      [directness, SCORE_WEIGHTS.directness],
+      [bikeInfrastructure, SCORE_WEIGHTS.bikeInfrastructure],
+    ].filter((entry): entry is [number, number] => entry[0] !== undefined);
+    const totalWeight = weighted.reduce((sum, [, weight]) => sum + weight, 0);
+    const overall =
+      weighted.reduce((sum, [score, weight]) => sum + score * weight, 0) /
+      totalWeight;
+
+    return {
+      overall: Math.round(overall),
+      safety: Math.round(safety),
+      comfort: Math.round(comfort),
+      directness: directness !== undefined ? Math.round(directness) : undefined,
+      bikeInfrastructure: Math.round(bikeInfrastructure),
+    };
+  }
+
+  /**
+   * 안전성: 도로 등급별 주행 거리 × 안전 가중치의 평균
+   */
+  private calculateSafety(bikeSegments: RouteSegmentDto[]): number {
+    let totalDistance = 0;
+    let weightedSafety = 0;
+    for (const segment of bikeSegments) {
+      for (const [roadClass, distance] of Object.entries(
+        segment.summary.roadClassDistances ?? {},
+      )) {
+        totalDistance += distance;
+        weightedSafety +=
+          distance *
+          (ROAD_CLASS_SAFETY[roadClass] ??
+            SCORING_CONSTANTS.DEFAULT_ROAD_CLASS_SAFETY);
+      }
+    }
+    const ratio =
+      totalDistance > 0
+        ? weightedSafety / totalDistance
+        : SCORING_CONSTANTS.DEFAULT_ROAD_CLASS_SAFETY;
+    return ratio * 100;
+  }
+
+  /**
+   * 쾌적성: 최대 경사도와 km당 상승 고도에 따라 감점
+   */
+  private calculateComfort(
+    route: RouteDto,
+    bikeSegments: RouteSegmentDto[],
+  ): number {
+    const bikeDistance = bikeSegments.reduce(
+      (sum, s) => sum + s.summary.distance,
+      0,
+    );
+    const bikeAscent = bikeSegments.reduce(
+      (sum, s) => sum + s.summary.ascent,
+      0,
+    );
+    const ascentPerKm =
+      bikeDistance > 0 ? bikeAscent / (bikeDistance / 1000) : 0;
+    const maxGradient = route.summary.maxGradient ?? 0;
+
+    const gradientPenalty =
+      Math.min(maxGradient / SCORING_CONSTANTS.MAX_GRADIENT_PENALTY_AT, 1) *
+      SCORING_CONSTANTS.GRADIENT_PENALTY;
+    const ascentPenalty =
+      Math.min(
+        ascentPerKm / SCORING_CONSTANTS.MAX_ASCENT_PER_KM_PENALTY_AT,
+        1,
+      ) * SCORING_CONSTANTS.ASCENT_PENALTY;
+    return Math.max(100 - gradientPenalty - ascentPenalty, 0);
+  }
+
+  /**
+   * 직진성: 출발지-도착지 직선 거리 / 경로 거리 (원형 경로는 undefined)
+   */
+  private calculateDirectness(route: RouteDto): number | undefined {
+    const firstPoints = route.segments[0]?.geometry.points;
+    const lastPoints =
+      route.segments[route.segments.length - 1]?.geometry.points;
+    if (!firstPoints?.length || !lastPoints?.length) return undefined;
+
+    const directDistance = this.routeUtil.calculateDistance(
+      firstPoints[0],
+      lastPoints[lastPoints.length - 1],
+    );
+    if (
+      directDistance < SCORING_CONSTANTS.MIN_DIRECT_DISTANCE ||
+      route.summary.distance <= 0
+    ) {
+      return undefined;
+    }
+    return Math.min(directDistance / route.summary.distance, 1) * 100;
+  }
+
+  /**
+   * 자전거 인프라: 자전거 구간의 자전거 도로 비율 (calculateBikeRoadRatio 결과) 거리 가중 평균
+   */
+  private calculateBikeInfrastructure(bikeSegments: RouteSegmentDto[]): number {
+    return this.routeUtil.calculateOverallBikeRoadRatio(bikeSegments) * 100;
+  }
+
+  /**
+   * 가장 빠른 경로 대비 장단점 문구 (예: "4분 더 걸리지만 자전거 도로 35%p 더 많음")
+   */
+  private describeComparison(
+    route: RouteDto & { score: RouteScoreDto },
+    fastest: RouteDto & { score: RouteScoreDto },
+  ): string {
+    const advantages: string[] = [];
+
+    const bikeDiff = Math.round(
+      route.score.bikeInfrastructure - fastest.score.bikeInfrastructure,
+    );
+    if (bikeDiff >= COMPARISON_THRESHOLDS.BIKE_INFRASTRUCTURE) {
+      advantages.push(`자전거 도로 ${bikeDiff}%p 더 많음`);
+    }
+    const ascentDiff = Math.round(
+      fastest.summary.ascent - route.summary.ascent,
+    );
+    if (ascentDiff >= COMPARISON_THRESHOLDS.ASCENT) {
+      advantages.push(`오르막 ${ascentDiff}m 적음`);
+    }
+    const safetyDiff = route.score.safety - fastest.score.safety;
+    if (safetyDiff >= COMPARISON_THRESHOLDS.SAFETY) {
+      advantages.push(`안전성 ${safetyDiff}점 높음`);
+    }
+    const distanceDiff = fastest.summary.distance - route.summary.distance;
+    if (distanceDiff >= COMPARISON_THRESHOLDS.DISTANCE) {
+      advantages.push(`${(distanceDiff / 1000).toFixed(1)}km 더 짧음`);
+    }
+
+    const slowerMinutes = Math.round(
+      (route.summary.time - fastest.summary.time) / 60,
+    );
+    if (slowerMinutes > 0) {
+      return advantages.length > 0
+        ? `${slowerMinutes}분 더 걸리지만 ${advantages.join(', ')}`
+        : `${slowerMinutes}분 더 걸림`;
+    }
+    return advantages.length > 0
+      ? `소요 시간은 비슷하고 ${advantages.join(', ')}`
+      : '가장 빠른 경로와 비슷함';
+  }
+}
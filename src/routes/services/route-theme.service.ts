@@ -0,0 +1,102 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { RouteDto, RouteTheme } from '../dto/route.dto';
+import { GraphHopperPath } from '../interfaces/graphhopper.interface';
+import { RouteThemePoi } from '../interfaces/route-theme.interface';
+import { ROUTE_THEME_CATALOG } from './theme/route-theme.catalog';
+import { RouteUtilService } from './route-util.service';
+
+/**
+ * RouteThemeService
+ * - 테마 카탈로그(한강, 공원 등) 조회
+ * - 경로 길이 중 테마 영역 안을 지나는 비율(themeCoverage) 계산
+ */
+@Injectable()
+export class RouteThemeService {
+  constructor(private readonly routeUtil: RouteUtilService) {}
+
+  /**
+   * 테마 POI 조회 (테마에 없는 POI면 NotFoundException)
+   */
+  getPoi(theme: RouteTheme, poiId: string): RouteThemePoi {
+    const poi = ROUTE_THEME_CATALOG[theme].pois.find((p) => p.id === poiId);
+    if (!poi) {
+      throw new NotFoundException(
+        `테마(${theme})에서 POI를 찾을 수 없습니다. POI ID: ${poiId}`,
+      );
+    }
+    return poi;
+  }
+
+  /**
+   * 테마 영역 비율이 높은 순으로 경로 정렬
+   */
+  rankByCoverage(
+    paths: GraphHopperPath[],
+    theme: RouteTheme,
+  ): GraphHopperPath[] {
+    return paths
+      .map((path) => ({
+        path,
+        coverage: this.calculateCoverage(path.points.coordinates, theme),
+      }))
+      .sort((a, b) => b.coverage - a.coverage)
+      .map(({ path }) => path);
+  }
+
+  /**
+   * 경로의 자전거 구간 중 테마 영역 안을 지나는 거리 비율 (0 ~ 1)
+   */
+  calculateRouteCoverage(route: RouteDto, theme: RouteTheme): number {
+    let insideDistance = 0;
+    let totalDistance = 0;
+    route.segments
+      .filter((segment) => segment.type === 'biking')
+      .forEach((segment) => {
+        const measured = this.measureCoverage(segment.geometry.points, theme);
+        insideDistance += measured.insideDistance;
+        totalDistance += measured.totalDistance;
+      });
+    return totalDistance > 0
+      ? Math.round((insideDistance / totalDistance) * 100) / 100
+      : 0;
+  }
+
+  /**
+   * 좌표열 중 테마 영역 안을 지나는 거리 비율 (0 ~ 1)
+   */
+  calculateCoverage(points: number[][], theme: RouteTheme): number {
+    const { insideDistance, totalDistance } = this.measureCoverage(
+      points,
+      theme,
+    );
+    return totalDistance > 0 ? insideDistance / totalDistance : 0;
+  }
+
+  /**
+   * 좌표 구간별 중점이 테마 영역 안에 있으면 해당 구간 거리를 영역 내 거리로 집계
+   */
+  private measureCoverage(
+    points: number[][],
+    theme: RouteTheme,
+  ): { insideDistance: number; totalDistance: number } {
+    const { areas } = ROUTE_THEME_CATALOG[theme];
+    let insideDistance = 0;
+    let totalDistance = 0;
+
+    for (let i = 1; i < points.length; i++) {
+      const [prevLng, prevLat] = points[i - 1];
+      const [lng, lat] = points[i];
+      const distance = this.routeUtil.calculateDistance(
+        points[i - 1],
+        points[i],
+      );
+      const midpoint = [(prevLng + lng) / 2, (prevLat + lat) / 2];
+
+      totalDistance += distance;
+      if (areas.some((ring) => this.routeUtil.isPointInRing(ring, midpoint))) {
+        insideDistance += distance;
+      }
+    }
+    return { insideDistance, totalDistance };
+  }
+}
@@ -0,0 +1,82 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import {
+  BikeProfile,
+  MAX_CIRCULAR_DISTANCE,
+  MAX_ROUTE_SEED,
+  MIN_CIRCULAR_DISTANCE,
+} from '../dto/route.dto';
+import { MAX_CIRCULAR_ATTEMPTS } from './route-optimizer.service';
+
+/**
+ * 원형 경로 재생성에 필요한 정보
+ */
+export interface CircularRouteToken {
+  seed: number; // 원형 경로 생성 시드
+  profile: BikeProfile; // 자전거 프로필
+  stationNumber: string; // 출발/반납 대여소 번호
+  distance: number; // 목표 거리 (미터)
+}
+
+const TOKEN_VERSION = 1;
+
+/**
+ * RouteTokenService
+ * - 원형 경로 토큰 생성/해석 (base64url 인코딩된 JSON)
+ * - 토큰을 다시 보내면 같은 시드로 동일한 원형 경로를 재생성할 수 있음
+ */
+@Injectable()
+export class RouteTokenService {
+  /**
+   * 원형 경로 토큰 생성
+   */
+  encodeCircularRoute(token: CircularRouteToken): string {
+    const payload = [
+      TOKEN_VERSION,
+      token.seed,
+      token.profile,
+      token.stationNumber,
+      Math.round(token.distance),
+    ];
+    return Buffer.from(JSON.stringify(payload)).toString('base64url');
+  }
+
+  /**
+   * 원형 경로 토큰 해석 (형식이 맞지 않으면 BadRequestException)
+   * - 거리는 원형 경로 요청과 같은 범위만 허용
+   * - 시드는 요청 시드 + 재시도 횟수까지 커질 수 있으므로 [0, MAX_ROUTE_SEED + MAX_CIRCULAR_ATTEMPTS) 범위 허용
+   */
+  decodeCircularRoute(routeToken: string): CircularRouteToken {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(Buffer.from(routeToken, 'base64url').toString());
+    } catch {
+      payload = undefined;
+    }
+
+    if (!Array.isArray(payload) || payload[0] !== TOKEN_VERSION) {
+      throw new BadRequestException('유효하지 않은 경로 토큰입니다.');
+    }
+
+    const [, seed, profile, stationNumber, distance] = payload as unknown[];
+    if (
+      typeof seed !== 'number' ||
+      !Number.isInteger(seed) ||
+      seed < 0 ||
+      seed >= MAX_ROUTE_SEED + MAX_CIRCULAR_ATTEMPTS ||
+      !Object.values<unknown>(BikeProfile).includes(profile) ||
+      typeof stationNumber !== 'string' ||
+      typeof distance !== 'number' ||
+      distance < MIN_CIRCULAR_DISTANCE ||
+      distance > MAX_CIRCULAR_DISTANCE
+    ) {
+      throw new BadRequestException('유효하지 않은 경로 토큰입니다.');
+    }
+
+    return {
+      seed,
+      profile: profile as BikeProfile,
+      stationNumber,
+      distance,
+    };
+  }
+}
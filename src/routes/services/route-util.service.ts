@@ -1,5 +1,11 @@
 import { Injectable } from '@nestjs/common';
 import { GraphHopperPath } from '../interfaces/graphhopper.interface';
+import {
+  BikeInfrastructureBreakdownDto,
+  BikeInfrastructureType,
+  InfrastructureStretchDto,
+  RouteSegmentDto,
+} from '../dto/route.dto';
 
 /**
  * RouteUtilService
@@ -7,14 +13,44 @@ import { GraphHopperPath } from '../interfaces/graphhopper.interface';
  */
 @Injectable()
 export class RouteUtilService {
-  private static readonly BIKE_ROAD_CLASSES = [
-    'cycleway',
-    'path',
-    'track',
-    'living_street',
-    'service',
-    'residential',
+  /**
+   * 도로 등급(road_class) → 자전거 기반 시설 분류 (목록에 없는 등급은 OTHER)
+   */
+  private static readonly ROAD_CLASS_INFRASTRUCTURE: Record<
+    string,
+    BikeInfrastructureType
+  > = {
+    cycleway: BikeInfrastructureType.DEDICATED_CYCLEWAY,
+    path: BikeInfrastructureType.SHARED_PATH,
+    track: BikeInfrastructureType.SHARED_PATH,
+    footway: BikeInfrastructureType.SHARED_PATH,
+    pedestrian: BikeInfrastructureType.SHARED_PATH,
+    bridleway: BikeInfrastructureType.SHARED_PATH,
+    living_street: BikeInfrastructureType.SHARED_PATH,
+    residential: BikeInfrastructureType.RESIDENTIAL,
+    service: BikeInfrastructureType.RESIDENTIAL,
+    unclassified: BikeInfrastructureType.RESIDENTIAL,
+    tertiary: BikeInfrastructureType.ARTERIAL,
+    secondary: BikeInfrastructureType.ARTERIAL,
+    primary: BikeInfrastructureType.ARTERIAL,
+    trunk: BikeInfrastructureType.ARTERIAL,
+    motorway: BikeInfrastructureType.ARTERIAL,
+  };
+  private static readonly BIKE_ROAD_INFRASTRUCTURE = [
+    BikeInfrastructureType.DEDICATED_CYCLEWAY,
+    BikeInfrastructureType.SHARED_PATH,
   ];
+  private static readonly INFRASTRUCTURE_BREAKDOWN_KEYS: Record<
+    BikeInfrastructureType,
+    keyof BikeInfrastructureBreakdownDto
+  > = {
+    [BikeInfrastructureType.DEDICATED_CYCLEWAY]: 'dedicatedCycleway',
+    [BikeInfrastructureType.SHARED_PATH]: 'sharedPath',
+    [BikeInfrastructureType.RESIDENTIAL]: 'residential',
+    [BikeInfrastructureType.ARTERIAL]: 'arterial',
+    [BikeInfrastructureType.OTHER]: 'other',
+  };
+  private static readonly MAJOR_ROAD_CLASSES = ['primary', 'trunk'];
   /**
    * 여러 경로 세그먼트의 전체 자전거 도로 비율 계산
    * @param segments RouteSegmentDto[]
@@ -23,9 +59,7 @@ export class RouteUtilService {
   /**
    * 여러 경로 세그먼트의 전체 자전거 도로 비율 계산
    */
-  public calculateOverallBikeRoadRatio(
-    segments: import('../dto/route.dto').RouteSegmentDto[],
-  ): number {
+  public calculateOverallBikeRoadRatio(segments: RouteSegmentDto[]): number {
     let totalBikeDistance = 0;
     let totalBikeRoadDistance = 0;
     for (const segment of segments) {
@@ -69,66 +103,174 @@ export class RouteUtilService {
     return smoothed;
   }
   /**
-   * 자전거 도로 비율 계산
-   * GraphHopper의 상세 정보를 이용해 정확한 자전거 도로 비율을 계산
+   * 자전거 도로 비율 계산 (0~1)
+   * - 자전거 전용도로와 겸용 도로(자전거 노선 지정 도로 포함)만 자전거 도로로 집계
+   * - road_class 상세 정보가 없으면 0
    */
+  calculateBikeRoadRatio(path: GraphHopperPath): number {
+    const stretches = this.calculateInfrastructureStretches(path);
+    const totalDistance = stretches.reduce((sum, s) => sum + s.distance, 0);
+    if (totalDistance === 0) return 0;
+    const bikeRoadDistance = stretches
+      .filter((s) => RouteUtilService.BIKE_ROAD_INFRASTRUCTURE.includes(s.type))
+      .reduce((sum, s) => sum + s.distance, 0);
+    return Math.min(bikeRoadDistance / totalDistance, 1);
+  }
+
   /**
-   * 자전거 도로 비율 계산 (GraphHopper 상세 정보 기반)
+   * 자전거 기반 시설 구간 계산 (road_class + bike_network 상세 정보 기반)
+   * - 두 상세 정보의 경계 인덱스로 구간을 나누어 분류한 뒤, 같은 분류의 연속 구간은 병합
+   * @returns geometry 인덱스 범위별 분류 및 거리(미터) - 상세 정보가 없으면 빈 배열
    */
-  calculateBikeRoadRatio(path: GraphHopperPath): number {
-    if (
-      !path.details ||
-      !path.details.road_class ||
-      !path.points?.coordinates
-    ) {
-      return 0;
-    }
-    let bikeRoadDistance = 0;
-    const totalDistance = path.distance;
-    const points = path.points.coordinates;
-    // 누적 거리 계산
+  calculateInfrastructureStretches(
+    path: GraphHopperPath,
+  ): InfrastructureStretchDto[] {
+    const roadClasses = path.details?.road_class;
+    const points = path.points?.coordinates;
+    if (!roadClasses || !points || points.length < 2) return [];
+    const bikeNetworks = path.details?.bike_network ?? [];
+
     const cumulativeDistances: number[] = [0];
     for (let i = 1; i < points.length; i++) {
-      const prevDistance = cumulativeDistances[i - 1];
-      const segmentDist = this.calculateDistance(points[i - 1], points[i]);
-      cumulativeDistances.push(prevDistance + segmentDist);
+      cumulativeDistances.push(
+        cumulativeDistances[i - 1] +
+          this.calculateDistance(points[i - 1], points[i]),
+      );
     }
-    // road_class 세부 정보에서 자전거 도로 구간의 실제 거리를 계산
-    for (const detail of path.details.road_class) {
-      const [startIndex, endIndex, roadClass] = detail;
-      const segmentDistance =
-        cumulativeDistances[endIndex] - cumulativeDistances[startIndex];
-      if (RouteUtilService.BIKE_ROAD_CLASSES.includes(roadClass)) {
-        bikeRoadDistance += segmentDistance;
+    const boundaries = [
+      ...new Set(
+        [...roadClasses, ...bikeNetworks].flatMap(([start, end]) => [
+          Math.min(start, points.length - 1),
+          Math.min(end, points.length - 1),
+        ]),
+      ),
+    ].sort((a, b) => a - b);
+
+    const stretches: InfrastructureStretchDto[] = [];
+    for (let i = 1; i < boundaries.length; i++) {
+      const [from, to] = [boundaries[i - 1], boundaries[i]];
+      const contains = ([start, end]: [number, number, string]) =>
+        start <= from && end >= to;
+      const type = this.classifyInfrastructure(
+        roadClasses.find(contains)?.[2],
+        bikeNetworks.find(contains)?.[2],
+      );
+      const distance = cumulativeDistances[to] - cumulativeDistances[from];
+
+      const last = stretches[stretches.length - 1];
+      if (last && last.type === type && last.interval[1] === from) {
+        last.interval[1] = to;
+        last.distance += distance;
+      } else {
+        stretches.push({ type, interval: [from, to], distance });
       }
     }
-    // bike_network 정보가 있는 경우 추가로 확인
-    if (path.details.bike_network) {
-      for (const detail of path.details.bike_network) {
-        const [startIndex, endIndex, bikeNetwork] = detail;
-        const segmentDistance =
-          cumulativeDistances[endIndex] - cumulativeDistances[startIndex];
-        if (bikeNetwork && bikeNetwork !== 'missing') {
-          // 이미 road_class에서 자전거 도로로 분류된 구간인지 확인
-          const isAlreadyCounted = path.details.road_class.some(
-            (roadDetail) => {
-              const [roadStart, roadEnd, roadClass] = roadDetail;
-              return (
-                roadStart <= startIndex &&
-                roadEnd >= endIndex &&
-                RouteUtilService.BIKE_ROAD_CLASSES.includes(roadClass)
-              );
-            },
-          );
-          if (!isAlreadyCounted) {
-            bikeRoadDistance += segmentDistance;
-          }
-        }
+    return stretches.map((stretch) => ({
+      ...stretch,
+      distance: Math.round(stretch.distance),
+    }));
+  }
+
+  /**
+   * 자전거 기반 시설 구간 목록을 분류별 거리(미터)로 합산
+   */
+  calculateInfrastructureBreakdown(
+    stretches: InfrastructureStretchDto[],
+  ): BikeInfrastructureBreakdownDto {
+    const breakdown: BikeInfrastructureBreakdownDto = {
+      dedicatedCycleway: 0,
+      sharedPath: 0,
+      residential: 0,
+      arterial: 0,
+      other: 0,
+    };
+    for (const stretch of stretches) {
+      breakdown[RouteUtilService.INFRASTRUCTURE_BREAKDOWN_KEYS[stretch.type]] +=
+        stretch.distance;
+    }
+    return breakdown;
+  }
+
+  /**
+   * 여러 세그먼트의 자전거 기반 시설별 거리 합산 (세그먼트 summary 기준)
+   * - 기반 시설 정보가 있는 세그먼트가 없으면 undefined
+   */
+  calculateOverallInfrastructure(
+    segments: RouteSegmentDto[],
+  ): BikeInfrastructureBreakdownDto | undefined {
+    const breakdowns = segments
+      .map((segment) => segment.summary.infrastructure)
+      .filter(
+        (breakdown): breakdown is BikeInfrastructureBreakdownDto => !!breakdown,
+      );
+    if (breakdowns.length === 0) return undefined;
+
+    return breakdowns.reduce((total, breakdown) => ({
+      dedicatedCycleway: total.dedicatedCycleway + breakdown.dedicatedCycleway,
+      sharedPath: total.sharedPath + breakdown.sharedPath,
+      residential: total.residential + breakdown.residential,
+      arterial: total.arterial + breakdown.arterial,
+      other: total.other + breakdown.other,
+    }));
+  }
+
+  /**
+   * 도로 등급과 자전거 노선 정보로 자전거 기반 시설 분류
+   * - 자전거 노선(bike_network)으로 지정된 이면도로 / 미분류 도로는 겸용 도로로 승격
+   * - 간선도로는 자전거 노선이어도 차량과 함께 달리므로 간선도로로 유지
+   */
+  private classifyInfrastructure(
+    roadClass?: string,
+    bikeNetwork?: string,
+  ): BikeInfrastructureType {
+    const type =
+      (roadClass && RouteUtilService.ROAD_CLASS_INFRASTRUCTURE[roadClass]) ||
+      BikeInfrastructureType.OTHER;
+    const onBikeNetwork = !!bikeNetwork && bikeNetwork !== 'missing';
+    if (
+      onBikeNetwork &&
+      (type === BikeInfrastructureType.RESIDENTIAL ||
+        type === BikeInfrastructureType.OTHER)
+    ) {
+      return BikeInfrastructureType.SHARED_PATH;
+    }
+    return type;
+  }
+
+  /**
+   * 간선도로(primary, trunk) 비율 계산 (0~1)
+   * - road_class 상세 정보가 없으면 0
+   */
+  calculateMajorRoadRatio(path: GraphHopperPath): number {
+    const distances = Object.entries(this.calculateRoadClassDistances(path));
+    const totalDistance = distances.reduce((sum, [, d]) => sum + d, 0);
+    const majorRoadDistance = distances
+      .filter(([roadClass]) =>
+        RouteUtilService.MAJOR_ROAD_CLASSES.includes(roadClass),
+      )
+      .reduce((sum, [, d]) => sum + d, 0);
+    return totalDistance > 0 ? majorRoadDistance / totalDistance : 0;
+  }
+
+  /**
+   * 도로 등급(road_class)별 주행 거리 계산
+   * @param path GraphHopper 경로 객체
+   * @returns { [road_class]: 거리(미터) } - 상세 정보가 없으면 빈 객체
+   */
+  calculateRoadClassDistances(path: GraphHopperPath): Record<string, number> {
+    const roadClasses = path.details?.road_class;
+    const points = path.points?.coordinates;
+    if (!roadClasses || !points || points.length < 2) return {};
+
+    const distances: Record<string, number> = {};
+    for (const [startIndex, endIndex, roadClass] of roadClasses) {
+      let segmentDistance = 0;
+      for (let i = startIndex + 1; i <= endIndex && i < points.length; i++) {
+        segmentDistance += this.calculateDistance(points[i - 1], points[i]);
       }
+      distances[roadClass] = (distances[roadClass] ?? 0) + segmentDistance;
     }
-    if (totalDistance === 0) return 0;
-    const ratio = (bikeRoadDistance / totalDistance) * 100;
-    return Math.min(ratio, 100);
+    return distances;
   }
 
   /**
@@ -155,6 +297,24 @@ export class RouteUtilService {
     return R * c;
   }
 
+  /**
+   * 좌표가 링(닫힌 폴리곤 외곽선) 내부에 있는지 확인 (Ray casting)
+   * @param ring 폴리곤 링 [[lng, lat], ...]
+   * @param point 확인할 좌표 [lng, lat]
+   * @returns 내부 여부
+   */
+  isPointInRing(ring: number[][], [x, y]: number[]): boolean {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+      if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+        inside = !inside;
+      }
+    }
+    return inside;
+  }
+
   /**
    * 경로들의 전체 경계 상자(Bounding Box) 계산
    * @param paths GraphHopper 경로 배열
@@ -0,0 +1,247 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import {
+  BikeProfile,
+  RouteStationDto,
+  StationMatrixDto,
+  StationMatrixRequestDto,
+  StationMatrixResponseDto,
+} from '../dto/route.dto';
+import { StationTravelTime } from '../entities/station-travel-time.entity';
+import { GraphHopperService } from './graphhopper.service';
+import { StationRouteService } from './station-route.service';
+
+/**
+ * 대여소 쌍별 이동 거리(미터)/시간(초)
+ */
+interface TravelCost {
+  distance: number;
+  time: number;
+}
+
+const MATRIX_CONSTANTS = {
+  RESULT_MAX_AGE_DAYS: 30, // 저장된 결과 재사용 기간
+  COORD_TOLERANCE: 0.00001, // 좌표 변경 판단 허용 오차 (약 1m)
+} as const;
+
+/**
+ * StationMatrixService
+ * - 출발/도착 대여소 간 프로필별 거리/시간 행렬 계산 (분석, 재배치용)
+ * - 계산 결과는 DB에 저장하고, 대여소 좌표가 그대로면 재사용
+ */
+@Injectable()
+export class StationMatrixService {
+  private readonly logger = new Logger(StationMatrixService.name);
+
+  constructor(
+    @InjectRepository(StationTravelTime)
+    private readonly travelTimeRepository: Repository<StationTravelTime>,
+    private readonly graphHopperService: GraphHopperService,
+    private readonly stationRouteService: StationRouteService,
+  ) {}
+
+  /**
+   * 대여소 간 거리/시간 행렬 계산
+   */
+  async buildMatrix(
+    request: StationMatrixRequestDto,
+  ): Promise<StationMatrixResponseDto> {
+    const destinationNumbers = request.destinations ?? request.origins;
+    const profiles = request.profiles?.length
+      ? [...new Set(request.profiles)]
+      : [BikeProfile.SAFE_BIKE];
+
+    const stations = await this.resolveStations([
+      ...new Set([...request.origins, ...destinationNumbers]),
+    ]);
+    const origins = request.origins.map((number) => stations.get(number)!);
+    const destinations = destinationNumbers.map(
+      (number) => stations.get(number)!,
+    );
+
+    let reusedPairs = 0;
+    let computedPairs = 0;
+    const matrices: StationMatrixDto[] = [];
+
+    for (const profile of profiles) {
+      const { costs, reused, computed } = await this.loadOrComputeCosts(
+        origins,
+        destinations,
+        profile,
+      );
+      reusedPairs += reused;
+      computedPairs += computed;
+
+      const lookup = (origin: RouteStationDto, destination: RouteStationDto) =>
+        origin.number === destination.number
+          ? { distance: 0, time: 0 }
+          : costs.get(this.pairKey(origin.number, destination.number));
+
+      matrices.push({
+        profile,
+        distances: origins.map((origin) =>
+          destinations.map(
+            (destination) => lookup(origin, destination)?.distance ?? null,
+          ),
+        ),
+        times: origins.map((origin) =>
+          destinations.map(
+            (destination) => lookup(origin, destination)?.time ?? null,
+          ),
+        ),
+      });
+    }
+
+    this.logger.debug(
+      `대여소 행렬 계산 완료 - ${origins.length}x${destinations.length}, 프로필: ${profiles.join(',')}, 재사용: ${reusedPairs}쌍, 신규 계산: ${computedPairs}쌍`,
+    );
+
+    return { origins, destinations, matrices, reusedPairs, computedPairs };
+  }
+
+  /**
+   * 대여소 번호 → 대여소 정보 (없는 번호가 있으면 NotFoundException)
+   */
+  private async resolveStations(
+    numbers: string[],
+  ): Promise<Map<string, RouteStationDto>> {
+    const resolved = await Promise.all(
+      numbers.map((number) =>
+        this.stationRouteService.findStationByNumber(number),
+      ),
+    );
+
+    const missing = numbers.filter((_, idx) => !resolved[idx]);
+    if (missing.length > 0) {
+      throw new NotFoundException(
+        `대여소를 찾을 수 없습니다. 대여소 번호: ${missing.join(', ')}`,
+      );
+    }
+
+    return new Map(numbers.map((number, idx) => [number, resolved[idx]!]));
+  }
+
+  /**
+   * 저장된 결과를 우선 사용하고, 없거나 오래된 쌍만 새로 계산 후 저장
+   */
+  private async loadOrComputeCosts(
+    origins: RouteStationDto[],
+    destinations: RouteStationDto[],
+    profile: BikeProfile,
+  ): Promise<{
+    costs: Map<string, TravelCost>;
+    reused: number;
+    computed: number;
+  }> {
+    const uniqueOrigins = this.uniqueStations(origins);
+    const uniqueDestinations = this.uniqueStations(destinations);
+
+    const stored = await this.travelTimeRepository.find({
+      where: {
+        origin_number: In(uniqueOrigins.map((s) => s.number)),
+        destination_number: In(uniqueDestinations.map((s) => s.number)),
+        profile,
+      },
+    });
+    const storedByPair = new Map(
+      stored.map((row) => [
+        this.pairKey(row.origin_number, row.destination_number),
+        row,
+      ]),
+    );
+
+    const costs = new Map<string, TravelCost>();
+    const missingPairs: { from: RouteStationDto; to: RouteStationDto }[] = [];
+    for (const from of uniqueOrigins) {
+      for (const to of uniqueDestinations) {
+        if (from.number === to.number) continue;
+        const key = this.pairKey(from.number, to.number);
+        const row = storedByPair.get(key);
+        if (row && this.isReusable(row, from, to)) {
+          costs.set(key, { distance: row.distance, time: row.time });
+        } else {
+          missingPairs.push({ from, to });
+        }
+      }
+    }
+    const reused = costs.size;
+
+    const results = await this.graphHopperService.getPairRoutes(
+      missingPairs,
+      profile,
+    );
+    const rowsToSave: Partial<StationTravelTime>[] = [];
+    results.forEach((result, idx) => {
+      if (!result) return;
+      const { from, to } = missingPairs[idx];
+      const cost = {
+        distance: Math.round(result.distance),
+        time: Math.round(result.time / 1000),
+      };
+      costs.set(this.pairKey(from.number, to.number), cost);
+      rowsToSave.push({
+        origin_number: from.number,
+        destination_number: to.number,
+        profile,
+        ...cost,
+        origin_lat: from.lat,
+        origin_lng: from.lng,
+        destination_lat: to.lat,
+        destination_lng: to.lng,
+      });
+    });
+
+    await this.saveCosts(rowsToSave);
+    return { costs, reused, computed: rowsToSave.length };
+  }
+
+  /**
+   * 계산 결과 저장 (실패해도 응답에는 영향 없음)
+   */
+  private async saveCosts(rows: Partial<StationTravelTime>[]): Promise<void> {
+    if (rows.length === 0) return;
+    try {
+      await this.travelTimeRepository.upsert(rows, [
+        'origin_number',
+        'destination_number',
+        'profile',
+      ]);
+    } catch (error) {
+      this.logger.warn(`대여소 이동 시간 저장 실패 - ${rows.length}쌍`);
+      this.logger.debug(`에러 상세:`, error);
+    }
+  }
+
+  /**
+   * 저장된 결과 재사용 가능 여부 (보관 기간 + 대여소 좌표 변경 여부)
+   */
+  private isReusable(
+    row: StationTravelTime,
+    from: RouteStationDto,
+    to: RouteStationDto,
+  ): boolean {
+    const maxAgeMs = MATRIX_CONSTANTS.RESULT_MAX_AGE_DAYS * 24 * 60 * 60 * 1000;
+    const isFresh = Date.now() - new Date(row.updated_at).getTime() < maxAgeMs;
+    const isSameCoordinate = (a: number, b: number) =>
+      Math.abs(a - b) < MATRIX_CONSTANTS.COORD_TOLERANCE;
+
+    return (
+      isFresh &&
+      isSameCoordinate(row.origin_lat, from.lat) &&
+      isSameCoordinate(row.origin_lng, from.lng) &&
+      isSameCoordinate(row.destination_lat, to.lat) &&
+      isSameCoordinate(row.destination_lng, to.lng)
+    );
+  }
+
+  private uniqueStations(stations: RouteStationDto[]): RouteStationDto[] {
+    return [
+      ...new Map(stations.map((station) => [station.number, station])).values(),
+    ];
+  }
+
+  private pairKey(originNumber: string, destinationNumber: string): string {
+    return `${originNumber}|${destinationNumber}`;
+  }
+}
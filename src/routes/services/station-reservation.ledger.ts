@@ -0,0 +1,215 @@
+import { NotFoundException } from '@nestjs/common';
+import { StationResponseDto } from '../../stations/dto/station-api.dto';
+import type { StationPurpose } from './station-route.service';
+
+/**
+ * 대여소별 조회 재고와 배정 수량
+ * - 재고는 용도별로 처음 조회한 값을 기준으로 고정 (조회 전이면 undefined → 제한 없음)
+ */
+interface StationReservation {
+  name: string;
+  bikes?: number; // 대여 후보 검색에서 조회한 자전거 수 (출발 시각 예측 재고 포함)
+  freeDocks?: number; // 반납 후보 검색에서 조회한 빈 거치대 수 (반납 시각 예측 재고 포함)
+  rentals: number; // 앞선 요청에 배정된 대여 수
+  returns: number; // 앞선 요청에 배정된 반납 수
+}
+
+/**
+ * 대여소 배정 현황 (배치 응답용)
+ */
+export interface StationReservationSummary {
+  number: string;
+  name: string;
+  reservedRentals: number;
+  reservedReturns: number;
+  availableBikes: number | null; // 재고를 조회하지 않은 대여소는 null
+  availableDocks: number | null;
+}
+
+/**
+ * 후보 대여소의 재고가 모두 다른 요청에 배정되어 선택할 대여소가 없음
+ * - 동시에 처리 중인 요청이 먼저 배정한 경우이므로 다시 검색하면 다른 후보를 찾을 수 있음
+ */
+export class StationReservationExhausted extends NotFoundException {
+  constructor() {
+    super(
+      '후보 대여소의 자전거 또는 빈 거치대가 앞선 요청에 모두 배정되었습니다.',
+    );
+  }
+}
+
+/**
+ * StationReservationLedger
+ * - 배치 경로 검색 1회 동안 대여소별 대여/반납 배정 수량을 기록
+ * - 후보 검색 시 앞선 요청에 배정된 수량만큼 재고를 줄여 전략에 적용
+ *   (자전거 5대인 대여소에 30명이 몰리지 않도록)
+ * - 배정은 동기 코드에서 확인과 동시에 기록하므로 병렬 처리 중에도 초과 배정되지 않음
+ * - 대여 조회(출발 시각)와 반납 조회(반납 시각)는 예측 시점이 달라 재고를 용도별로 따로 기록
+ * - 대여로 비는 거치대, 반납으로 채워지는 자전거는 시점을 알 수 없어 반영하지 않음
+ * - 요청 1건은 fork()한 장부를 사용하고, 실패하면 rollback()으로 그 요청의 배정만 취소
+ * - 사용자에게 배정하지 않는 대안 경로는 preview()한 장부로 남은 재고만 확인
+ */
+export class StationReservationLedger {
+  private stations = new Map<string, StationReservation>();
+  private readonly reserved: { number: string; purpose: StationPurpose }[] = [];
+  private parent?: StationReservationLedger;
+  private dryRun = false;
+
+  /**
+   * 배정 현황을 공유하는 요청 1건용 장부
+   */
+  fork(): StationReservationLedger {
+    const scoped = new StationReservationLedger();
+    scoped.stations = this.stations;
+    scoped.parent = this;
+    scoped.dryRun = this.dryRun;
+    return scoped;
+  }
+
+  /**
+   * 배정 현황은 반영하되 배정은 기록하지 않는 장부
+   * - tryReserve/tryReservePair는 남은 재고 여부만 확인
+   */
+  preview(): StationReservationLedger {
+    const scoped = this.fork();
+    scoped.dryRun = true;
+    return scoped;
+  }
+
+  /**
+   * 이 장부로 배정한 수량을 fork()한 장부로 넘김 (이후 상위 장부의 rollback()으로 취소)
+   */
+  commit(): void {
+    this.parent?.reserved.push(...this.reserved.splice(0));
+  }
+
+  /**
+   * 이 장부로 배정한 수량 모두 취소
+   */
+  rollback(): void {
+    for (const { number, purpose } of this.reserved.splice(0)) {
+      const entry = this.stations.get(number);
+      if (!entry) continue;
+      if (purpose === 'rental') {
+        entry.rentals = Math.max(entry.rentals - 1, 0);
+      } else {
+        entry.returns = Math.max(entry.returns - 1, 0);
+      }
+    }
+  }
+
+  /**
+   * 용도별 재고를 처음 조회했을 때 기록하고 배정 수량을 뺀 대여소 복사본 반환
+   * - 이후 조회 값으로 덮어쓰지 않음 (요청마다 조회 시점이 달라도 같은 기준으로 배정)
+   * - 대여: 자전거 수 차감 / 반납: 남은 빈 거치대만 남도록 자전거 수 조정
+   */
+  applyTo(
+    station: StationResponseDto,
+    purpose: StationPurpose,
+  ): StationResponseDto {
+    if (!station.number) {
+      return station;
+    }
+
+    const entry = this.stations.get(station.number) ?? {
+      name: station.name,
+      rentals: 0,
+      returns: 0,
+    };
+    entry.name ||= station.name;
+    this.stations.set(station.number, entry);
+
+    if (purpose === 'rental') {
+      entry.bikes ??= station.current_bikes ?? 0;
+      return {
+        ...station,
+        current_bikes: Math.max(entry.bikes - entry.rentals, 0),
+      };
+    }
+
+    const totalRacks = station.total_racks ?? 0;
+    entry.freeDocks ??= Math.max(totalRacks - (station.current_bikes ?? 0), 0);
+    const remainingDocks = Math.max(entry.freeDocks - entry.returns, 0);
+    return {
+      ...station,
+      current_bikes: Math.max(totalRacks - remainingDocks, 0),
+    };
+  }
+
+  /**
+   * 대여 1건 + 반납 1건을 함께 배정 (둘 중 하나라도 남은 재고가 없으면 배정하지 않음)
+   * - 재고를 조회한 적 없는 대여소는 제한 없이 배정
+   */
+  tryReservePair(startNumber: string, endNumber: string): boolean {
+    if (
+      !this.hasRemaining(startNumber, 'rental') ||
+      !this.hasRemaining(endNumber, 'return')
+    ) {
+      return false;
+    }
+    if (this.dryRun) {
+      return true;
+    }
+    this.reserve(startNumber, 'rental');
+    this.reserve(endNumber, 'return');
+    return true;
+  }
+
+  /**
+   * 대여 또는 반납 1건 배정
+   */
+  tryReserve(number: string, purpose: StationPurpose): boolean {
+    if (!this.hasRemaining(number, purpose)) {
+      return false;
+    }
+    if (!this.dryRun) {
+      this.reserve(number, purpose);
+    }
+    return true;
+  }
+
+  /**
+   * 배정이 한 건 이상 있는 대여소 목록 (대여소 번호순)
+   */
+  summarize(): StationReservationSummary[] {
+    return [...this.stations.entries()]
+      .filter(([, entry]) => entry.rentals > 0 || entry.returns > 0)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([number, entry]) => ({
+        number,
+        name: entry.name,
+        reservedRentals: entry.rentals,
+        reservedReturns: entry.returns,
+        availableBikes: entry.bikes ?? null,
+        availableDocks: entry.freeDocks ?? null,
+      }));
+  }
+
+  private hasRemaining(number: string, purpose: StationPurpose): boolean {
+    const entry = this.stations.get(number);
+    if (!entry) {
+      return true;
+    }
+    return purpose === 'rental'
+      ? (entry.bikes ?? Infinity) - entry.rentals > 0
+      : (entry.freeDocks ?? Infinity) - entry.returns > 0;
+  }
+
+  private reserve(number: string, purpose: StationPurpose): void {
+    if (!number) {
+      return;
+    }
+    const entry = this.stations.get(number) ?? {
+      name: '',
+      rentals: 0,
+      returns: 0,
+    };
+    if (purpose === 'rental') {
+      entry.rentals++;
+    } else {
+      entry.returns++;
+    }
+    this.stations.set(number, entry);
+    this.reserved.push({ number, purpose });
+  }
+}
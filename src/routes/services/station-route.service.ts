@@ -1,83 +1,163 @@
-import { Injectable, Logger, Inject, forwardRef } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  Inject,
+  forwardRef,
+  UnprocessableEntityException,
+} from '@nestjs/common';
 import { StationQueryService } from '../../stations/services/station-query.service';
+import { StationForecastService } from '../../stations/services/station-forecast.service';
 import { StationResponseDto } from '../../stations/dto/station-api.dto';
+import { StationAvailabilityForecast } from '../../stations/interfaces/station.interfaces';
 import { RouteUtilService } from './route-util.service';
 import { RouteStationDto } from '../dto/route.dto';
+import {
+  StationReservationExhausted,
+  StationReservationLedger,
+} from './station-reservation.ledger';
+
+/**
+ * 출발지/도착지 근처에 자전거 또는 빈 거치대가 남은 대여소가 없음
+ * - 배치 검색에서 앞선 요청이 근처 재고를 모두 배정한 경우 포함
+ */
+export class NoAvailableStation extends UnprocessableEntityException {
+  constructor(
+    message: string = '근처에 자전거 또는 빈 거치대가 남은 대여소가 없습니다.',
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * 대여소 선택 전략 (대여용 / 반납용)
+ */
+interface StationSelectionStrategy {
+  label: string; // 로그 및 에러 메시지용 (대여 / 반납)
+  isEligible(station: StationResponseDto): boolean;
+  score(station: StationResponseDto, distance: number): number; // 낮을수록 우선
+}
+
+const RETURN_STRATEGY_CONSTANTS = {
+  METERS_PER_FREE_DOCK: 30, // 빈 거치대 1개당 도보 거리 보정 (미터)
+  MAX_DOCK_BONUS_COUNT: 10, // 보정에 반영할 최대 빈 거치대 수
+} as const;
+
+// DB 폴백 시 재고 예측을 적용할 가까운 대여소 수
+const FALLBACK_FORECAST_CANDIDATES = 30;
+
+// 배정 장부 사용 시 검색할 후보 수 (동시 요청이 먼저 배정한 대여소 건너뛰기용)
+const RESERVATION_CANDIDATES = 5;
+
+/**
+ * 빈 거치대 수 계산 (total_racks - current_bikes)
+ */
+function countFreeDocks(station: {
+  total_racks: number;
+  current_bikes: number;
+}): number {
+  return Math.max((station.total_racks ?? 0) - (station.current_bikes ?? 0), 0);
+}
+
+/**
+ * 대여 전략: 자전거가 있는 대여소 중 가장 가까운 곳
+ */
+const RENTAL_STRATEGY: StationSelectionStrategy = {
+  label: '대여',
+  isEligible: (station) =>
+    station.status !== 'inactive' && station.current_bikes > 0,
+  score: (_station, distance) => distance,
+};
+
+/**
+ * 반납 전략: 빈 거치대가 있는 대여소 중 거리와 빈 거치대 수를 함께 고려
+ * - 가득 찬 대여소는 제외
+ * - 빈 거치대가 많을수록 조금 더 멀어도 우선 (최대 MAX_DOCK_BONUS_COUNT개까지 반영)
+ */
+const RETURN_STRATEGY: StationSelectionStrategy = {
+  label: '반납',
+  isEligible: (station) =>
+    station.status !== 'inactive' && countFreeDocks(station) > 0,
+  score: (station, distance) =>
+    distance -
+    Math.min(
+      countFreeDocks(station),
+      RETURN_STRATEGY_CONSTANTS.MAX_DOCK_BONUS_COUNT,
+    ) *
+      RETURN_STRATEGY_CONSTANTS.METERS_PER_FREE_DOCK,
+};
+
+/**
+ * 대여소 검색 목적 (대여 / 반납)
+ */
+export type StationPurpose = 'rental' | 'return';
+
+const STRATEGIES: Record<StationPurpose, StationSelectionStrategy> = {
+  rental: RENTAL_STRATEGY,
+  return: RETURN_STRATEGY,
+};
 
 @Injectable()
 export class StationRouteService {
   private readonly logger = new Logger(StationRouteService.name);
   constructor(
     private readonly stationQueryService: StationQueryService,
+    private readonly stationForecastService: StationForecastService,
     @Inject(forwardRef(() => RouteUtilService))
     private readonly routeUtil: RouteUtilService,
   ) {}
 
   /**
-   * 좌표 근처의 가용한 대여소 찾기 (실시간 동기화 우선, 실패 시 DB 조회)
-   * 출발지와 도착지 모두 동일한 로직 사용
+   * 좌표 근처의 대여 가능한 대여소 찾기 (실시간 동기화 우선, 실패 시 DB 조회)
+   * @param forecastAt 지정 시 해당 시각의 예측 재고 기준으로 선택
+   * @param ledger 지정 시 앞선 요청에 배정된 자전거를 제외하고 선택한 대여소에 대여 1건 배정
+   *   (후보가 모두 다른 요청에 배정되면 StationReservationExhausted)
    */
-  async findNearestAvailableStation(coordinate: {
-    lat: number;
-    lng: number;
-  }): Promise<RouteStationDto | null> {
-    try {
-      // 1차: 실시간 동기화 포함 검색 (기존 방식)
-      const nearbyStations = await this.stationQueryService.findNearbyStations(
-        coordinate.lat,
-        coordinate.lng,
-      );
-
-      if (nearbyStations.length > 0) {
-        // 첫 번째 available 대여소 반환
-        return this.convertToRouteStation(nearbyStations[0]);
-      }
-
-      // 2차: 실시간 동기화 없이 DB에서 직접 조회 (폴백)
-      this.logger.warn(
-        `실시간 동기화로 대여소를 찾을 수 없어 DB 직접 조회를 시도합니다. 좌표: ${coordinate.lat}, ${coordinate.lng}`,
-      );
-
-      const fallbackStations = await this.findNearbyAvailableStationsFromDB(
-        coordinate.lat,
-        coordinate.lng,
-      );
-
-      if (fallbackStations.length === 0) {
-        this.logger.warn(
-          `좌표 근처에 이용 가능한 대여소를 찾을 수 없습니다. 좌표: ${coordinate.lat}, ${coordinate.lng}`,
-        );
-        return null;
-      }
-
-      return this.convertToRouteStation(fallbackStations[0]);
-    } catch (error) {
-      this.logger.error('근처 대여소 검색 실패', error);
-
-      // 3차: 에러 발생 시 DB 직접 조회 시도
-      try {
-        this.logger.warn(
-          `에러 발생으로 DB 직접 조회를 시도합니다. 좌표: ${coordinate.lat}, ${coordinate.lng}`,
-        );
-
-        const fallbackStations = await this.findNearbyAvailableStationsFromDB(
-          coordinate.lat,
-          coordinate.lng,
-        );
-
-        if (fallbackStations.length > 0) {
-          return this.convertToRouteStation(fallbackStations[0]);
-        }
-      } catch (fallbackError) {
-        this.logger.error('DB 직접 조회도 실패', fallbackError);
-      }
+  async findNearestAvailableStation(
+    coordinate: { lat: number; lng: number },
+    forecastAt?: Date,
+    ledger?: StationReservationLedger,
+  ): Promise<RouteStationDto | null> {
+    const candidates = await this.findCandidateStations(
+      coordinate,
+      'rental',
+      ledger ? RESERVATION_CANDIDATES : 1,
+      forecastAt,
+      ledger,
+    );
+    if (!ledger || candidates.length === 0) {
+      return candidates[0] ?? null;
+    }
 
-      return null;
+    // 후보 검색 이후 동시에 처리 중인 요청이 먼저 배정했을 수 있으므로 다시 확인
+    const station = candidates.find((candidate) =>
+      ledger.tryReserve(candidate.number, 'rental'),
+    );
+    if (!station) {
+      throw new StationReservationExhausted();
     }
+    return station;
+  }
+
+  /**
+   * 좌표 근처의 반납 가능한 대여소 찾기 (빈 거치대 수 + 도보 거리 기준)
+   * @param ledger 지정 시 앞선 요청에 배정된 빈 거치대를 제외하고 선택 (배정은 호출 측에서)
+   */
+  async findBestReturnStation(
+    coordinate: { lat: number; lng: number },
+    ledger?: StationReservationLedger,
+  ): Promise<RouteStationDto | null> {
+    const [station] = await this.findCandidateStations(
+      coordinate,
+      'return',
+      1,
+      undefined,
+      ledger,
+    );
+    return station ?? null;
   }
 
   /**
-   * 출발지와 도착지 대여소를 한 번에 검색
+   * 출발지(대여)와 도착지(반납) 대여소를 한 번에 검색
    */
   async findStartAndEndStations(
     startCoordinate: { lat: number; lng: number },
@@ -86,19 +166,19 @@ export class StationRouteService {
     // 병렬로 대여소 검색
     const [startStation, endStation] = await Promise.all([
       this.findNearestAvailableStation(startCoordinate),
-      this.findNearestAvailableStation(endCoordinate),
+      this.findBestReturnStation(endCoordinate),
     ]);
 
     // 대여소를 찾을 수 없는 경우 에러 발생
     if (!startStation) {
-      throw new Error(
+      throw new NoAvailableStation(
         `출발지 근처에 이용 가능한 대여소를 찾을 수 없습니다. 좌표: ${startCoordinate.lat}, ${startCoordinate.lng}`,
       );
     }
 
     if (!endStation) {
-      throw new Error(
-        `도착지 근처에 이용 가능한 대여소를 찾을 수 없습니다. 좌표: ${endCoordinate.lat}, ${endCoordinate.lng}`,
+      throw new NoAvailableStation(
+        `도착지 근처에 반납 가능한 대여소를 찾을 수 없습니다. 좌표: ${endCoordinate.lat}, ${endCoordinate.lng}`,
       );
     }
 
@@ -115,7 +195,7 @@ export class StationRouteService {
     const station = await this.findNearestAvailableStation(coordinate);
 
     if (!station) {
-      throw new Error(
+      throw new NoAvailableStation(
         `${purpose} 근처에 이용 가능한 대여소를 찾을 수 없습니다. 좌표: ${coordinate.lat}, ${coordinate.lng}`,
       );
     }
@@ -124,50 +204,241 @@ export class StationRouteService {
   }
 
   /**
-   * DB에서 직접 available 대여소 조회 (실시간 동기화 없음)
-   * StationQueryService의 findNearbyStations와 동일하지만 실시간 동기화 제외
+   * 대여소 번호로 검색
+   */
+  async findStationByNumber(number: string): Promise<RouteStationDto | null> {
+    const station = await this.stationQueryService.findByNumber(number);
+    return station ? this.convertToRouteStation(station) : null;
+  }
+
+  /**
+   * 좌표 기준 반경(미터) 내 운영 중인 대여소 목록 (DB 조회, 거리순)
+   */
+  async findStationsWithinRadius(
+    coordinate: { lat: number; lng: number },
+    radius: number,
+  ): Promise<RouteStationDto[]> {
+    const stations = await this.stationQueryService.findStationsInMapArea(
+      coordinate.lat,
+      coordinate.lng,
+      radius,
+    );
+    return stations.map((station) => this.convertToRouteStation(station));
+  }
+
+  /**
+   * 목적(대여/반납)에 맞는 후보 대여소 목록 검색 (우선순위 순)
+   * - 1차: 실시간 동기화 포함 근처 대여소 검색
+   * - 2차: 조건에 맞는 대여소가 없거나 에러 발생 시 DB 직접 조회 (폴백)
+   * - forecastAt 지정 시 실시간 재고 대신 해당 시각의 예측 재고로 전략 적용
+   * - ledger 지정 시 앞선 요청에 배정된 수량을 재고에서 빼고 전략 적용 (배정은 호출한 쪽에서)
    */
-  private async findNearbyAvailableStationsFromDB(
-    latitude: number,
-    longitude: number,
-  ): Promise<StationResponseDto[]> {
-    // StationQueryService.findNearbyStations 로직을 단순화하여 사용
-    // 실시간 동기화 없이 DB에서 바로 available 상태인 대여소만 조회
+  async findCandidateStations(
+    coordinate: { lat: number; lng: number },
+    purpose: StationPurpose,
+    limit: number,
+    forecastAt?: Date,
+    ledger?: StationReservationLedger,
+  ): Promise<RouteStationDto[]> {
+    const strategy = STRATEGIES[purpose];
     try {
-      const allNearbyStations = await this.stationQueryService.findAll();
+      const nearbyStations = await this.stationQueryService.findNearbyStations(
+        coordinate.lat,
+        coordinate.lng,
+      );
 
-      // 거리 계산하여 정렬
-      const stationsWithDistance = allNearbyStations
-        .filter(
-          (station) =>
-            station.status === 'available' && station.current_bikes > 0,
-        )
-        .map((station) => ({
-          ...station,
-          distance: this.routeUtil.calculateDistance(
-            [longitude, latitude],
+      const forecasts = await this.forecastStations(nearbyStations, forecastAt);
+      const ranked = this.rankStations(
+        this.applyReservations(
+          this.applyForecasts(nearbyStations, forecasts),
+          purpose,
+          ledger,
+        ),
+        coordinate,
+        strategy,
+      );
+      if (ranked.length > 0) {
+        return ranked
+          .slice(0, limit)
+          .map((station) =>
+            this.convertToRouteStation(station, forecasts?.get(station.id)),
+          );
+      }
+
+      this.logger.warn(
+        `실시간 동기화로 ${strategy.label} 가능한 대여소를 찾을 수 없어 DB 직접 조회를 시도합니다. 좌표: ${coordinate.lat}, ${coordinate.lng}`,
+      );
+    } catch (error) {
+      this.logger.error(`근처 ${strategy.label} 대여소 검색 실패`, error);
+      this.logger.warn(
+        `에러 발생으로 DB 직접 조회를 시도합니다. 좌표: ${coordinate.lat}, ${coordinate.lng}`,
+      );
+    }
+
+    const fallbackStations = await this.findNearbyStationsFromDB(
+      coordinate,
+      purpose,
+      forecastAt,
+      ledger,
+    );
+
+    if (fallbackStations.length === 0) {
+      this.logger.warn(
+        `좌표 근처에 ${strategy.label} 가능한 대여소를 찾을 수 없습니다. 좌표: ${coordinate.lat}, ${coordinate.lng}`,
+      );
+    }
+
+    return fallbackStations
+      .slice(0, limit)
+      .map(({ station, forecast }) =>
+        this.convertToRouteStation(station, forecast),
+      );
+  }
+
+  /**
+   * 예측 시각이 지정된 경우에만 대여소 재고 예측
+   */
+  private async forecastStations(
+    stations: StationResponseDto[],
+    forecastAt?: Date,
+  ): Promise<Map<string, StationAvailabilityForecast> | undefined> {
+    if (!forecastAt) {
+      return undefined;
+    }
+    return this.stationForecastService.forecastAvailability(
+      stations,
+      forecastAt,
+    );
+  }
+
+  /**
+   * 예측 재고를 current_bikes에 반영한 대여소 목록 (원본은 변경하지 않음)
+   */
+  private applyForecasts(
+    stations: StationResponseDto[],
+    forecasts?: Map<string, StationAvailabilityForecast>,
+  ): StationResponseDto[] {
+    if (!forecasts) {
+      return stations;
+    }
+    return stations.map((station) => {
+      const forecast = forecasts.get(station.id);
+      return forecast ? { ...station, current_bikes: forecast.bikes } : station;
+    });
+  }
+
+  /**
+   * 배정 장부가 있으면 앞선 요청에 배정된 수량을 재고에 반영 (원본은 변경하지 않음)
+   */
+  private applyReservations(
+    stations: StationResponseDto[],
+    purpose: StationPurpose,
+    ledger?: StationReservationLedger,
+  ): StationResponseDto[] {
+    if (!ledger) {
+      return stations;
+    }
+    return stations.map((station) => ledger.applyTo(station, purpose));
+  }
+
+  /**
+   * 전략 조건을 만족하는 대여소만 남기고 점수 순으로 정렬
+   */
+  private rankStations(
+    stations: StationResponseDto[],
+    coordinate: { lat: number; lng: number },
+    strategy: StationSelectionStrategy,
+  ): StationResponseDto[] {
+    return stations
+      .filter((station) => strategy.isEligible(station))
+      .map((station) => ({
+        station,
+        score: strategy.score(
+          station,
+          this.routeUtil.calculateDistance(
+            [coordinate.lng, coordinate.lat],
             [station.longitude, station.latitude],
           ),
-        }))
-        .sort((a, b) => a.distance - b.distance)
-        .slice(0, 10); // 상위 10개만
+        ),
+      }))
+      .sort((a, b) => a.score - b.score)
+      .map(({ station }) => station);
+  }
 
-      return stationsWithDistance;
+  /**
+   * DB에서 직접 전략 조건에 맞는 대여소 조회 (실시간 동기화 없음)
+   * StationQueryService의 findNearbyStations와 동일하지만 실시간 동기화 제외
+   * - 예측은 거리 기준 상위 후보에만 적용 (전체 대여소 이력 조회 방지)
+   */
+  private async findNearbyStationsFromDB(
+    coordinate: { lat: number; lng: number },
+    purpose: StationPurpose,
+    forecastAt?: Date,
+    ledger?: StationReservationLedger,
+  ): Promise<
+    Array<{
+      station: StationResponseDto;
+      forecast?: StationAvailabilityForecast;
+    }>
+  > {
+    const strategy = STRATEGIES[purpose];
+    try {
+      const allStations = await this.stationQueryService.findAll();
+      if (!forecastAt) {
+        return this.rankStations(
+          this.applyReservations(allStations, purpose, ledger),
+          coordinate,
+          strategy,
+        )
+          .slice(0, 10) // 상위 10개만
+          .map((station) => ({ station }));
+      }
+
+      const nearest = this.rankStations(allStations, coordinate, {
+        ...strategy,
+        isEligible: (station) => station.status !== 'inactive',
+      }).slice(0, FALLBACK_FORECAST_CANDIDATES);
+      const forecasts = await this.forecastStations(nearest, forecastAt);
+      return this.rankStations(
+        this.applyReservations(
+          this.applyForecasts(nearest, forecasts),
+          purpose,
+          ledger,
+        ),
+        coordinate,
+        strategy,
+      )
+        .slice(0, 10)
+        .map((station) => ({ station, forecast: forecasts?.get(station.id) }));
     } catch (error) {
       this.logger.error('DB에서 대여소 조회 실패', error);
       return [];
     }
   }
+
   /**
    * StationResponseDto를 RouteStation으로 변환
+   * - 재고는 예측값/배정 수량이 반영된 station 기준, forecast에 예측 시각과 신뢰도 포함
    */
-  private convertToRouteStation(station: StationResponseDto): RouteStationDto {
+  private convertToRouteStation(
+    station: StationResponseDto,
+    forecast?: StationAvailabilityForecast,
+  ): RouteStationDto {
     return {
       number: station.number ?? '', // number가 null/undefined면 빈 문자열
       name: station.name,
       lat: station.latitude,
       lng: station.longitude,
       current_bikes: station.current_bikes,
+      total_racks: station.total_racks,
+      free_docks: countFreeDocks(station),
+      ...(forecast && {
+        forecast: {
+          forecastAt: forecast.forecastAt.toISOString(),
+          confidence: forecast.confidence,
+          sampleCount: forecast.sampleCount,
+        },
+      }),
     };
   }
 }
@@ -0,0 +1,212 @@
+import { Logger } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { RouteStationDto } from '../dto/route.dto';
+import { StationResponseDto } from '../../stations/dto/station-api.dto';
+import { GraphHopperPath } from '../interfaces/graphhopper.interface';
+import {
+  NoRouteFound,
+  RoutingEngineUnavailable,
+} from './engines/routing-engine.errors';
+import { GraphHopperService } from './graphhopper.service';
+import { RouteUtilService } from './route-util.service';
+import { StationReservationLedger } from './station-reservation.ledger';
+import {
+  NoAvailableStation,
+  StationPurpose,
+  StationRouteService,
+} from './station-route.service';
+import { StationScoringService } from './station-scoring.service';
+
+type Point = { lat: number; lng: number };
+
+// 출발지와 도착지 (동쪽으로 약 4.4km)
+const origin: Point = { lat: 37.5, lng: 127 };
+const destination: Point = { lat: 37.5, lng: 127.05 };
+
+const station = (
+  number: string,
+  { lat, lng }: Point,
+  stock: { bikes?: number; docks?: number },
+): RouteStationDto => ({
+  number,
+  name: `${number}번 대여소`,
+  lat,
+  lng,
+  current_bikes: stock.bikes ?? 10,
+  total_racks: 20,
+  free_docks: stock.docks ?? 10,
+});
+
+const walk = (minutes: number): GraphHopperPath => ({
+  distance: minutes * 80,
+  time: minutes * 60000,
+  ascend: 0,
+  descend: 0,
+  points: { coordinates: [] },
+  bbox: [0, 0, 0, 0],
+  instructions: [],
+});
+
+describe('StationScoringService', () => {
+  let service: StationScoringService;
+  let candidates: Record<StationPurpose, RouteStationDto[]>;
+  let walkingMinutes: Record<string, number>;
+  let getSingleRoute: jest.Mock<Promise<GraphHopperPath>, [Point, Point]>;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(async () => {
+    candidates = { rental: [], return: [] };
+    walkingMinutes = {};
+    // 대여 측은 출발지 → 대여소, 반납 측은 대여소 → 도착지 도보
+    getSingleRoute = jest.fn<Promise<GraphHopperPath>, [Point, Point]>(
+      (from, to) => {
+        const { number } = (from === origin ? to : from) as RouteStationDto;
+        return Promise.resolve(walk(walkingMinutes[number] ?? 0));
+      },
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StationScoringService,
+        RouteUtilService,
+        { provide: GraphHopperService, useValue: { getSingleRoute } },
+        {
+          provide: StationRouteService,
+          useValue: {
+            findCandidateStations: (_point: Point, purpose: StationPurpose) =>
+              Promise.resolve(candidates[purpose]),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<StationScoringService>(StationScoringService);
+  });
+
+  it('should score the risk of the last bike being taken before arrival', async () => {
+    candidates.rental = [station('101', origin, { bikes: 1 })];
+    candidates.return = [station('201', destination, { docks: 20 })];
+    walkingMinutes['101'] = 20;
+
+    const [pair] = await service.findBestStationPairs(origin, destination);
+
+    // λ = 0.05/분 × 20분 = 1 → P(N >= 1) = 1 - e^-1
+    expect(pair.score.depletionRisk).toBeCloseTo(1 - Math.exp(-1), 2);
+    // 재고 1대: (5 - 1) / 5 × 3분
+    expect(pair.score.stockPenalty).toBe(2.4);
+    expect(pair.score.extraBikeDistance).toBe(0);
+    expect(pair.score.totalScore).toBeCloseTo(
+      20 + 2.4 + (1 - Math.exp(-1)) * 15,
+      1,
+    );
+  });
+
+  it('should rank a well-stocked station ahead of a closer one that may run out', async () => {
+    candidates.rental = [
+      station('101', origin, { bikes: 1 }),
+      station('102', origin, { bikes: 10 }),
+    ];
+    candidates.return = [station('201', destination, { docks: 10 })];
+    walkingMinutes['101'] = 2;
+    walkingMinutes['102'] = 5;
+
+    const pairs = await service.findBestStationPairs(origin, destination, 2);
+
+    expect(pairs.map((pair) => pair.startStation.number)).toEqual([
+      '102',
+      '101',
+    ]);
+    expect(pairs[0].score.depletionRisk).toBe(0);
+    expect(pairs[1].score.depletionRisk).toBeGreaterThan(0);
+  });
+
+  it('should penalize detours away from the direct line', async () => {
+    candidates.rental = [
+      station('101', origin, {}),
+      station('102', { lat: 37.5, lng: 126.99 }, {}), // 반대 방향으로 약 880m
+    ];
+    candidates.return = [station('201', destination, {})];
+
+    const pairs = await service.findBestStationPairs(origin, destination, 2);
+
+    expect(pairs[0].startStation.number).toBe('101');
+    expect(pairs[1].score.extraBikeDistance).toBeGreaterThan(1000);
+  });
+
+  it('should never pair a station with itself', async () => {
+    const shared = station('101', origin, {});
+    candidates.rental = [shared];
+    candidates.return = [shared, station('201', destination, {})];
+
+    const pairs = await service.findBestStationPairs(origin, destination, 5);
+
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0].endStation.number).toBe('201');
+  });
+
+  it('should move the best pair that can still be reserved to the front', async () => {
+    candidates.rental = [
+      station('101', origin, {}),
+      station('102', origin, {}),
+    ];
+    candidates.return = [station('201', destination, {})];
+    walkingMinutes['102'] = 3;
+    const ledger = new StationReservationLedger();
+    // 가장 가까운 101번의 마지막 자전거는 앞선 요청에 배정됨
+    ledger.applyTo(
+      { number: '101', current_bikes: 1 } as StationResponseDto,
+      'rental',
+    );
+    ledger.tryReserve('101', 'rental');
+
+    const pairs = await service.findBestStationPairs(
+      origin,
+      destination,
+      2,
+      undefined,
+      ledger,
+    );
+
+    expect(pairs.map((pair) => pair.startStation.number)).toEqual([
+      '102',
+      '101',
+    ]);
+    expect(ledger.summarize()).toEqual([
+      expect.objectContaining({ number: '101', reservedRentals: 1 }),
+      expect.objectContaining({ number: '102', reservedRentals: 1 }),
+      expect.objectContaining({ number: '201', reservedReturns: 1 }),
+    ]);
+  });
+
+  it('should throw NoAvailableStation when no candidate is left', async () => {
+    candidates.return = [station('201', destination, {})];
+
+    await expect(
+      service.findBestStationPairs(origin, destination),
+    ).rejects.toBeInstanceOf(NoAvailableStation);
+  });
+
+  it('should skip candidates without a walking route but pass engine outages through', async () => {
+    candidates.rental = [
+      station('101', origin, {}),
+      station('102', origin, {}),
+    ];
+    candidates.return = [station('201', destination, {})];
+    getSingleRoute.mockImplementationOnce(() =>
+      Promise.reject(new NoRouteFound()),
+    );
+
+    const pairs = await service.findBestStationPairs(origin, destination, 5);
+    expect(pairs).toHaveLength(1);
+
+    getSingleRoute.mockImplementationOnce(() =>
+      Promise.reject(new RoutingEngineUnavailable()),
+    );
+    await expect(
+      service.findBestStationPairs(origin, destination),
+    ).rejects.toBeInstanceOf(RoutingEngineUnavailable);
+  });
+});
@@ -0,0 +1,289 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { RouteStationDto, StationPairScoreDto } from '../dto/route.dto';
+import { GraphHopperPath } from '../interfaces/graphhopper.interface';
+import { GraphHopperService } from './graphhopper.service';
+import { RouteUtilService } from './route-util.service';
+import {
+  NoAvailableStation,
+  StationRouteService,
+} from './station-route.service';
+import { RoutingEngineUnavailable } from './engines/routing-engine.errors';
+import {
+  StationReservationExhausted,
+  StationReservationLedger,
+} from './station-reservation.ledger';
+
+/**
+ * 점수가 계산된 대여소 쌍 (도보 구간 포함)
+ */
+export interface ScoredStationPair {
+  startStation: RouteStationDto;
+  endStation: RouteStationDto;
+  walkingToStart: GraphHopperPath;
+  walkingFromEnd: GraphHopperPath;
+  score: StationPairScoreDto;
+}
+
+/**
+ * 도보 구간이 계산된 후보 대여소
+ */
+interface WalkedCandidate {
+  station: RouteStationDto;
+  walkingPath: GraphHopperPath;
+}
+
+const SCORING_CONSTANTS = {
+  CANDIDATES_PER_SIDE: 3, // 출발/도착 측 후보 대여소 수
+  BIKE_SPEED_MPS: 4.2, // 자전거 평균 속도 (약 15km/h)
+  ROAD_DETOUR_FACTOR: 1.3, // 직선 거리 대비 실제 도로 거리 보정값
+  STOCK_COMFORT_LEVEL: 5, // 이 수량 이상이면 재고 패널티 없음
+  STOCK_PENALTY_MINUTES: 3, // 재고가 0에 가까울 때 최대 패널티 (분)
+  DEPLETION_RATE_PER_MINUTE: 0.05, // 대여소당 분당 재고 변동(대여/반납) 추정치
+  DEPLETION_PENALTY_MINUTES: 15, // 도착 전 재고 소진 시 예상 손실 (분)
+} as const;
+
+/**
+ * StationScoringService
+ * - 출발/도착 대여소 후보 쌍을 도보 시간, 재고, 소진 위험도, 추가 주행 거리로 점수화
+ * - 점수는 "분 단위 환산 비용"으로 낮을수록 좋은 대여소 쌍
+ */
+@Injectable()
+export class StationScoringService {
+  private readonly logger = new Logger(StationScoringService.name);
+
+  constructor(
+    private readonly stationRouteService: StationRouteService,
+    private readonly graphHopperService: GraphHopperService,
+    private readonly routeUtil: RouteUtilService,
+  ) {}
+
+  /**
+   * 출발지/도착지 기준 상위 N개 대여소 쌍 반환 (점수 오름차순)
+   * @param departAt 지정 시 대여 측은 출발 시각, 반납 측은 예상 도착 시각 기준 예측 재고 사용
+   * @param ledger 지정 시 배정 가능한 최고 점수 쌍을 첫 번째로 반환하고 대여/반납 1건씩 배정
+   */
+  async findBestStationPairs(
+    origin: { lat: number; lng: number },
+    destination: { lat: number; lng: number },
+    limit: number = 1,
+    departAt?: Date,
+    ledger?: StationReservationLedger,
+  ): Promise<ScoredStationPair[]> {
+    const directDistance = this.routeUtil.calculateDistance(
+      [origin.lng, origin.lat],
+      [destination.lng, destination.lat],
+    );
+    const returnForecastAt = departAt
+      ? new Date(
+          departAt.getTime() +
+            ((directDistance * SCORING_CONSTANTS.ROAD_DETOUR_FACTOR) /
+              SCORING_CONSTANTS.BIKE_SPEED_MPS) *
+              1000,
+        )
+      : undefined;
+
+    const [rentalCandidates, returnCandidates] = await Promise.all([
+      this.stationRouteService.findCandidateStations(
+        origin,
+        'rental',
+        SCORING_CONSTANTS.CANDIDATES_PER_SIDE,
+        departAt,
+        ledger,
+      ),
+      this.stationRouteService.findCandidateStations(
+        destination,
+        'return',
+        SCORING_CONSTANTS.CANDIDATES_PER_SIDE,
+        returnForecastAt,
+        ledger,
+      ),
+    ]);
+
+    if (rentalCandidates.length === 0) {
+      throw new NoAvailableStation(
+        `출발지 근처에 이용 가능한 대여소를 찾을 수 없습니다. 좌표: ${origin.lat}, ${origin.lng}`,
+      );
+    }
+    if (returnCandidates.length === 0) {
+      throw new NoAvailableStation(
+        `도착지 근처에 반납 가능한 대여소를 찾을 수 없습니다. 좌표: ${destination.lat}, ${destination.lng}`,
+      );
+    }
+
+    // 후보별 도보 구간 계산 (foot 프로필)
+    const [walkedStarts, walkedEnds] = await Promise.all([
+      this.walkCandidates(rentalCandidates, (station) =>
+        this.graphHopperService.getSingleRoute(origin, station, 'foot'),
+      ),
+      this.walkCandidates(returnCandidates, (station) =>
+        this.graphHopperService.getSingleRoute(station, destination, 'foot'),
+      ),
+    ]);
+
+    if (walkedStarts.length === 0 || walkedEnds.length === 0) {
+      throw new NoAvailableStation(
+        '후보 대여소까지의 도보 경로를 계산할 수 없습니다.',
+      );
+    }
+
+    const pairs: ScoredStationPair[] = [];
+    for (const start of walkedStarts) {
+      for (const end of walkedEnds) {
+        if (start.station.number === end.station.number) continue;
+        pairs.push({
+          startStation: start.station,
+          endStation: end.station,
+          walkingToStart: start.walkingPath,
+          walkingFromEnd: end.walkingPath,
+          score: this.scorePair(start, end, directDistance),
+        });
+      }
+    }
+
+    if (pairs.length === 0) {
+      throw new NoAvailableStation(
+        '출발/도착 대여소가 동일하여 자전거 경로를 구성할 수 없습니다.',
+      );
+    }
+
+    pairs.sort((a, b) => a.score.totalScore - b.score.totalScore);
+    this.logger.debug(
+      `대여소 쌍 점수 계산 완료 - 후보 쌍: ${pairs.length}개, 최고 점수: ${pairs[0]?.score.totalScore}`,
+    );
+    return ledger
+      ? this.reserveBestPair(pairs, ledger).slice(0, limit)
+      : pairs.slice(0, limit);
+  }
+
+  /**
+   * 점수 순으로 배정을 시도해 처음 배정된 쌍을 맨 앞으로 이동
+   * - 후보 검색 이후 동시에 처리 중인 요청이 재고를 먼저 배정했을 수 있으므로 다시 확인
+   */
+  private reserveBestPair(
+    pairs: ScoredStationPair[],
+    ledger: StationReservationLedger,
+  ): ScoredStationPair[] {
+    const reservedIndex = pairs.findIndex((pair) =>
+      ledger.tryReservePair(pair.startStation.number, pair.endStation.number),
+    );
+    if (reservedIndex === -1) {
+      throw new StationReservationExhausted();
+    }
+    return [
+      pairs[reservedIndex],
+      ...pairs.filter((_, index) => index !== reservedIndex),
+    ];
+  }
+
+  /**
+   * 대여소 쌍 점수 계산
+   */
+  private scorePair(
+    start: WalkedCandidate,
+    end: WalkedCandidate,
+    directDistance: number,
+  ): StationPairScoreDto {
+    const walkToStartMinutes = start.walkingPath.time / 60000;
+    const walkFromEndMinutes = end.walkingPath.time / 60000;
+
+    // 대여소 간 예상 주행 거리와 직선 이동 대비 추가 거리
+    const stationDistance = this.routeUtil.calculateDistance(
+      [start.station.lng, start.station.lat],
+      [end.station.lng, end.station.lat],
+    );
+    const extraBikeDistance =
+      Math.max(stationDistance - directDistance, 0) *
+      SCORING_CONSTANTS.ROAD_DETOUR_FACTOR;
+    const extraBikeMinutes =
+      extraBikeDistance / SCORING_CONSTANTS.BIKE_SPEED_MPS / 60;
+
+    // 재고 패널티 (대여 자전거 수, 반납 거치대 수)
+    const bikes = start.station.current_bikes;
+    const freeDocks = end.station.free_docks ?? 0;
+    const stockPenalty =
+      this.calculateStockPenalty(bikes) + this.calculateStockPenalty(freeDocks);
+
+    // 도착 전 재고 소진 위험도 (대여소 도착 시점 기준)
+    const rentalRisk = this.calculateDepletionRisk(bikes, walkToStartMinutes);
+    const returnRisk = this.calculateDepletionRisk(
+      freeDocks,
+      walkToStartMinutes +
+        stationDistance / SCORING_CONSTANTS.BIKE_SPEED_MPS / 60,
+    );
+    const depletionRisk = 1 - (1 - rentalRisk) * (1 - returnRisk);
+
+    const totalScore =
+      walkToStartMinutes +
+      walkFromEndMinutes +
+      extraBikeMinutes +
+      stockPenalty +
+      depletionRisk * SCORING_CONSTANTS.DEPLETION_PENALTY_MINUTES;
+
+    return {
+      totalScore: Math.round(totalScore * 10) / 10,
+      walkingTime: Math.round(
+        (start.walkingPath.time + end.walkingPath.time) / 1000,
+      ),
+      stockPenalty: Math.round(stockPenalty * 10) / 10,
+      depletionRisk: Math.round(depletionRisk * 100) / 100,
+      extraBikeDistance: Math.round(extraBikeDistance),
+    };
+  }
+
+  /**
+   * 재고가 적을수록 커지는 패널티 (분)
+   */
+  private calculateStockPenalty(stock: number): number {
+    const shortage = Math.max(SCORING_CONSTANTS.STOCK_COMFORT_LEVEL - stock, 0);
+    return (
+      (shortage / SCORING_CONSTANTS.STOCK_COMFORT_LEVEL) *
+      SCORING_CONSTANTS.STOCK_PENALTY_MINUTES
+    );
+  }
+
+  /**
+   * 도착 전 재고가 모두 소진될 확률 (포아송 분포 가정)
+   * - P(N >= stock), N ~ Poisson(rate * minutes)
+   */
+  private calculateDepletionRisk(stock: number, minutes: number): number {
+    if (stock <= 0) return 1;
+    const lambda = SCORING_CONSTANTS.DEPLETION_RATE_PER_MINUTE * minutes;
+    let term = Math.exp(-lambda);
+    let cumulative = term;
+    for (let k = 1; k < stock; k++) {
+      term *= lambda / k;
+      cumulative += term;
+    }
+    return Math.min(Math.max(1 - cumulative, 0), 1);
+  }
+
+  /**
+   * 후보 대여소별 도보 경로 계산 (실패한 후보는 제외)
+   * - 라우팅 엔진 연결 불가는 후보 문제가 아니므로 그대로 전달
+   */
+  private async walkCandidates(
+    candidates: RouteStationDto[],
+    getWalkingPath: (station: RouteStationDto) => Promise<GraphHopperPath>,
+  ): Promise<WalkedCandidate[]> {
+    const results = await Promise.allSettled(
+      candidates.map(async (station) => ({
+        station,
+        walkingPath: await getWalkingPath(station),
+      })),
+    );
+    const unavailable = results.find(
+      (result): result is PromiseRejectedResult =>
+        result.status === 'rejected' &&
+        result.reason instanceof RoutingEngineUnavailable,
+    );
+    if (unavailable) {
+      throw unavailable.reason;
+    }
+    return results
+      .filter(
+        (result): result is PromiseFulfilledResult<WalkedCandidate> =>
+          result.status === 'fulfilled',
+      )
+      .map((result) => result.value);
+  }
+}
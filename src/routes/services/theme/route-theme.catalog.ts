@@ -0,0 +1,186 @@
+import { RouteTheme } from '../../dto/route.dto';
+import { RouteThemeDefinition } from '../../interfaces/route-theme.interface';
+
+/**
+ * 강/하천 중심선을 [dLng, dLat]만큼 양쪽으로 넓힌 띠 형태 폴리곤
+ */
+function corridor(centerline: number[][], [dLng, dLat]: number[]): number[][] {
+  const left = centerline.map(([lng, lat]) => [lng + dLng, lat + dLat]);
+  const right = [...centerline]
+    .reverse()
+    .map(([lng, lat]) => [lng - dLng, lat - dLat]);
+  return [...left, ...right, left[0]];
+}
+
+/**
+ * 사각형 폴리곤 ([minLng, minLat, maxLng, maxLat])
+ */
+function rectangle([minLng, minLat, maxLng, maxLat]: number[]): number[][] {
+  return [
+    [minLng, minLat],
+    [maxLng, minLat],
+    [maxLng, maxLat],
+    [minLng, maxLat],
+    [minLng, minLat],
+  ];
+}
+
+/**
+ * 원형 경로 테마 카탈로그
+ * - 영역은 공원 경계/하천 자전거길을 단순화한 근사 폴리곤 ([lng, lat])
+ * - POI는 themePoiId로 지정 시 원형 경로의 경유지로 사용
+ */
+export const ROUTE_THEME_CATALOG: Record<RouteTheme, RouteThemeDefinition> = {
+  [RouteTheme.HAN_RIVER]: {
+    name: '한강',
+    description: '한강공원 남북단 자전거길 (가양 ~ 광나루)',
+    areas: [
+      corridor(
+        [
+          [126.82, 37.585],
+          [126.87, 37.565],
+          [126.9, 37.548],
+          [126.93, 37.53],
+          [126.96, 37.52],
+          [126.99, 37.512],
+          [127.02, 37.525],
+          [127.05, 37.53],
+          [127.07, 37.528],
+          [127.09, 37.522],
+          [127.11, 37.535],
+          [127.13, 37.55],
+        ],
+        [0, 0.006],
+      ),
+    ],
+    pois: [
+      {
+        id: 'han-river-mangwon',
+        name: '망원한강공원',
+        lat: 37.5555,
+        lng: 126.895,
+      },
+      {
+        id: 'han-river-yeouido',
+        name: '여의도한강공원',
+        lat: 37.5284,
+        lng: 126.934,
+      },
+      {
+        id: 'han-river-banpo',
+        name: '반포한강공원',
+        lat: 37.511,
+        lng: 126.996,
+      },
+      {
+        id: 'han-river-ttukseom',
+        name: '뚝섬한강공원',
+        lat: 37.5296,
+        lng: 127.069,
+      },
+      {
+        id: 'han-river-gwangnaru',
+        name: '광나루한강공원',
+        lat: 37.548,
+        lng: 127.12,
+      },
+    ],
+  },
+  [RouteTheme.OLYMPIC_PARK]: {
+    name: '올림픽공원',
+    description: '올림픽공원 산책로와 몽촌토성 일대',
+    areas: [rectangle([127.113, 37.514, 127.132, 37.524])],
+    pois: [
+      {
+        id: 'olympic-park-peace-gate',
+        name: '평화의 문',
+        lat: 37.5205,
+        lng: 127.1153,
+      },
+      {
+        id: 'olympic-park-mongchon',
+        name: '몽촌토성',
+        lat: 37.5193,
+        lng: 127.1208,
+      },
+      {
+        id: 'olympic-park-lone-tree',
+        name: '나홀로나무',
+        lat: 37.5162,
+        lng: 127.1225,
+      },
+    ],
+  },
+  [RouteTheme.SEOUL_FOREST]: {
+    name: '서울숲',
+    description: '서울숲 공원과 중랑천 합류부',
+    areas: [rectangle([127.0345, 37.5405, 127.0475, 37.5485])],
+    pois: [
+      {
+        id: 'seoul-forest-family-yard',
+        name: '서울숲 가족마당',
+        lat: 37.5444,
+        lng: 127.0374,
+      },
+      {
+        id: 'seoul-forest-mirror-pond',
+        name: '서울숲 거울연못',
+        lat: 37.5453,
+        lng: 127.041,
+      },
+    ],
+  },
+  [RouteTheme.JUNGNANGCHEON]: {
+    name: '중랑천',
+    description: '중랑천 자전거길 (도봉 ~ 한강 합류부)',
+    areas: [
+      corridor(
+        [
+          [127.048, 37.69],
+          [127.052, 37.665],
+          [127.06, 37.64],
+          [127.067, 37.615],
+          [127.072, 37.595],
+          [127.07, 37.575],
+          [127.055, 37.56],
+          [127.04, 37.55],
+        ],
+        [0.004, 0],
+      ),
+    ],
+    pois: [
+      {
+        id: 'jungnangcheon-changdong-bridge',
+        name: '창동교',
+        lat: 37.652,
+        lng: 127.054,
+      },
+      {
+        id: 'jungnangcheon-nowon-bridge',
+        name: '노원교',
+        lat: 37.637,
+        lng: 127.062,
+      },
+      {
+        id: 'jungnangcheon-jangan-bridge',
+        name: '장안교',
+        lat: 37.57,
+        lng: 127.068,
+      },
+    ],
+  },
+  [RouteTheme.NAMSAN]: {
+    name: '남산',
+    description: '남산공원 순환로 (업힐 코스)',
+    areas: [rectangle([126.976, 37.545, 127.001, 37.559])],
+    pois: [
+      { id: 'namsan-tower', name: 'N서울타워', lat: 37.5512, lng: 126.9882 },
+      {
+        id: 'namsan-baekbeom-square',
+        name: '백범광장',
+        lat: 37.553,
+        lng: 126.978,
+      },
+    ],
+  },
+};
@@ -0,0 +1,127 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { GraphHopperService } from './graphhopper.service';
+
+const WAYPOINT_ORDER_CONSTANTS = {
+  UNREACHABLE_COST: 1e9, // 경로를 찾지 못한 지점 쌍의 비용 (밀리초)
+  MAX_IMPROVEMENT_ROUNDS: 100, // 2-opt 개선 최대 반복 횟수
+} as const;
+
+/**
+ * WaypointOrderService
+ * - 출발/도착 지점을 고정한 채 경유지 방문 순서 최적화 (TSP 휴리스틱)
+ * - 자전거 소요 시간 행렬로 최근접 이웃 경로를 만든 뒤 2-opt로 개선
+ */
+@Injectable()
+export class WaypointOrderService {
+  private readonly logger = new Logger(WaypointOrderService.name);
+
+  constructor(private readonly graphHopperService: GraphHopperService) {}
+
+  /**
+   * 최적 방문 순서 계산
+   * @returns 원래 경유지 배열 기준 인덱스를 방문 순서대로 나열한 배열
+   */
+  async optimizeOrder(
+    start: { lat: number; lng: number },
+    waypoints: { lat: number; lng: number }[],
+    end: { lat: number; lng: number },
+    profile: string = 'safe_bike',
+  ): Promise<number[]> {
+    if (waypoints.length < 2) {
+      return waypoints.map((_, idx) => idx);
+    }
+
+    const matrix = (
+      await this.graphHopperService.getTimeMatrix(
+        [start, ...waypoints, end],
+        profile,
+      )
+    ).map((row) =>
+      row.map((cost) =>
+        Number.isFinite(cost)
+          ? cost
+          : WAYPOINT_ORDER_CONSTANTS.UNREACHABLE_COST,
+      ),
+    );
+
+    const initialPath = this.buildNearestNeighborPath(matrix);
+    const path = this.improveWithTwoOpt(initialPath, matrix);
+
+    this.logger.debug(
+      `경유지 순서 최적화 완료 - 경유지: ${waypoints.length}개, 예상 시간: ${Math.round(this.calculatePathCost(initialPath, matrix) / 1000)}초 → ${Math.round(this.calculatePathCost(path, matrix) / 1000)}초`,
+    );
+
+    // 행렬 인덱스(1 ~ n)를 경유지 인덱스(0 ~ n-1)로 변환
+    return path.slice(1, -1).map((node) => node - 1);
+  }
+
+  /**
+   * 최근접 이웃 방식으로 초기 경로 생성 (0: 출발, 마지막: 도착)
+   */
+  private buildNearestNeighborPath(matrix: number[][]): number[] {
+    const endNode = matrix.length - 1;
+    const unvisited = new Set(
+      Array.from({ length: endNode - 1 }, (_, idx) => idx + 1),
+    );
+    const path = [0];
+
+    while (unvisited.size > 0) {
+      const current = path[path.length - 1];
+      let nearest = -1;
+      for (const node of unvisited) {
+        if (
+          nearest === -1 ||
+          matrix[current][node] < matrix[current][nearest]
+        ) {
+          nearest = node;
+        }
+      }
+      path.push(nearest);
+      unvisited.delete(nearest);
+    }
+
+    path.push(endNode);
+    return path;
+  }
+
+  /**
+   * 2-opt 개선 (출발/도착 고정, 일방통행 등 비대칭 비용을 고려해 전체 비용으로 비교)
+   */
+  private improveWithTwoOpt(path: number[], matrix: number[][]): number[] {
+    let best = path;
+    let bestCost = this.calculatePathCost(best, matrix);
+
+    for (
+      let round = 0;
+      round < WAYPOINT_ORDER_CONSTANTS.MAX_IMPROVEMENT_ROUNDS;
+      round++
+    ) {
+      let improved = false;
+      for (let i = 1; i < best.length - 2; i++) {
+        for (let j = i + 1; j < best.length - 1; j++) {
+          const candidate = [
+            ...best.slice(0, i),
+            ...best.slice(i, j + 1).reverse(),
+            ...best.slice(j + 1),
+          ];
+          const candidateCost = this.calculatePathCost(candidate, matrix);
+          if (candidateCost < bestCost) {
+            best = candidate;
+            bestCost = candidateCost;
+            improved = true;
+          }
+        }
+      }
+      if (!improved) break;
+    }
+    return best;
+  }
+
+  private calculatePathCost(path: number[], matrix: number[][]): number {
+    let cost = 0;
+    for (let i = 1; i < path.length; i++) {
+      cost += matrix[path[i - 1]][path[i]];
+    }
+    return cost;
+  }
+}
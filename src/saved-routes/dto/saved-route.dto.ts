@@ -0,0 +1,152 @@
+import {
+  IsInt,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  Max,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { RouteDto } from '../../routes/dto/route.dto';
+
+export const DEFAULT_SHARE_EXPIRES_IN_HOURS = 24 * 7;
+export const MAX_SHARE_EXPIRES_IN_HOURS = 24 * 30;
+export const MAX_SAVED_ROUTE_BYTES = 512 * 1024; // 저장 경로 JSON 최대 크기
+
+// 경로 저장 요청 DTO
+export class CreateSavedRouteDto {
+  @ApiProperty({ description: '경로 이름', example: '출근길 중랑천 코스' })
+  @IsNotEmpty({ message: '경로 이름은 필수값입니다.' })
+  @IsString()
+  @MaxLength(100, { message: '경로 이름은 최대 100자까지 가능합니다.' })
+  name: string;
+
+  @ApiProperty({
+    description: `저장할 경로 (full-journey / circular 응답의 RouteDto, JSON 기준 최대 ${MAX_SAVED_ROUTE_BYTES / 1024}KB)`,
+    type: RouteDto,
+  })
+  @IsNotEmpty({ message: '저장할 경로는 필수값입니다.' })
+  @IsObject()
+  @ValidateNested()
+  @Type(() => RouteDto)
+  route: RouteDto;
+}
+
+// 저장된 경로 이름 변경 DTO
+export class UpdateSavedRouteDto {
+  @ApiProperty({ description: '경로 이름', example: '주말 한강 코스' })
+  @IsNotEmpty({ message: '경로 이름은 필수값입니다.' })
+  @IsString()
+  @MaxLength(100, { message: '경로 이름은 최대 100자까지 가능합니다.' })
+  name: string;
+}
+
+// 공유 링크 생성 요청 DTO
+export class CreateShareLinkDto {
+  @ApiProperty({
+    description: `공유 링크 유효 시간 (시간 단위, 기본 ${DEFAULT_SHARE_EXPIRES_IN_HOURS}시간, 최대 ${MAX_SHARE_EXPIRES_IN_HOURS}시간)`,
+    required: false,
+    example: 72,
+  })
+  @IsOptional()
+  @IsInt({ message: '유효 시간은 정수여야 합니다.' })
+  @Min(1, { message: '유효 시간은 최소 1시간 이상이어야 합니다.' })
+  @Max(MAX_SHARE_EXPIRES_IN_HOURS, {
+    message: `유효 시간은 최대 ${MAX_SHARE_EXPIRES_IN_HOURS}시간까지 가능합니다.`,
+  })
+  @Type(() => Number)
+  expiresInHours?: number;
+}
+
+// 저장된 경로 목록 항목 DTO
+export class SavedRouteSummaryDto {
+  @ApiProperty({ description: '저장된 경로 ID', example: 1 })
+  id: number;
+
+  @ApiProperty({ description: '경로 이름', example: '출근길 중랑천 코스' })
+  name: string;
+
+  @ApiProperty({ description: '경로 카테고리', example: '자전거 도로 우선' })
+  routeCategory: string;
+
+  @ApiProperty({ description: '총 거리 (미터)', example: 5230 })
+  distance: number;
+
+  @ApiProperty({ description: '총 소요 시간 (초)', example: 1520 })
+  time: number;
+
+  @ApiProperty({ description: '유효한 공유 링크 존재 여부' })
+  isShared: boolean;
+
+  @ApiProperty({ description: '저장 일시' })
+  createdAt: Date;
+}
+
+// 저장된 경로 상세 DTO
+export class SavedRouteResponseDto {
+  @ApiProperty({ description: '저장된 경로 ID', example: 1 })
+  id: number;
+
+  @ApiProperty({ description: '경로 이름', example: '출근길 중랑천 코스' })
+  name: string;
+
+  @ApiProperty({ description: '저장된 경로', type: RouteDto })
+  route: RouteDto;
+
+  @ApiProperty({
+    description: '공유 토큰 (공유 중이 아니면 null)',
+    required: false,
+    nullable: true,
+  })
+  shareToken: string | null;
+
+  @ApiProperty({
+    description: '공유 링크 만료 일시',
+    required: false,
+    nullable: true,
+  })
+  shareExpiresAt: Date | null;
+
+  @ApiProperty({
+    description: '대여소 재고 갱신 일시 (refreshAvailability 요청 시)',
+    required: false,
+  })
+  availabilityRefreshedAt?: Date;
+
+  @ApiProperty({ description: '저장 일시' })
+  createdAt: Date;
+
+  @ApiProperty({ description: '수정 일시' })
+  updatedAt: Date;
+}
+
+// 공유 링크 DTO
+export class ShareLinkResponseDto {
+  @ApiProperty({ description: '공유 토큰 (GET /saved-routes/shared/:token)' })
+  shareToken: string;
+
+  @ApiProperty({ description: '공유 링크 만료 일시' })
+  expiresAt: Date;
+}
+
+// 공유된 경로 조회 DTO (읽기 전용)
+export class SharedRouteResponseDto {
+  @ApiProperty({ description: '경로 이름', example: '출근길 중랑천 코스' })
+  name: string;
+
+  @ApiProperty({ description: '공유된 경로', type: RouteDto })
+  route: RouteDto;
+
+  @ApiProperty({ description: '공유 링크 만료 일시' })
+  expiresAt: Date;
+
+  @ApiProperty({
+    description: '대여소 재고 갱신 일시 (refreshAvailability 요청 시)',
+    required: false,
+  })
+  availabilityRefreshedAt?: Date;
+}
@@ -0,0 +1,54 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../user/entities/user.entity';
+import type { RouteDto } from '../../routes/dto/route.dto';
+
+/**
+ * 사용자가 저장한 경로 (full-journey / circular 응답의 RouteDto)
+ * - share_token이 있으면 만료 전까지 로그인 없이 읽기 전용으로 조회 가능
+ */
+@Entity('saved_routes')
+export class SavedRoute {
+  @PrimaryGeneratedColumn('increment', { name: 'saved_route_id' })
+  savedRouteId: number;
+
+  @Index('idx_saved_routes_user_id')
+  @Column({ name: 'user_id' })
+  userId: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  @Column({ type: 'jsonb' })
+  route: RouteDto;
+
+  @Column({
+    type: 'varchar',
+    length: 64,
+    name: 'share_token',
+    nullable: true,
+    unique: true,
+  })
+  shareToken: string | null;
+
+  @Column({ type: 'timestamptz', name: 'share_expires_at', nullable: true })
+  shareExpiresAt: Date | null;
+
+  @CreateDateColumn({ type: 'timestamptz', name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz', name: 'updated_at' })
+  updatedAt: Date;
+}
@@ -0,0 +1,242 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Req,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ParseIntPipe,
+  ParseBoolPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiBody,
+  ApiQuery,
+} from '@nestjs/swagger';
+import type { Request } from 'express';
+import { JwtAuthGuard } from '../user/guards/jwt-auth.guard';
+import { SavedRoutesService } from './saved-routes.service';
+import {
+  CreateSavedRouteDto,
+  CreateShareLinkDto,
+  SavedRouteResponseDto,
+  SavedRouteSummaryDto,
+  ShareLinkResponseDto,
+  SharedRouteResponseDto,
+  UpdateSavedRouteDto,
+} from './dto/saved-route.dto';
+
+const REFRESH_AVAILABILITY_QUERY = {
+  name: 'refreshAvailability',
+  description:
+    '경로의 대여/반납/중간 반납 대여소 재고(자전거 수, 빈 거치대 수)를 실시간 정보로 갱신',
+  type: Boolean,
+  required: false,
+};
+
+@ApiTags('저장된 경로 (saved-routes)')
+@Controller('saved-routes')
+export class SavedRoutesController {
+  constructor(private readonly savedRoutesService: SavedRoutesService) {}
+
+  @Get('shared/:token')
+  @ApiOperation({
+    summary: '공유된 경로 조회',
+    description:
+      '공유 토큰으로 경로를 읽기 전용으로 조회합니다. 로그인이 필요하지 않습니다.',
+  })
+  @ApiQuery(REFRESH_AVAILABILITY_QUERY)
+  @ApiResponse({
+    status: 200,
+    description: '공유된 경로 조회 성공',
+    type: SharedRouteResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: '공유된 경로를 찾을 수 없음 (잘못된 토큰 또는 공유 해제)',
+  })
+  @ApiResponse({ status: 410, description: '공유 링크 만료' })
+  async getSharedRoute(
+    @Param('token') token: string,
+    @Query('refreshAvailability', new ParseBoolPipe({ optional: true }))
+    refreshAvailability?: boolean,
+  ): Promise<SharedRouteResponseDto> {
+    return await this.savedRoutesService.getSharedRoute(
+      token,
+      refreshAvailability,
+    );
+  }
+
+  @Post()
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: '경로 저장',
+    description:
+      'full-journey / circular 응답의 경로(RouteDto)를 이름과 함께 내 계정에 저장합니다.',
+  })
+  @ApiBody({ type: CreateSavedRouteDto })
+  @ApiResponse({
+    status: 201,
+    description: '경로 저장 성공',
+    type: SavedRouteResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: '요청 데이터 오류 (경로 형식 오류, 경로 크기 초과)',
+  })
+  @ApiResponse({ status: 401, description: '인증되지 않은 사용자' })
+  async createSavedRoute(
+    @Req() req: Request,
+    @Body() createSavedRouteDto: CreateSavedRouteDto,
+  ): Promise<SavedRouteResponseDto> {
+    return await this.savedRoutesService.createSavedRoute(
+      this.getUserId(req),
+      createSavedRouteDto,
+    );
+  }
+
+  @Get()
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: '내 저장 경로 목록',
+    description: '저장한 경로를 최근 저장순으로 조회합니다.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: '저장 경로 목록 조회 성공',
+    type: [SavedRouteSummaryDto],
+  })
+  @ApiResponse({ status: 401, description: '인증되지 않은 사용자' })
+  async getSavedRoutes(@Req() req: Request): Promise<SavedRouteSummaryDto[]> {
+    return await this.savedRoutesService.getSavedRoutes(this.getUserId(req));
+  }
+
+  @Get(':id')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: '저장 경로 상세 조회',
+    description:
+      '저장한 경로를 조회합니다. refreshAvailability=true면 대여소 재고를 실시간 정보로 갱신해 반환합니다.',
+  })
+  @ApiQuery(REFRESH_AVAILABILITY_QUERY)
+  @ApiResponse({
+    status: 200,
+    description: '저장 경로 조회 성공',
+    type: SavedRouteResponseDto,
+  })
+  @ApiResponse({ status: 401, description: '인증되지 않은 사용자' })
+  @ApiResponse({ status: 404, description: '저장된 경로를 찾을 수 없음' })
+  async getSavedRoute(
+    @Req() req: Request,
+    @Param('id', ParseIntPipe) id: number,
+    @Query('refreshAvailability', new ParseBoolPipe({ optional: true }))
+    refreshAvailability?: boolean,
+  ): Promise<SavedRouteResponseDto> {
+    return await this.savedRoutesService.getSavedRoute(
+      this.getUserId(req),
+      id,
+      refreshAvailability,
+    );
+  }
+
+  @Patch(':id')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: '저장 경로 이름 변경' })
+  @ApiBody({ type: UpdateSavedRouteDto })
+  @ApiResponse({
+    status: 200,
+    description: '저장 경로 수정 성공',
+    type: SavedRouteResponseDto,
+  })
+  @ApiResponse({ status: 401, description: '인증되지 않은 사용자' })
+  @ApiResponse({ status: 404, description: '저장된 경로를 찾을 수 없음' })
+  async updateSavedRoute(
+    @Req() req: Request,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateSavedRouteDto: UpdateSavedRouteDto,
+  ): Promise<SavedRouteResponseDto> {
+    return await this.savedRoutesService.updateSavedRoute(
+      this.getUserId(req),
+      id,
+      updateSavedRouteDto,
+    );
+  }
+
+  @Delete(':id')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: '저장 경로 삭제',
+    description: '저장한 경로를 삭제합니다. 공유 링크도 함께 무효화됩니다.',
+  })
+  @ApiResponse({ status: 204, description: '저장 경로 삭제 성공' })
+  @ApiResponse({ status: 401, description: '인증되지 않은 사용자' })
+  @ApiResponse({ status: 404, description: '저장된 경로를 찾을 수 없음' })
+  async deleteSavedRoute(
+    @Req() req: Request,
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<void> {
+    await this.savedRoutesService.deleteSavedRoute(this.getUserId(req), id);
+  }
+
+  @Post(':id/share')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: '공유 링크 생성',
+    description:
+      '저장한 경로의 공유 토큰을 발급합니다. 이미 공유 중이면 기존 토큰은 무효화되고 새 토큰이 발급됩니다.',
+  })
+  @ApiBody({ type: CreateShareLinkDto, required: false })
+  @ApiResponse({
+    status: 201,
+    description: '공유 링크 생성 성공',
+    type: ShareLinkResponseDto,
+  })
+  @ApiResponse({ status: 401, description: '인증되지 않은 사용자' })
+  @ApiResponse({ status: 404, description: '저장된 경로를 찾을 수 없음' })
+  async createShareLink(
+    @Req() req: Request,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() createShareLinkDto: CreateShareLinkDto,
+  ): Promise<ShareLinkResponseDto> {
+    return await this.savedRoutesService.createShareLink(
+      this.getUserId(req),
+      id,
+      createShareLinkDto,
+    );
+  }
+
+  @Delete(':id/share')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: '공유 링크 해제' })
+  @ApiResponse({ status: 204, description: '공유 링크 해제 성공' })
+  @ApiResponse({ status: 401, description: '인증되지 않은 사용자' })
+  @ApiResponse({ status: 404, description: '저장된 경로를 찾을 수 없음' })
+  async revokeShareLink(
+    @Req() req: Request,
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<void> {
+    await this.savedRoutesService.revokeShareLink(this.getUserId(req), id);
+  }
+
+  private getUserId(req: Request): number {
+    return (req.user as { userId: number }).userId;
+  }
+}
@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { JwtModule } from '@nestjs/jwt';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { SavedRoute } from './entities/saved-route.entity';
+import { SavedRoutesService } from './saved-routes.service';
+import { SavedRoutesController } from './saved-routes.controller';
+import { StationsModule } from '../stations/stations.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([SavedRoute]),
+    JwtModule.registerAsync({
+      imports: [ConfigModule],
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => ({
+        secret: configService.get<string>('JWT_SECRET'), // JwtAuthGuard 토큰 검증용
+      }),
+    }),
+    StationsModule, // 대여소 재고 갱신에 StationQueryService 사용
+  ],
+  providers: [SavedRoutesService],
+  controllers: [SavedRoutesController],
+})
+export class SavedRoutesModule {}
@@ -0,0 +1,277 @@
+import {
+  BadRequestException,
+  GoneException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { randomBytes } from 'crypto';
+import { SavedRoute } from './entities/saved-route.entity';
+import {
+  CreateSavedRouteDto,
+  CreateShareLinkDto,
+  DEFAULT_SHARE_EXPIRES_IN_HOURS,
+  MAX_SAVED_ROUTE_BYTES,
+  SavedRouteResponseDto,
+  SavedRouteSummaryDto,
+  ShareLinkResponseDto,
+  SharedRouteResponseDto,
+  UpdateSavedRouteDto,
+} from './dto/saved-route.dto';
+import { RouteDto, RouteStationDto } from '../routes/dto/route.dto';
+import { StationQueryService } from '../stations/services/station-query.service';
+
+@Injectable()
+export class SavedRoutesService {
+  private readonly logger = new Logger(SavedRoutesService.name);
+
+  constructor(
+    @InjectRepository(SavedRoute)
+    private readonly savedRouteRepository: Repository<SavedRoute>,
+    private readonly stationQueryService: StationQueryService,
+  ) {}
+
+  /**
+   * 경로 저장 (공유 링크로 공개될 수 있으므로 크기 제한)
+   */
+  async createSavedRoute(
+    userId: number,
+    createSavedRouteDto: CreateSavedRouteDto,
+  ): Promise<SavedRouteResponseDto> {
+    const routeBytes = Buffer.byteLength(
+      JSON.stringify(createSavedRouteDto.route),
+    );
+    if (routeBytes > MAX_SAVED_ROUTE_BYTES) {
+      throw new BadRequestException(
+        `저장할 경로가 너무 큽니다. (${Math.ceil(routeBytes / 1024)}KB, 최대 ${MAX_SAVED_ROUTE_BYTES / 1024}KB)`,
+      );
+    }
+
+    const savedRoute = await this.savedRouteRepository.save(
+      this.savedRouteRepository.create({
+        userId,
+        name: createSavedRouteDto.name,
+        route: createSavedRouteDto.route,
+      }),
+    );
+    return this.toResponse(savedRoute);
+  }
+
+  /**
+   * 내 저장 경로 목록 (최근 저장순)
+   */
+  async getSavedRoutes(userId: number): Promise<SavedRouteSummaryDto[]> {
+    const savedRoutes = await this.savedRouteRepository.find({
+      where: { userId },
+      order: { createdAt: 'DESC' },
+    });
+
+    return savedRoutes.map((savedRoute) => ({
+      id: savedRoute.savedRouteId,
+      name: savedRoute.name,
+      routeCategory: savedRoute.route.routeCategory,
+      distance: savedRoute.route.summary?.distance ?? 0,
+      time: savedRoute.route.summary?.time ?? 0,
+      isShared: this.isShareActive(savedRoute),
+      createdAt: savedRoute.createdAt,
+    }));
+  }
+
+  /**
+   * 저장 경로 상세 조회 (refreshAvailability면 대여소 재고 갱신)
+   */
+  async getSavedRoute(
+    userId: number,
+    savedRouteId: number,
+    refreshAvailability = false,
+  ): Promise<SavedRouteResponseDto> {
+    const savedRoute = await this.findOwnedRoute(userId, savedRouteId);
+    const response = this.toResponse(savedRoute);
+
+    if (refreshAvailability) {
+      response.route = await this.refreshStationAvailability(response.route);
+      response.availabilityRefreshedAt = new Date();
+    }
+    return response;
+  }
+
+  /**
+   * 저장 경로 이름 변경
+   */
+  async updateSavedRoute(
+    userId: number,
+    savedRouteId: number,
+    updateSavedRouteDto: UpdateSavedRouteDto,
+  ): Promise<SavedRouteResponseDto> {
+    const savedRoute = await this.findOwnedRoute(userId, savedRouteId);
+    savedRoute.name = updateSavedRouteDto.name;
+    return this.toResponse(await this.savedRouteRepository.save(savedRoute));
+  }
+
+  /**
+   * 저장 경로 삭제 (공유 링크도 함께 무효화)
+   */
+  async deleteSavedRoute(userId: number, savedRouteId: number): Promise<void> {
+    const savedRoute = await this.findOwnedRoute(userId, savedRouteId);
+    await this.savedRouteRepository.remove(savedRoute);
+  }
+
+  /**
+   * 공유 링크 생성 (기존 링크가 있으면 새 토큰으로 교체)
+   */
+  async createShareLink(
+    userId: number,
+    savedRouteId: number,
+    createShareLinkDto: CreateShareLinkDto,
+  ): Promise<ShareLinkResponseDto> {
+    const savedRoute = await this.findOwnedRoute(userId, savedRouteId);
+    const expiresInHours =
+      createShareLinkDto.expiresInHours ?? DEFAULT_SHARE_EXPIRES_IN_HOURS;
+
+    savedRoute.shareToken = randomBytes(24).toString('base64url');
+    savedRoute.shareExpiresAt = new Date(
+      Date.now() + expiresInHours * 60 * 60 * 1000,
+    );
+    await this.savedRouteRepository.save(savedRoute);
+
+    return {
+      shareToken: savedRoute.shareToken,
+      expiresAt: savedRoute.shareExpiresAt,
+    };
+  }
+
+  /**
+   * 공유 링크 해제
+   */
+  async revokeShareLink(userId: number, savedRouteId: number): Promise<void> {
+    const savedRoute = await this.findOwnedRoute(userId, savedRouteId);
+    savedRoute.shareToken = null;
+    savedRoute.shareExpiresAt = null;
+    await this.savedRouteRepository.save(savedRoute);
+  }
+
+  /**
+   * 공유 토큰으로 경로 조회 (로그인 불필요, 읽기 전용)
+   */
+  async getSharedRoute(
+    shareToken: string,
+    refreshAvailability = false,
+  ): Promise<SharedRouteResponseDto> {
+    const savedRoute = await this.savedRouteRepository.findOne({
+      where: { shareToken },
+    });
+
+    if (!savedRoute || !savedRoute.shareExpiresAt) {
+      throw new NotFoundException('공유된 경로를 찾을 수 없습니다.');
+    }
+    if (!this.isShareActive(savedRoute)) {
+      throw new GoneException('공유 링크가 만료되었습니다.');
+    }
+
+    const response: SharedRouteResponseDto = {
+      name: savedRoute.name,
+      route: savedRoute.route,
+      expiresAt: savedRoute.shareExpiresAt,
+    };
+    if (refreshAvailability) {
+      response.route = await this.refreshStationAvailability(response.route);
+      response.availabilityRefreshedAt = new Date();
+    }
+    return response;
+  }
+
+  /**
+   * 경로에 포함된 대여소(대여/반납/중간 반납)의 실시간 재고 반영
+   * - 저장된 경로는 수정하지 않고 갱신된 복사본 반환
+   */
+  private async refreshStationAvailability(route: RouteDto): Promise<RouteDto> {
+    const dockingStations = (route.segments ?? [])
+      .map((segment) => segment.dockingStation)
+      .filter((station): station is RouteStationDto => !!station);
+    const stationNumbers = [
+      ...new Set(
+        [route.startStation, route.endStation, ...dockingStations]
+          .filter((station): station is RouteStationDto => !!station)
+          .map((station) => station.number),
+      ),
+    ];
+    if (stationNumbers.length === 0) return route;
+
+    try {
+      const inventories =
+        await this.stationQueryService.findStationInventories(stationNumbers);
+      const bikesByNumber = new Map(
+        inventories.map((inventory) => [
+          inventory.station_number,
+          inventory.current_bikes,
+        ]),
+      );
+
+      const refresh = (station?: RouteStationDto) => {
+        if (!station || !bikesByNumber.has(station.number)) return station;
+        const currentBikes = bikesByNumber.get(station.number)!;
+        return {
+          ...station,
+          current_bikes: currentBikes,
+          free_docks:
+            station.total_racks !== undefined
+              ? Math.max(station.total_racks - currentBikes, 0)
+              : station.free_docks,
+        };
+      };
+
+      return {
+        ...route,
+        startStation: refresh(route.startStation),
+        endStation: refresh(route.endStation),
+        segments: (route.segments ?? []).map((segment) =>
+          segment.dockingStation
+            ? { ...segment, dockingStation: refresh(segment.dockingStation) }
+            : segment,
+        ),
+      };
+    } catch (error) {
+      this.logger.warn(
+        `저장 경로 대여소 재고 갱신 실패 - 대여소: ${stationNumbers.join(', ')}`,
+      );
+      this.logger.debug(`에러 상세:`, error);
+      return route;
+    }
+  }
+
+  private async findOwnedRoute(
+    userId: number,
+    savedRouteId: number,
+  ): Promise<SavedRoute> {
+    const savedRoute = await this.savedRouteRepository.findOne({
+      where: { savedRouteId, userId },
+    });
+
+    if (!savedRoute) {
+      throw new NotFoundException('저장된 경로를 찾을 수 없습니다.');
+    }
+    return savedRoute;
+  }
+
+  private isShareActive(savedRoute: SavedRoute): boolean {
+    return (
+      !!savedRoute.shareToken &&
+      !!savedRoute.shareExpiresAt &&
+      savedRoute.shareExpiresAt.getTime() > Date.now()
+    );
+  }
+
+  private toResponse(savedRoute: SavedRoute): SavedRouteResponseDto {
+    return {
+      id: savedRoute.savedRouteId,
+      name: savedRoute.name,
+      route: savedRoute.route,
+      shareToken: savedRoute.shareToken,
+      shareExpiresAt: savedRoute.shareExpiresAt,
+      createdAt: savedRoute.createdAt,
+      updatedAt: savedRoute.updatedAt,
+    };
+  }
+}
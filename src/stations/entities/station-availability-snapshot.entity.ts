@@ -0,0 +1,33 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * 대여소 재고 스냅샷 (출발 시각 기준 재고 예측용 이력)
+ * - 실시간 정보가 갱신된 대여소를 주기적으로 표본 추출해 기록 (대여소당 주기마다 최대 1건)
+ */
+@Entity('station_availability_snapshots')
+@Index('idx_station_availability_snapshots_station_time', [
+  'station_id',
+  'recorded_at',
+])
+export class StationAvailabilitySnapshot {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'varchar', length: 50 })
+  station_id: string;
+
+  @Column({ type: 'int', comment: '자전거 수' })
+  bikes: number;
+
+  @Column({ type: 'int', comment: '총 거치대 수' })
+  total_racks: number;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  recorded_at: Date;
+}
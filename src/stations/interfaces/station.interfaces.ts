@@ -3,7 +3,11 @@
  * 비즈니스 로직 계약 및 복합 타입 구조 정의
  */
 
-import { StationStatus, StationId } from '../types/station.types';
+import {
+  StationStatus,
+  StationId,
+  ForecastConfidence,
+} from '../types/station.types';
 
 // ============================================
 // 좌표 관련 인터페이스
@@ -112,6 +116,23 @@ export interface RealtimeUpdateData {
   };
 }
 
+// 재고 스냅샷 기록용 데이터 인터페이스
+export interface AvailabilitySnapshotData {
+  stationId: StationId;
+  bikes: number;
+  totalRacks: number;
+}
+
+// 예측 시각 기준 대여소 재고 예측 결과 인터페이스
+export interface StationAvailabilityForecast {
+  stationId: StationId;
+  forecastAt: Date;
+  bikes: number;
+  freeDocks: number;
+  confidence: ForecastConfidence;
+  sampleCount: number; // 예측에 사용한 이력 스냅샷 수
+}
+
 // 전체 삭제 결과 인터페이스
 export interface DeleteAllResult {
   deleted: number;
@@ -0,0 +1,175 @@
+import { Logger } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Station } from '../entities/station.entity';
+import { StationAvailabilitySnapshot } from '../entities/station-availability-snapshot.entity';
+import { StationResponseDto } from '../dto/station-api.dto';
+import { StationForecastService } from './station-forecast.service';
+
+interface StatsRow {
+  stationId: string;
+  avgBikes: string;
+  stddevBikes: string | null;
+  sampleCount: string;
+}
+
+// 2026-10-16(금) 12:00 KST
+const NOW = Date.parse('2026-10-16T03:00:00Z');
+const HOUR = 3600000;
+
+const station = (currentBikes: number, totalRacks = 20): StationResponseDto =>
+  ({
+    id: 'ST-101',
+    name: '101번 대여소',
+    number: '101',
+    current_bikes: currentBikes,
+    total_racks: totalRacks,
+  }) as StationResponseDto;
+
+const stats = (
+  avgBikes: number,
+  sampleCount: number,
+  stddevBikes = 0,
+): StatsRow[] => [
+  {
+    stationId: 'ST-101',
+    avgBikes: String(avgBikes),
+    stddevBikes: String(stddevBikes),
+    sampleCount: String(sampleCount),
+  },
+];
+
+describe('StationForecastService', () => {
+  let service: StationForecastService;
+  let getRawMany: jest.Mock<Promise<StatsRow[]>, []>;
+  let andWhere: jest.Mock;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(async () => {
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    getRawMany = jest.fn<Promise<StatsRow[]>, []>().mockResolvedValue([]);
+    const queryBuilder = {
+      select: jest.fn().mockReturnThis(),
+      addSelect: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      groupBy: jest.fn().mockReturnThis(),
+      getRawMany,
+    };
+    andWhere = queryBuilder.andWhere;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StationForecastService,
+        {
+          provide: getRepositoryToken(StationAvailabilitySnapshot),
+          useValue: { createQueryBuilder: () => queryBuilder },
+        },
+        { provide: getRepositoryToken(Station), useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<StationForecastService>(StationForecastService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const forecast = async (stationDto: StationResponseDto, hoursAhead: number) =>
+    (
+      await service.forecastAvailability(
+        [stationDto],
+        new Date(NOW + hoursAhead * HOUR),
+      )
+    ).get(stationDto.id);
+
+  it('should blend live stock and history by how far ahead the forecast is', async () => {
+    getRawMany.mockResolvedValue(stats(4, 10));
+
+    // 1시간 후: 실시간 비중 0.5 → 10 × 0.5 + 4 × 0.5
+    await expect(forecast(station(10), 1)).resolves.toMatchObject({
+      bikes: 7,
+      freeDocks: 13,
+      confidence: 'medium',
+      sampleCount: 10,
+    });
+    // 2시간 이후: 이력 평균만 사용
+    await expect(forecast(station(10), 3)).resolves.toMatchObject({
+      bikes: 4,
+      freeDocks: 16,
+    });
+  });
+
+  it('should keep live stock without history', async () => {
+    await expect(forecast(station(10), 3)).resolves.toMatchObject({
+      bikes: 10,
+      freeDocks: 10,
+      confidence: 'low',
+      sampleCount: 0,
+    });
+  });
+
+  it('should be highly confident right before departure', async () => {
+    // 5분 후: 실시간 비중 약 0.96
+    await expect(forecast(station(10), 1 / 12)).resolves.toMatchObject({
+      bikes: 10,
+      confidence: 'high',
+    });
+  });
+
+  it('should rate far forecasts by sample count and spread', async () => {
+    getRawMany.mockResolvedValueOnce(stats(8, 30, 2));
+    await expect(forecast(station(10), 3)).resolves.toMatchObject({
+      confidence: 'high',
+    });
+
+    // 표준편차 / 거치대 수 = 0.3 → 변동이 커서 medium
+    getRawMany.mockResolvedValueOnce(stats(8, 30, 6));
+    await expect(forecast(station(10), 3)).resolves.toMatchObject({
+      confidence: 'medium',
+    });
+
+    getRawMany.mockResolvedValueOnce(stats(8, 3));
+    await expect(forecast(station(10), 3)).resolves.toMatchObject({
+      confidence: 'low',
+    });
+  });
+
+  it('should keep forecasts within the rack count', async () => {
+    getRawMany.mockResolvedValue(stats(30, 10));
+
+    await expect(forecast(station(10), 3)).resolves.toMatchObject({
+      bikes: 20,
+      freeDocks: 0,
+    });
+  });
+
+  it('should match history by weekday type and time of day in KST', async () => {
+    // 2026-10-17(토) 08:00 KST
+    await service.forecastAvailability(
+      [station(10)],
+      new Date('2026-10-16T23:00:00Z'),
+    );
+
+    expect(andWhere).toHaveBeenCalledWith(expect.any(String), {
+      isWeekend: true,
+    });
+    expect(andWhere).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({ minuteOfDay: 480, window: 30 }),
+    );
+  });
+
+  it('should fall back to live stock when history cannot be loaded', async () => {
+    getRawMany.mockRejectedValue(new Error('connection lost'));
+
+    await expect(forecast(station(10), 3)).resolves.toMatchObject({
+      bikes: 10,
+      sampleCount: 0,
+    });
+  });
+});
@@ -0,0 +1,278 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron } from '@nestjs/schedule';
+import { Repository, LessThan, MoreThan, Not } from 'typeorm';
+import { Station } from '../entities/station.entity';
+import { StationAvailabilitySnapshot } from '../entities/station-availability-snapshot.entity';
+import { StationResponseDto } from '../dto/station-api.dto';
+import {
+  AvailabilitySnapshotData,
+  StationAvailabilityForecast,
+} from '../interfaces/station.interfaces';
+import { ForecastConfidence } from '../types/station.types';
+
+const FORECAST_CONSTANTS = {
+  HISTORY_DAYS: 56, // 예측에 사용할 이력 기간 (8주)
+  RETENTION_DAYS: 56, // 스냅샷 보관 기간
+  SAMPLE_INTERVAL_MINUTES: 10, // 스냅샷 표본 기록 주기 (sampleRecentAvailability 크론 주기와 일치)
+  TIME_WINDOW_MINUTES: 30, // 같은 시간대로 볼 예측 시각 전후 범위
+  LIVE_WEIGHT_HORIZON_HOURS: 2, // 이 시간 이후 예측에는 실시간 재고를 반영하지 않음
+  HIGH_CONFIDENCE_LIVE_WEIGHT: 0.9, // 실시간 재고 비중이 이 이상이면 신뢰도 high
+  MEDIUM_CONFIDENCE_LIVE_WEIGHT: 0.5,
+  MIN_SAMPLES_HIGH: 20,
+  MIN_SAMPLES_MEDIUM: 5,
+  MAX_SPREAD_RATIO_HIGH: 0.2, // 표준편차 / 총 거치대 수 (신뢰도 high 기준)
+  KST_OFFSET_MINUTES: 9 * 60, // 한국은 서머타임 없음
+  MINUTES_PER_DAY: 24 * 60,
+} as const;
+
+/**
+ * 대여소별 이력 집계 (같은 요일 유형, 같은 시간대)
+ */
+interface SnapshotStatsRow {
+  stationId: string;
+  avgBikes: string;
+  stddevBikes: string | null;
+  sampleCount: string;
+}
+
+/**
+ * StationForecastService
+ * - 실시간 정보가 갱신된 대여소의 재고를 주기적으로 스냅샷 기록 (대여소당 주기마다 최대 1건)
+ * - 같은 요일 유형(평일/주말)·같은 시간대의 이력 평균으로 예측 시각의 재고 추정
+ * - 예측 시각이 가까울수록 실시간 재고 비중을 높여 이력 평균과 혼합
+ */
+@Injectable()
+export class StationForecastService {
+  private readonly logger = new Logger(StationForecastService.name);
+
+  constructor(
+    @InjectRepository(StationAvailabilitySnapshot)
+    private readonly snapshotRepository: Repository<StationAvailabilitySnapshot>,
+    @InjectRepository(Station)
+    private readonly stationRepository: Repository<Station>,
+  ) {}
+
+  /**
+   * 직전 주기 이후 실시간 정보가 갱신된 운영 중 대여소의 재고 스냅샷 기록
+   * - 사용자 요청의 실시간 동기화가 DB에 반영한 재고를 표본으로 사용 (요청 처리 중 기록하지 않음)
+   * - 같은 대여소를 여러 번 동기화해도 주기마다 한 건만 기록
+   * 10분마다 실행됩니다.
+   */
+  @Cron('*/10 * * * *') // 10분마다
+  async sampleRecentAvailability(): Promise<void> {
+    const since = new Date(
+      Date.now() - FORECAST_CONSTANTS.SAMPLE_INTERVAL_MINUTES * 60000,
+    );
+    try {
+      const stations = await this.stationRepository.find({
+        select: ['id', 'current_bikes', 'total_racks'],
+        where: { last_updated_at: MoreThan(since), status: Not('inactive') },
+      });
+      await this.recordSnapshots(
+        stations.map((station) => ({
+          stationId: station.id,
+          bikes: station.current_bikes,
+          totalRacks: station.total_racks,
+        })),
+      );
+      this.logger.debug(`재고 스냅샷 기록 완료: ${stations.length}개`);
+    } catch (error) {
+      this.logger.error('재고 스냅샷 표본 조회 실패:', error);
+    }
+  }
+
+  /**
+   * 재고 스냅샷 기록 (실패해도 경고만 남김)
+   */
+  private async recordSnapshots(
+    snapshots: AvailabilitySnapshotData[],
+  ): Promise<void> {
+    if (snapshots.length === 0) {
+      return;
+    }
+
+    try {
+      await this.snapshotRepository.insert(
+        snapshots.map((snapshot) => ({
+          station_id: snapshot.stationId,
+          bikes: snapshot.bikes,
+          total_racks: snapshot.totalRacks,
+        })),
+      );
+    } catch (error) {
+      this.logger.warn(`재고 스냅샷 기록 실패: ${snapshots.length}개`, error);
+    }
+  }
+
+  /**
+   * 예측 시각 기준 대여소별 자전거 수 / 빈 거치대 수 예측
+   * - 이력이 없는 대여소는 실시간 재고를 그대로 사용하고 신뢰도를 낮춤
+   */
+  async forecastAvailability(
+    stations: StationResponseDto[],
+    forecastAt: Date,
+  ): Promise<Map<string, StationAvailabilityForecast>> {
+    const forecasts = new Map<string, StationAvailabilityForecast>();
+    if (stations.length === 0) {
+      return forecasts;
+    }
+
+    const horizonHours = Math.max(
+      (forecastAt.getTime() - Date.now()) / 3600000,
+      0,
+    );
+    const liveWeight = Math.max(
+      1 - horizonHours / FORECAST_CONSTANTS.LIVE_WEIGHT_HORIZON_HOURS,
+      0,
+    );
+    const statsByStation = await this.findSnapshotStats(
+      stations.map((station) => station.id),
+      forecastAt,
+    );
+
+    for (const station of stations) {
+      const stats = statsByStation.get(station.id);
+      const sampleCount = stats ? parseInt(stats.sampleCount) : 0;
+      const liveBikes = station.current_bikes ?? 0;
+      const totalRacks = station.total_racks ?? 0;
+
+      const expectedBikes =
+        stats && sampleCount > 0
+          ? liveWeight * liveBikes +
+            (1 - liveWeight) * parseFloat(stats.avgBikes)
+          : liveBikes;
+      const bikes = Math.min(
+        Math.max(Math.round(expectedBikes), 0),
+        Math.max(totalRacks, liveBikes),
+      );
+
+      forecasts.set(station.id, {
+        stationId: station.id,
+        forecastAt,
+        bikes,
+        freeDocks: Math.max(totalRacks - bikes, 0),
+        confidence: this.determineConfidence(
+          liveWeight,
+          sampleCount,
+          parseFloat(stats?.stddevBikes ?? '0') || 0,
+          totalRacks,
+        ),
+        sampleCount,
+      });
+    }
+
+    this.logger.debug(
+      `대여소 재고 예측 완료 - 대여소 ${stations.length}개, 이력 보유 ${statsByStation.size}개, 실시간 비중 ${liveWeight.toFixed(2)}`,
+    );
+    return forecasts;
+  }
+
+  /**
+   * 보관 기간이 지난 스냅샷 삭제
+   * 매일 오전 4시에 실행됩니다.
+   */
+  @Cron('0 4 * * *') // 매일 오전 4시
+  async purgeExpiredSnapshots(): Promise<void> {
+    const cutoff = new Date(
+      Date.now() - FORECAST_CONSTANTS.RETENTION_DAYS * 24 * 3600000,
+    );
+    try {
+      const result = await this.snapshotRepository.delete({
+        recorded_at: LessThan(cutoff),
+      });
+      this.logger.log(
+        `만료된 재고 스냅샷 삭제 완료: ${result.affected ?? 0}개`,
+      );
+    } catch (error) {
+      this.logger.error('만료된 재고 스냅샷 삭제 실패:', error);
+    }
+  }
+
+  /**
+   * 예측 시각과 같은 요일 유형(평일/주말), 전후 TIME_WINDOW_MINUTES 이내 스냅샷 집계
+   * - 요일/시간대는 한국 시간 기준
+   * - 조회 실패 시 이력이 없는 것으로 처리
+   */
+  private async findSnapshotStats(
+    stationIds: string[],
+    forecastAt: Date,
+  ): Promise<Map<string, SnapshotStatsRow>> {
+    const localTime = new Date(
+      forecastAt.getTime() + FORECAST_CONSTANTS.KST_OFFSET_MINUTES * 60000,
+    );
+    const minuteOfDay =
+      localTime.getUTCHours() * 60 + localTime.getUTCMinutes();
+    const isWeekend =
+      localTime.getUTCDay() === 0 || localTime.getUTCDay() === 6;
+    const since = new Date(
+      Date.now() - FORECAST_CONSTANTS.HISTORY_DAYS * 24 * 3600000,
+    );
+    const localRecordedAt = `(snapshot.recorded_at AT TIME ZONE 'Asia/Seoul')`;
+    const recordedMinute = `(EXTRACT(HOUR FROM ${localRecordedAt}) * 60 + EXTRACT(MINUTE FROM ${localRecordedAt}))`;
+
+    try {
+      const rows = await this.snapshotRepository
+        .createQueryBuilder('snapshot')
+        .select('snapshot.station_id', 'stationId')
+        .addSelect('AVG(snapshot.bikes)', 'avgBikes')
+        .addSelect('STDDEV_POP(snapshot.bikes)', 'stddevBikes')
+        .addSelect('COUNT(*)', 'sampleCount')
+        .where('snapshot.station_id IN (:...stationIds)', { stationIds })
+        .andWhere('snapshot.recorded_at >= :since', { since })
+        .andWhere(
+          `(EXTRACT(ISODOW FROM ${localRecordedAt}) >= 6) = :isWeekend`,
+          { isWeekend },
+        )
+        .andWhere(
+          `LEAST(ABS(${recordedMinute} - :minuteOfDay), :minutesPerDay - ABS(${recordedMinute} - :minuteOfDay)) <= :window`,
+          {
+            minuteOfDay,
+            minutesPerDay: FORECAST_CONSTANTS.MINUTES_PER_DAY,
+            window: FORECAST_CONSTANTS.TIME_WINDOW_MINUTES,
+          },
+        )
+        .groupBy('snapshot.station_id')
+        .getRawMany<SnapshotStatsRow>();
+
+      return new Map(rows.map((row) => [row.stationId, row]));
+    } catch (error) {
+      this.logger.warn(
+        '재고 이력 조회 실패 - 실시간 재고로 대체합니다.',
+        error,
+      );
+      return new Map();
+    }
+  }
+
+  /**
+   * 예측 신뢰도 결정
+   * - 예측 시각이 충분히 가까우면 실시간 재고 기준이므로 high
+   * - 이력 표본이 많고 변동이 작으면 high, 표본이 어느 정도 있으면 medium
+   */
+  private determineConfidence(
+    liveWeight: number,
+    sampleCount: number,
+    stddevBikes: number,
+    totalRacks: number,
+  ): ForecastConfidence {
+    if (liveWeight >= FORECAST_CONSTANTS.HIGH_CONFIDENCE_LIVE_WEIGHT) {
+      return 'high';
+    }
+
+    const spreadRatio = stddevBikes / Math.max(totalRacks, 1);
+    if (
+      sampleCount >= FORECAST_CONSTANTS.MIN_SAMPLES_HIGH &&
+      spreadRatio <= FORECAST_CONSTANTS.MAX_SPREAD_RATIO_HIGH
+    ) {
+      return 'high';
+    }
+    if (
+      sampleCount >= FORECAST_CONSTANTS.MIN_SAMPLES_MEDIUM ||
+      liveWeight >= FORECAST_CONSTANTS.MEDIUM_CONFIDENCE_LIVE_WEIGHT
+    ) {
+      return 'medium';
+    }
+    return 'low';
+  }
+}
@@ -11,12 +11,14 @@ import { StationQueryService } from './services/station-query.service';
 import { StationManagementService } from './services/station-management.service';
 import { StationDomainService } from './services/station-domain.service';
 import { StationMapperService } from './services/station-mapper.service';
+import { StationForecastService } from './services/station-forecast.service';
 import { Station } from './entities/station.entity';
 import { SyncLog } from './entities/sync-log.entity';
+import { StationAvailabilitySnapshot } from './entities/station-availability-snapshot.entity';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Station, SyncLog]),
+    TypeOrmModule.forFeature([Station, SyncLog, StationAvailabilitySnapshot]),
     HttpModule,
     ConfigModule,
   ],
@@ -30,6 +32,7 @@ import { SyncLog } from './entities/sync-log.entity';
     StationManagementService,
     StationDomainService,
     StationMapperService,
+    StationForecastService,
   ],
   exports: [
     StationsService,
@@ -38,6 +41,7 @@ import { SyncLog } from './entities/sync-log.entity';
     StationManagementService,
     StationRealtimeService,
     StationDomainService,
+    StationForecastService,
   ],
 })
 export class StationsModule {}
@@ -11,6 +11,9 @@ export type StationStatus = 'available' | 'empty' | 'inactive';
 
 export type StationId = string;
 
+// 재고 예측 신뢰도 (이력 표본 수, 변동성, 예측 시점까지 남은 시간 기준)
+export type ForecastConfidence = 'high' | 'medium' | 'low';
+
 // ============================================
 // 함수 타입 정의
 // ============================================
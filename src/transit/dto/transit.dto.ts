@@ -0,0 +1,99 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsEnum,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+// 대중교통 수단 (GTFS route_type 기반)
+export enum TransitMode {
+  SUBWAY = 'subway',
+  RAIL = 'rail',
+  TRAM = 'tram',
+  BUS = 'bus',
+}
+
+// 대중교통 정류장 DTO
+export class TransitStopDto {
+  @ApiProperty({ description: 'GTFS 정류장 ID', example: '1004000201' })
+  @IsString()
+  stopId: string;
+
+  @ApiProperty({ description: '정류장 이름', example: '서울역' })
+  @IsString()
+  name: string;
+
+  @ApiProperty({ description: '위도', example: 37.5547 })
+  @IsNumber()
+  lat: number;
+
+  @ApiProperty({ description: '경도', example: 126.9707 })
+  @IsNumber()
+  lng: number;
+}
+
+// 대중교통 탑승 구간 상세 DTO (transit 세그먼트에만 적용)
+export class TransitLegDto {
+  @ApiProperty({ description: '대중교통 수단', enum: TransitMode })
+  @IsEnum(TransitMode)
+  mode: TransitMode;
+
+  @ApiProperty({ description: '노선 이름', example: '4호선' })
+  @IsString()
+  lineName: string;
+
+  @ApiProperty({
+    description: '노선 색상 (GTFS route_color, # 포함)',
+    required: false,
+    example: '#00A5DE',
+  })
+  @IsOptional()
+  @IsString()
+  lineColor?: string;
+
+  @ApiProperty({
+    description: '행선지 (GTFS trip_headsign)',
+    required: false,
+    example: '당고개',
+  })
+  @IsOptional()
+  @IsString()
+  headsign?: string;
+
+  @ApiProperty({ description: '승차 정류장', type: TransitStopDto })
+  @IsObject()
+  @ValidateNested()
+  @Type(() => TransitStopDto)
+  boardStop: TransitStopDto;
+
+  @ApiProperty({ description: '하차 정류장', type: TransitStopDto })
+  @IsObject()
+  @ValidateNested()
+  @Type(() => TransitStopDto)
+  alightStop: TransitStopDto;
+
+  @ApiProperty({
+    description: '승차~하차 정류장 목록 (승차/하차 정류장 포함, 순서대로)',
+    type: [TransitStopDto],
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => TransitStopDto)
+  stops: TransitStopDto[];
+
+  @ApiProperty({
+    description: '예상 대기 시간 (초) - 배차 간격의 절반',
+    example: 180,
+  })
+  @IsNumber()
+  waitTime: number;
+
+  @ApiProperty({ description: '탑승 시간 (초)', example: 840 })
+  @IsNumber()
+  rideTime: number;
+}
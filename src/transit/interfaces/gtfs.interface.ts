@@ -0,0 +1,61 @@
+import { TransitMode } from '../dto/transit.dto';
+
+/**
+ * GTFS 정류장 (stops.txt)
+ */
+export interface GtfsStop {
+  stopId: string;
+  name: string;
+  lat: number;
+  lng: number;
+}
+
+/**
+ * GTFS 노선 (routes.txt)
+ */
+export interface GtfsRoute {
+  routeId: string;
+  name: string; // route_short_name, 없으면 route_long_name
+  mode: TransitMode;
+  color?: string;
+}
+
+/**
+ * 운행 패턴 - 같은 노선/행선지/정류장 순서를 가진 trip들을 하나로 묶은 단위
+ * - offsets: 첫 정류장 출발 기준 각 정류장 도착까지의 시간 (초, 패턴의 첫 trip 기준)
+ * - headway: 평균 배차 간격 (초)
+ */
+export interface TransitPattern {
+  patternId: string;
+  route: GtfsRoute;
+  headsign?: string;
+  stopIds: string[];
+  offsets: number[];
+  headway: number;
+}
+
+/**
+ * 정류장 → 해당 정류장을 지나는 패턴과 패턴 내 위치
+ */
+export interface StopPatternRef {
+  pattern: TransitPattern;
+  position: number;
+}
+
+/**
+ * 출발지/도착지 사이 대중교통 탑승 후보 (환승 없음)
+ * - accessMode / egressMode: 정류장까지 / 정류장에서의 이동 수단
+ * - estimatedTime: 접근 + 대기 + 탑승 + 이동 시간 추정치 (초, 후보 정렬용)
+ */
+export interface TransitRide {
+  pattern: TransitPattern;
+  boardPosition: number;
+  alightPosition: number;
+  boardStop: GtfsStop;
+  alightStop: GtfsStop;
+  waitTime: number;
+  rideTime: number;
+  accessMode: 'walking' | 'biking';
+  egressMode: 'walking' | 'biking';
+  estimatedTime: number;
+}
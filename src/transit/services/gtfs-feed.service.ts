@@ -0,0 +1,358 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createReadStream, existsSync } from 'fs';
+import { join } from 'path';
+import { createInterface } from 'readline';
+import { TransitMode } from '../dto/transit.dto';
+import { RouteUtilService } from '../../routes/services/route-util.service';
+import {
+  GtfsRoute,
+  GtfsStop,
+  StopPatternRef,
+  TransitPattern,
+} from '../interfaces/gtfs.interface';
+
+const GTFS_CONSTANTS = {
+  REQUIRED_FILES: ['stops.txt', 'routes.txt', 'trips.txt', 'stop_times.txt'],
+  MIN_HEADWAY_SECONDS: 120,
+  MAX_HEADWAY_SECONDS: 1800, // trip이 하나뿐인 패턴의 배차 간격
+} as const;
+
+/**
+ * stop_times.txt 한 행 (trip 단위로 모아 패턴 생성)
+ */
+interface GtfsStopTime {
+  sequence: number;
+  stopId: string;
+  arrival: number;
+  departure: number;
+}
+
+/**
+ * 패턴 생성 중 누적 정보
+ */
+interface PatternAccumulator {
+  pattern: TransitPattern;
+  serviceIds: Set<string>;
+  tripCount: number;
+  firstDeparture: number;
+  lastDeparture: number;
+}
+
+/**
+ * GtfsFeedService
+ * - GTFS_FEED_DIR의 GTFS 피드(stops/routes/trips/stop_times)를 기동 시 한 번 메모리에 적재
+ * - 외부 API 호출 없이 로컬 파일만 사용, 피드가 없으면 대중교통 연계 기능 비활성화
+ * - stop_times.txt는 trip_id 단위로 연속되어 있다고 가정하고 스트리밍으로 처리
+ * - 서비스 요일(calendar)은 구분하지 않고 service_id 수로 평균 배차 간격만 보정
+ */
+@Injectable()
+export class GtfsFeedService implements OnModuleInit {
+  private readonly logger = new Logger(GtfsFeedService.name);
+  private stops = new Map<string, GtfsStop>();
+  private stopPatterns = new Map<string, StopPatternRef[]>();
+  private loaded = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly routeUtil: RouteUtilService,
+  ) {}
+
+  async onModuleInit() {
+    const feedDir = this.configService.get<string>('GTFS_FEED_DIR');
+    if (!feedDir) {
+      this.logger.warn(
+        'GTFS_FEED_DIR가 설정되지 않아 대중교통 연계 경로를 사용할 수 없습니다.',
+      );
+      return;
+    }
+
+    try {
+      await this.loadFeed(feedDir);
+    } catch (error) {
+      this.logger.error(`GTFS 피드 로드 실패 - 경로: ${feedDir}`, error);
+    }
+  }
+
+  /**
+   * 피드 적재 여부
+   */
+  isLoaded(): boolean {
+    return this.loaded;
+  }
+
+  /**
+   * 좌표 반경 내 정류장 (가까운 순)
+   */
+  findStopsWithinRadius(
+    coordinate: { lat: number; lng: number },
+    radius: number,
+    limit: number,
+  ): { stop: GtfsStop; distance: number }[] {
+    const nearby: { stop: GtfsStop; distance: number }[] = [];
+    for (const stop of this.stops.values()) {
+      const distance = this.routeUtil.calculateDistance(
+        [coordinate.lng, coordinate.lat],
+        [stop.lng, stop.lat],
+      );
+      if (distance <= radius) nearby.push({ stop, distance });
+    }
+    return nearby.sort((a, b) => a.distance - b.distance).slice(0, limit);
+  }
+
+  /**
+   * 정류장을 지나는 운행 패턴 목록
+   */
+  getPatternsAtStop(stopId: string): StopPatternRef[] {
+    return this.stopPatterns.get(stopId) ?? [];
+  }
+
+  /**
+   * 정류장 조회
+   */
+  getStop(stopId: string): GtfsStop | undefined {
+    return this.stops.get(stopId);
+  }
+
+  /**
+   * GTFS 피드 디렉터리 적재
+   */
+  async loadFeed(feedDir: string): Promise<void> {
+    const missing = GTFS_CONSTANTS.REQUIRED_FILES.filter(
+      (file) => !existsSync(join(feedDir, file)),
+    );
+    if (missing.length > 0) {
+      throw new Error(`GTFS 필수 파일이 없습니다: ${missing.join(', ')}`);
+    }
+
+    const stops = new Map<string, GtfsStop>();
+    await this.readCsv(join(feedDir, 'stops.txt'), (row) => {
+      const lat = Number(row.stop_lat);
+      const lng = Number(row.stop_lon);
+      if (!row.stop_id || !Number.isFinite(lat) || !Number.isFinite(lng)) {
+        return;
+      }
+      stops.set(row.stop_id, {
+        stopId: row.stop_id,
+        name: row.stop_name,
+        lat,
+        lng,
+      });
+    });
+
+    const routes = new Map<string, GtfsRoute>();
+    await this.readCsv(join(feedDir, 'routes.txt'), (row) => {
+      routes.set(row.route_id, {
+        routeId: row.route_id,
+        name: row.route_short_name || row.route_long_name || row.route_id,
+        mode: this.toTransitMode(Number(row.route_type)),
+        color: row.route_color ? `#${row.route_color}` : undefined,
+      });
+    });
+
+    const trips = new Map<
+      string,
+      { routeId: string; serviceId: string; headsign?: string }
+    >();
+    await this.readCsv(join(feedDir, 'trips.txt'), (row) => {
+      trips.set(row.trip_id, {
+        routeId: row.route_id,
+        serviceId: row.service_id,
+        headsign: row.trip_headsign || undefined,
+      });
+    });
+
+    // stop_times: trip 단위로 모아 운행 패턴으로 합침
+    const accumulators = new Map<string, PatternAccumulator>();
+    let currentTripId: string | undefined;
+    let currentStopTimes: GtfsStopTime[] = [];
+    const flushTrip = () => {
+      const trip = currentTripId ? trips.get(currentTripId) : undefined;
+      const route = trip ? routes.get(trip.routeId) : undefined;
+      if (trip && route && currentStopTimes.length >= 2) {
+        this.accumulatePattern(accumulators, route, trip, currentStopTimes);
+      }
+      currentStopTimes = [];
+    };
+    await this.readCsv(join(feedDir, 'stop_times.txt'), (row) => {
+      if (row.trip_id !== currentTripId) {
+        flushTrip();
+        currentTripId = row.trip_id;
+      }
+      if (!stops.has(row.stop_id)) return;
+      const arrival = this.parseTime(row.arrival_time);
+      const departure = this.parseTime(row.departure_time);
+      if (arrival === undefined && departure === undefined) return;
+      currentStopTimes.push({
+        sequence: Number(row.stop_sequence),
+        stopId: row.stop_id,
+        arrival: arrival ?? departure!,
+        departure: departure ?? arrival!,
+      });
+    });
+    flushTrip();
+
+    const stopPatterns = new Map<string, StopPatternRef[]>();
+    for (const accumulator of accumulators.values()) {
+      const pattern = {
+        ...accumulator.pattern,
+        headway: this.calculateHeadway(accumulator),
+      };
+      pattern.stopIds.forEach((stopId, position) => {
+        const refs = stopPatterns.get(stopId) ?? [];
+        refs.push({ pattern, position });
+        stopPatterns.set(stopId, refs);
+      });
+    }
+
+    this.stops = stops;
+    this.stopPatterns = stopPatterns;
+    this.loaded = true;
+    this.logger.log(
+      `GTFS 피드 로드 완료 - 정류장 ${stops.size}개, 노선 ${routes.size}개, 운행 패턴 ${accumulators.size}개`,
+    );
+  }
+
+  /**
+   * trip 하나를 운행 패턴에 누적 (같은 노선/행선지/정류장 순서면 같은 패턴)
+   */
+  private accumulatePattern(
+    accumulators: Map<string, PatternAccumulator>,
+    route: GtfsRoute,
+    trip: { serviceId: string; headsign?: string },
+    stopTimes: GtfsStopTime[],
+  ): void {
+    const ordered = [...stopTimes].sort((a, b) => a.sequence - b.sequence);
+    const stopIds = ordered.map((stopTime) => stopTime.stopId);
+    const patternId = `${route.routeId}|${trip.headsign ?? ''}|${stopIds.join(',')}`;
+    const tripStart = ordered[0].departure;
+
+    const existing = accumulators.get(patternId);
+    if (existing) {
+      existing.serviceIds.add(trip.serviceId);
+      existing.tripCount++;
+      existing.firstDeparture = Math.min(existing.firstDeparture, tripStart);
+      existing.lastDeparture = Math.max(existing.lastDeparture, tripStart);
+      return;
+    }
+
+    accumulators.set(patternId, {
+      pattern: {
+        patternId,
+        route,
+        headsign: trip.headsign,
+        stopIds,
+        offsets: ordered.map((stopTime) => stopTime.arrival - tripStart),
+        headway: GTFS_CONSTANTS.MAX_HEADWAY_SECONDS,
+      },
+      serviceIds: new Set([trip.serviceId]),
+      tripCount: 1,
+      firstDeparture: tripStart,
+      lastDeparture: tripStart,
+    });
+  }
+
+  /**
+   * 평균 배차 간격 (초) = 운행 시간대 / (하루 평균 trip 수 - 1)
+   */
+  private calculateHeadway(accumulator: PatternAccumulator): number {
+    const tripsPerService =
+      accumulator.tripCount / Math.max(accumulator.serviceIds.size, 1);
+    if (tripsPerService <= 1) return GTFS_CONSTANTS.MAX_HEADWAY_SECONDS;
+
+    const headway =
+      (accumulator.lastDeparture - accumulator.firstDeparture) /
+      (tripsPerService - 1);
+    return Math.round(
+      Math.min(
+        Math.max(headway, GTFS_CONSTANTS.MIN_HEADWAY_SECONDS),
+        GTFS_CONSTANTS.MAX_HEADWAY_SECONDS,
+      ),
+    );
+  }
+
+  /**
+   * GTFS route_type (기본 + 확장 타입) → TransitMode
+   */
+  private toTransitMode(routeType: number): TransitMode {
+    if (routeType === 0 || (routeType >= 900 && routeType < 1000)) {
+      return TransitMode.TRAM;
+    }
+    if (routeType === 1 || (routeType >= 400 && routeType < 500)) {
+      return TransitMode.SUBWAY;
+    }
+    if (routeType === 2 || (routeType >= 100 && routeType < 200)) {
+      return TransitMode.RAIL;
+    }
+    return TransitMode.BUS;
+  }
+
+  /**
+   * "HH:MM:SS" → 초 (24시 이후 표기 허용)
+   */
+  private parseTime(value?: string): number | undefined {
+    const match = value?.trim().match(/^(\d+):(\d{2}):(\d{2})$/);
+    if (!match) return undefined;
+    return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+  }
+
+  /**
+   * CSV 파일을 한 줄씩 읽어 헤더 기준 객체로 전달
+   */
+  private async readCsv(
+    filePath: string,
+    onRow: (row: Record<string, string>) => void,
+  ): Promise<void> {
+    const lines = createInterface({
+      input: createReadStream(filePath, { encoding: 'utf8' }),
+      crlfDelay: Infinity,
+    });
+
+    let headers: string[] | undefined;
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      const values = this.parseCsvLine(line);
+      if (!headers) {
+        headers = values.map((header) => header.replace(/^\uFEFF/, '').trim());
+        continue;
+      }
+      const row: Record<string, string> = {};
+      headers.forEach((header, idx) => {
+        row[header] = values[idx]?.trim() ?? '';
+      });
+      onRow(row);
+    }
+  }
+
+  /**
+   * CSV 한 줄 파싱 (큰따옴표로 감싼 필드와 "" 이스케이프 지원)
+   */
+  private parseCsvLine(line: string): string[] {
+    const values: string[] = [];
+    let current = '';
+    let quoted = false;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (quoted) {
+        if (char === '"' && line[i + 1] === '"') {
+          current += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          current += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        values.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    values.push(current);
+    return values;
+  }
+}
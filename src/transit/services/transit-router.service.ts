@@ -0,0 +1,146 @@
+import {
+  Injectable,
+  Logger,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { TransitMode } from '../dto/transit.dto';
+import { GtfsStop, TransitRide } from '../interfaces/gtfs.interface';
+import { GtfsFeedService } from './gtfs-feed.service';
+
+const TRANSIT_ROUTER_CONSTANTS = {
+  MAX_ACCESS_DISTANCE: 3000, // 출발지/도착지 ~ 정류장 최대 직선 거리 (자전거 접근 기준)
+  MAX_WALK_ACCESS_DISTANCE: 500, // 이 거리 이내 정류장은 자전거 없이 도보로 접근
+  STOP_CANDIDATES_PER_SIDE: 30,
+  WALK_SPEED_MPS: 1.2,
+  BIKE_SPEED_MPS: 3.5, // 약 12.6km/h
+  DETOUR_FACTOR: 1.3, // 직선 거리 → 실제 이동 거리 보정
+  BIKE_ACCESS_OVERHEAD_SECONDS: 240, // 대여소까지 도보 + 대여/반납 시간
+} as const;
+
+type AccessMode = TransitRide['accessMode'];
+
+/**
+ * TransitRouterService
+ * - GTFS 운행 패턴으로 출발지/도착지 근처 정류장을 잇는 대중교통 탑승 후보 검색
+ * - 환승 없이 한 노선만 이용하는 후보만 대상 (정류장까지는 도보 또는 따릉이)
+ * - 배차 간격 기반 평균 대기 시간을 사용하며 실시간 운행 정보는 사용하지 않음
+ */
+@Injectable()
+export class TransitRouterService {
+  private readonly logger = new Logger(TransitRouterService.name);
+
+  constructor(private readonly gtfsFeedService: GtfsFeedService) {}
+
+  /**
+   * 대중교통 탑승 후보 검색 (예상 소요 시간 오름차순, 노선별 최선 후보 1개)
+   * @param modes 허용할 대중교통 수단 (미지정 시 전체)
+   */
+  findRides(
+    origin: { lat: number; lng: number },
+    destination: { lat: number; lng: number },
+    limit: number,
+    modes?: TransitMode[],
+  ): TransitRide[] {
+    if (!this.gtfsFeedService.isLoaded()) {
+      throw new ServiceUnavailableException(
+        '대중교통 데이터(GTFS)가 로드되지 않아 대중교통 연계 경로를 검색할 수 없습니다.',
+      );
+    }
+
+    const boardCandidates = this.gtfsFeedService.findStopsWithinRadius(
+      origin,
+      TRANSIT_ROUTER_CONSTANTS.MAX_ACCESS_DISTANCE,
+      TRANSIT_ROUTER_CONSTANTS.STOP_CANDIDATES_PER_SIDE,
+    );
+    const alightDistances = new Map(
+      this.gtfsFeedService
+        .findStopsWithinRadius(
+          destination,
+          TRANSIT_ROUTER_CONSTANTS.MAX_ACCESS_DISTANCE,
+          TRANSIT_ROUTER_CONSTANTS.STOP_CANDIDATES_PER_SIDE,
+        )
+        .map(({ stop, distance }) => [stop.stopId, distance]),
+    );
+
+    // 노선별 가장 빠른 후보만 유지
+    const bestByRoute = new Map<string, TransitRide>();
+    for (const {
+      stop: boardStop,
+      distance: accessDistance,
+    } of boardCandidates) {
+      const access = this.estimateAccess(accessDistance);
+
+      for (const {
+        pattern,
+        position,
+      } of this.gtfsFeedService.getPatternsAtStop(boardStop.stopId)) {
+        if (modes?.length && !modes.includes(pattern.route.mode)) continue;
+
+        for (let j = position + 1; j < pattern.stopIds.length; j++) {
+          const egressDistance = alightDistances.get(pattern.stopIds[j]);
+          if (egressDistance === undefined) continue;
+          const alightStop = this.gtfsFeedService.getStop(pattern.stopIds[j]);
+          if (!alightStop) continue;
+
+          const egress = this.estimateAccess(egressDistance);
+          const waitTime = Math.round(pattern.headway / 2);
+          const rideTime = pattern.offsets[j] - pattern.offsets[position];
+          const ride: TransitRide = {
+            pattern,
+            boardPosition: position,
+            alightPosition: j,
+            boardStop,
+            alightStop,
+            waitTime,
+            rideTime,
+            accessMode: access.mode,
+            egressMode: egress.mode,
+            estimatedTime: access.time + waitTime + rideTime + egress.time,
+          };
+
+          const best = bestByRoute.get(pattern.route.routeId);
+          if (!best || ride.estimatedTime < best.estimatedTime) {
+            bestByRoute.set(pattern.route.routeId, ride);
+          }
+        }
+      }
+    }
+
+    const rides = [...bestByRoute.values()]
+      .sort((a, b) => a.estimatedTime - b.estimatedTime)
+      .slice(0, limit);
+    this.logger.debug(
+      `대중교통 후보 검색 완료 - 승차 후보 정류장 ${boardCandidates.length}개, 하차 후보 정류장 ${alightDistances.size}개, 노선 후보 ${bestByRoute.size}개`,
+    );
+    return rides;
+  }
+
+  /**
+   * 탑승 구간의 정류장 목록 (승차/하차 정류장 포함)
+   */
+  getRideStops(ride: TransitRide): GtfsStop[] {
+    return ride.pattern.stopIds
+      .slice(ride.boardPosition, ride.alightPosition + 1)
+      .map((stopId) => this.gtfsFeedService.getStop(stopId))
+      .filter((stop): stop is GtfsStop => !!stop);
+  }
+
+  /**
+   * 정류장 접근 수단과 예상 시간 (초)
+   */
+  private estimateAccess(distance: number): { mode: AccessMode; time: number } {
+    const routeDistance = distance * TRANSIT_ROUTER_CONSTANTS.DETOUR_FACTOR;
+    if (distance <= TRANSIT_ROUTER_CONSTANTS.MAX_WALK_ACCESS_DISTANCE) {
+      return {
+        mode: 'walking',
+        time: routeDistance / TRANSIT_ROUTER_CONSTANTS.WALK_SPEED_MPS,
+      };
+    }
+    return {
+      mode: 'biking',
+      time:
+        routeDistance / TRANSIT_ROUTER_CONSTANTS.BIKE_SPEED_MPS +
+        TRANSIT_ROUTER_CONSTANTS.BIKE_ACCESS_OVERHEAD_SECONDS,
+    };
+  }
+}
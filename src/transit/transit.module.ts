@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { GtfsFeedService } from './services/gtfs-feed.service';
+import { TransitRouterService } from './services/transit-router.service';
+import { RouteUtilService } from '../routes/services/route-util.service';
+
+@Module({
+  providers: [
+    GtfsFeedService,
+    TransitRouterService,
+    RouteUtilService, // 정류장 거리 계산 (상태 없는 유틸, RoutesModule이 이 모듈을 import하므로 직접 등록)
+  ],
+  exports: [TransitRouterService],
+})
+export class TransitModule {}